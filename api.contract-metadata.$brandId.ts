@@ -0,0 +1,30 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import {
+  buildContractMetadata,
+  matchesETag,
+  metadataETag,
+} from '../services/token-minting/token-metadata.js';
+
+/**
+ * Collection metadata of a brand (public), for the `contractURI` of its
+ * contracts. Answers `If-None-Match` with a 304 while it is unchanged.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const metadata = params.brandId
+    ? await buildContractMetadata(params.brandId)
+    : null;
+  if (!metadata) {
+    return json({ error: 'Collection not found' }, { status: 404 });
+  }
+
+  const etag = metadataETag(metadata);
+  const headers = {
+    ETag: etag,
+    'Cache-Control': 'public, max-age=3600, must-revalidate',
+    'Access-Control-Allow-Origin': '*',
+  };
+  if (matchesETag(request.headers.get('If-None-Match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return json(metadata, { headers });
+};
@@ -0,0 +1,26 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import { DigitalIdService } from '../services/digital-id/index.server.js';
+
+const digitalIdService = new DigitalIdService();
+
+/**
+ * Provenance timeline of one of the current shop's digital IDs: every status
+ * change and on-chain action, oldest first, with actor, reason and tx hash.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findFirst({
+    where: { id: params.id, myshopify_domain: session.shop },
+    select: { id: true, status: true },
+  });
+  if (!digitalId) {
+    return json({ error: 'Digital ID not found' }, { status: 404 });
+  }
+
+  const events = await digitalIdService.getDigitalIdHistory(digitalId.id);
+  return json({ digitalId, events });
+};
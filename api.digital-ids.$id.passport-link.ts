@@ -0,0 +1,61 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  isPassportSigningEnabled,
+  issuePassportClaimLink,
+  passportLinkUrl,
+  signPassportToken,
+} from '../services/passport/passport-links.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * A signed passport link for one of the shop's digital IDs, to print as a
+ * QR code on the packaging.
+ *
+ * POST JSON `{ expiresInDays?, claim? }`. Links do not expire unless
+ * `expiresInDays` is set; `claim: true` adds a one-time claim token.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findFirst({
+    where: { id: params.id, myshopify_domain: shop },
+    select: { id: true },
+  });
+  if (!digitalId) {
+    return json({ error: 'Digital ID not found' }, { status: 404 });
+  }
+  if (!isPassportSigningEnabled()) {
+    return json(
+      { error: 'PASSPORT_SIGNING_KEYS is not configured' },
+      { status: 500 }
+    );
+  }
+
+  const input = (await request.json().catch(() => ({}))) as {
+    expiresInDays?: unknown;
+    claim?: unknown;
+  };
+  const days = input.expiresInDays;
+  if (days !== undefined && (typeof days !== 'number' || !(days > 0))) {
+    return json(
+      { error: 'expiresInDays must be a positive number' },
+      { status: 400 }
+    );
+  }
+
+  const subject = { type: 'digitalId' as const, id: digitalId.id };
+  const expiresInSeconds = days ? Math.round(days * 24 * 60 * 60) : 0;
+  const url =
+    input.claim === true
+      ? (await issuePassportClaimLink({ subject, expiresInSeconds })).url
+      : passportLinkUrl(signPassportToken({ subject, expiresInSeconds }));
+  log.info(
+    { shop, digitalIdId: digitalId.id, claim: input.claim === true },
+    '[Passport] Signed passport link issued'
+  );
+  return json({ url });
+};
@@ -0,0 +1,90 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@remix-run/node';
+import { createThirdwebClient } from 'thirdweb';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  issueMintVoucher,
+  MintVoucherError,
+  toVoucherPayload,
+} from '../services/token-minting/mint-vouchers.js';
+import { tokenMetadataUrl } from '../services/token-minting/token-minting.service.js';
+import { resolveTokenUri } from '../services/token-minting/metadata-pinning.js';
+import { log } from '../utils/logger.server';
+
+async function findShopDigitalId(id: string | undefined, shop: string) {
+  // @ts-ignore
+  return prisma.uniqueDigitalId.findFirst({
+    where: { id, myshopify_domain: shop },
+    select: { id: true, status: true },
+  });
+}
+
+/**
+ * The current mint voucher of one of the shop's digital IDs, for sharing
+ * with the customer so they can claim the token.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const digitalId = await findShopDigitalId(params.id, session.shop);
+  if (!digitalId) {
+    return json({ error: 'Digital ID not found' }, { status: 404 });
+  }
+
+  // @ts-ignore
+  const voucher = await prisma.mintVoucher.findFirst({
+    where: { digitalIdId: digitalId.id },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!voucher) {
+    return json({ error: 'No voucher issued' }, { status: 404 });
+  }
+  return json({ voucher: toVoucherPayload(voucher) });
+};
+
+/**
+ * Issue a mint voucher for one of the shop's unminted digital IDs, making it
+ * CLAIMABLE. Returns the current voucher when a valid one exists.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const digitalId = await findShopDigitalId(params.id, shop);
+  if (!digitalId) {
+    return json({ error: 'Digital ID not found' }, { status: 404 });
+  }
+
+  const clientId = process.env.THIRDWEB_CLIENT_ID;
+  const appBaseUrl = process.env.APP_BASE_URL;
+  if (!clientId || !appBaseUrl) {
+    return json(
+      { error: 'THIRDWEB_CLIENT_ID and APP_BASE_URL are required' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const voucher = await issueMintVoucher({
+      client: createThirdwebClient({ clientId }),
+      digitalIdId: digitalId.id,
+      metadataUrl: await resolveTokenUri(
+        digitalId.id,
+        tokenMetadataUrl(appBaseUrl, digitalId.id)
+      ),
+      actor: `admin:${shop}`,
+    });
+    log.info(
+      { shop, digitalIdId: digitalId.id, voucherId: voucher.id },
+      '[Mint] Voucher issued'
+    );
+    return json({ voucher: toVoucherPayload(voucher) });
+  } catch (error) {
+    if (error instanceof MintVoucherError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
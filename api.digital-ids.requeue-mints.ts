@@ -0,0 +1,65 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import { DigitalIdService } from '../services/digital-id/index.server.js';
+import { log } from '../utils/logger.server';
+
+const digitalIdService = new DigitalIdService();
+
+/**
+ * Re-enqueue the current shop's failed and stuck mints.
+ *
+ * POST JSON `{ digitalIdIds?: string[], stuckAfterMinutes?: number }`.
+ * Without `digitalIdIds` every MINT_FAILED digital ID of the shop is
+ * requeued, plus MINT_PENDING ones idle for `stuckAfterMinutes`
+ * (default `MINT_STUCK_AFTER_MS`).
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const input = ((await request.json().catch(() => null)) ?? {}) as {
+    digitalIdIds?: unknown;
+    stuckAfterMinutes?: unknown;
+  };
+
+  if (
+    input.digitalIdIds !== undefined &&
+    (!Array.isArray(input.digitalIdIds) ||
+      !input.digitalIdIds.every(id => typeof id === 'string'))
+  ) {
+    return json(
+      { error: 'digitalIdIds must be an array of strings' },
+      { status: 400 }
+    );
+  }
+  if (
+    input.stuckAfterMinutes !== undefined &&
+    (typeof input.stuckAfterMinutes !== 'number' ||
+      input.stuckAfterMinutes < 0)
+  ) {
+    return json(
+      { error: 'stuckAfterMinutes must be a non-negative number' },
+      { status: 400 }
+    );
+  }
+
+  const results = await digitalIdService.requeueMints({
+    shopId: shop,
+    digitalIdIds: input.digitalIdIds as string[] | undefined,
+    stuckAfterMs:
+      input.stuckAfterMinutes !== undefined
+        ? input.stuckAfterMinutes * 60 * 1000
+        : undefined,
+  });
+  log.info(
+    {
+      shop,
+      requeued: results.requeued.length,
+      alreadyQueued: results.alreadyQueued.length,
+      skipped: results.skipped.length,
+    },
+    '[Mint] Requeue requested'
+  );
+
+  return json(results);
+};
@@ -0,0 +1,93 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import { monthlyMintCostReport } from '../services/token-minting/mint-billing.js';
+import { log } from '../utils/logger.server';
+
+async function findShopBrand(shop: string) {
+  return prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shop },
+    select: {
+      id: true,
+      // @ts-ignore - billing columns are newer
+      monthlyMintCapWei: true,
+      mintingPausedAt: true,
+      mintingPausedReason: true,
+    },
+  });
+}
+
+/**
+ * The current shop's mint costs for `?month=YYYY-MM` (default: this month,
+ * UTC), per chain and contract, with its spending cap and pause state.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const brand = await findShopBrand(session.shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+
+  const month = new URL(request.url).searchParams.get('month') ?? undefined;
+  try {
+    const report = await monthlyMintCostReport(brand.id, month);
+    return json({
+      ...report,
+      // @ts-ignore
+      monthlyMintCapWei: brand.monthlyMintCapWei ?? null,
+      // @ts-ignore
+      mintingPausedAt: brand.mintingPausedAt ?? null,
+      // @ts-ignore
+      mintingPausedReason: brand.mintingPausedReason ?? null,
+    });
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+/**
+ * Set the current shop's monthly mint spending cap.
+ *
+ * POST JSON `{ monthlyMintCapWei: string | null }`; `null` removes the cap.
+ * Changing the cap lifts a pause; paused mints are checked against the new
+ * cap on their next try.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const brand = await findShopBrand(shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    monthlyMintCapWei?: unknown;
+  } | null;
+  const cap = input?.monthlyMintCapWei;
+  if (cap !== null && (typeof cap !== 'string' || !/^\d+$/.test(cap))) {
+    return json(
+      { error: 'monthlyMintCapWei must be a wei amount as a decimal string, or null' },
+      { status: 400 }
+    );
+  }
+
+  // The pause was for the old cap; the next mint checks the new one
+  // @ts-ignore
+  await prisma.brands3fa.update({
+    where: { id: brand.id },
+    data: {
+      monthlyMintCapWei: cap,
+      mintingPausedAt: null,
+      mintingPausedReason: null,
+    },
+  });
+  log.info({ shop, monthlyMintCapWei: cap }, '[Mint] Spending cap updated');
+  return json({ monthlyMintCapWei: cap });
+};
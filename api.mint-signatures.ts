@@ -0,0 +1,141 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@remix-run/node';
+import { createThirdwebClient } from 'thirdweb';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  deleteBrandMintSignature,
+  listBrandMintSignatures,
+  saveBrandMintSignature,
+  type TokenStandard,
+} from '../services/token-minting/mint-adapters.js';
+import { resolveMintAdapter } from '../services/token-minting/contract-capabilities.js';
+import {
+  chainConfigForBlockchain,
+  getChainConfig,
+} from '../services/token-minting/chain-registry.js';
+import { log } from '../utils/logger.server';
+
+async function findShopBrand(shop: string) {
+  return prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shop },
+    // @ts-ignore - chainId is a newer column
+    select: { id: true, chainId: true },
+  });
+}
+
+/**
+ * The current shop's custom mint signatures.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const brand = await findShopBrand(session.shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+  return json({ signatures: await listBrandMintSignatures(brand.id) });
+};
+
+/**
+ * Manage the current shop's mint signatures.
+ *
+ * POST JSON `{ intent: 'save' | 'delete' | 'probe', ... }`:
+ * - `save`: `{ method, args, contractAddress?, standard? }`, see
+ *   `mint-adapters.ts` for the argument mapping.
+ * - `delete`: `{ id }`.
+ * - `probe`: `{ contractAddress, chainId? }` probes the contract again and
+ *   returns its capabilities and the adapter mints would use.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const brand = await findShopBrand(shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    intent?: string;
+    id?: string;
+    method?: string;
+    args?: unknown;
+    contractAddress?: string;
+    standard?: TokenStandard;
+    chainId?: number;
+  } | null;
+
+  switch (input?.intent) {
+    case 'save': {
+      if (!input.method) {
+        return json({ error: 'method is required' }, { status: 400 });
+      }
+      try {
+        const signature = await saveBrandMintSignature({
+          brandId: brand.id,
+          contractAddress: input.contractAddress,
+          method: input.method,
+          args: input.args,
+          standard: input.standard,
+        });
+        log.info(
+          { shop, method: signature.method },
+          '[Mint] Saved brand mint signature'
+        );
+        return json({ signature });
+      } catch (error) {
+        return json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 422 }
+        );
+      }
+    }
+
+    case 'delete': {
+      if (!input.id) {
+        return json({ error: 'id is required' }, { status: 400 });
+      }
+      const deleted = await deleteBrandMintSignature(brand.id, input.id);
+      return deleted
+        ? json({ deleted: true })
+        : json({ error: 'Signature not found' }, { status: 404 });
+    }
+
+    case 'probe': {
+      const clientId = process.env.THIRDWEB_CLIENT_ID;
+      if (!clientId) {
+        return json({ error: 'THIRDWEB_CLIENT_ID is not set' }, { status: 500 });
+      }
+      if (!input.contractAddress) {
+        return json({ error: 'contractAddress is required' }, { status: 400 });
+      }
+      try {
+        const chainConfig = input.chainId
+          ? getChainConfig(input.chainId)
+          : // @ts-ignore
+            chainConfigForBlockchain(brand.chainId?.toString());
+        const { adapter, capabilities } = await resolveMintAdapter({
+          client: createThirdwebClient({ clientId }),
+          chainConfig,
+          contractAddress: input.contractAddress,
+          brandId: brand.id,
+          refresh: true,
+        });
+        return json({ adapter, capabilities });
+      } catch (error) {
+        return json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 422 }
+        );
+      }
+    }
+
+    default:
+      return json(
+        { error: 'intent must be one of save, delete, probe' },
+        { status: 400 }
+      );
+  }
+};
@@ -0,0 +1,113 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  renderNotification,
+  renderTemplate,
+  saveBrandTemplate,
+  smsSegmentInfo,
+  validateTemplate,
+  DEFAULT_MAX_SMS_SEGMENTS,
+  DEFAULT_REWARDS_POINTS,
+  SAMPLE_VARIABLES,
+  type NotificationTemplateKind,
+  type TemplateVariables,
+} from '../services/notifications/notification-templates.server.js';
+import { log } from '../utils/logger.server';
+
+const KINDS: NotificationTemplateKind[] = [
+  'ORDER_CONFIRMATION',
+  'SHIPMENT_SHIPPED',
+  'SHIPMENT_DELIVERED',
+  'TRANSFER_OFFER',
+];
+
+/**
+ * Preview and save the current shop's notification templates.
+ *
+ * POST JSON `{ intent: 'preview' | 'save', kind, locale?, body?, variables? }`.
+ * `preview` renders `body` when given (a draft), otherwise the template the
+ * brand would send for `locale`; missing variables use sample values.
+ * `save` validates `body` and stores it for `kind` + `locale`.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const input = (await request.json().catch(() => null)) as {
+    intent?: string;
+    kind?: NotificationTemplateKind;
+    locale?: string;
+    body?: string;
+    variables?: TemplateVariables;
+  } | null;
+
+  if (!input || !input.kind || !KINDS.includes(input.kind)) {
+    return json(
+      { error: `kind must be one of ${KINDS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const brand = await prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shop },
+    // @ts-ignore - smsMaxSegments is a newer column
+    select: { id: true, name: true, rewardsPoints: true, smsMaxSegments: true },
+  });
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+  // @ts-ignore
+  const maxSegments = brand.smsMaxSegments ?? DEFAULT_MAX_SMS_SEGMENTS;
+  // brand and points come from the brand record unless the caller overrides them
+  const { brand: _brand, points: _points, ...sampleVariables } =
+    SAMPLE_VARIABLES;
+  const variables = { ...sampleVariables, ...input.variables };
+
+  if (input.intent === 'save') {
+    if (!input.locale || !input.body) {
+      return json({ error: 'locale and body are required' }, { status: 400 });
+    }
+    try {
+      const template = await saveBrandTemplate({
+        brandId: brand.id,
+        kind: input.kind,
+        locale: input.locale,
+        body: input.body,
+      });
+      log.info(
+        { shop, kind: input.kind, locale: template.locale },
+        '[Templates] Saved brand template'
+      );
+      return json({ template });
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 422 }
+      );
+    }
+  }
+
+  if (input.body) {
+    const rendered = renderTemplate(input.body, {
+      brand: brand.name,
+      // @ts-ignore
+      points: brand.rewardsPoints ?? DEFAULT_REWARDS_POINTS,
+      ...variables,
+    });
+    return json({
+      body: rendered,
+      ...smsSegmentInfo(rendered),
+      maxSegments,
+      errors: validateTemplate(input.body, maxSegments),
+    });
+  }
+
+  const rendered = await renderNotification({
+    shopDomain: shop,
+    kind: input.kind,
+    customerLocale: input.locale,
+    variables,
+  });
+  return json({ ...rendered, maxSegments, errors: [] });
+};
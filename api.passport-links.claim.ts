@@ -0,0 +1,92 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import {
+  claimDigitalIdWithPassport,
+  OwnershipTransferError,
+} from '../services/ownership/ownership-transfer.server.js';
+import { PassportLinkError } from '../services/passport/passport-links.server.js';
+import {
+  authenticatePrivyUser,
+  PrivyAuthError,
+  syncPrivyWallet,
+  type PrivyAuthenticatedUser,
+} from '../services/user/privy-client.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Claim the digital ID of a passport link with a claim token, e.g. one
+ * printed on packaging (Privy access token of the claimer as
+ * `Authorization: Bearer`). POST JSON `{ token }`, the part after `/p/`.
+ *
+ * The claim token is used up and the digital ID becomes the claimer's. A
+ * minted token is moved from the owner's custodial wallet; while that is
+ * pending the response has the ACCEPTED `transfer`, which claiming again
+ * (or `/api/transfers/:id/confirm` without a hash) resumes.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let user: PrivyAuthenticatedUser;
+  try {
+    user = await authenticatePrivyUser(request);
+  } catch (error) {
+    if (error instanceof PrivyAuthError) {
+      return json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    token?: unknown;
+  } | null;
+  if (typeof input?.token !== 'string') {
+    return json({ error: 'token is required' }, { status: 400 });
+  }
+  await syncPrivyWallet(user);
+
+  try {
+    const { digitalIdId, transfer } = await claimDigitalIdWithPassport({
+      token: input.token,
+      user3faId: user.user3faId,
+    });
+    log.info(
+      { digitalIdId, user3faId: user.user3faId, transferId: transfer?.id },
+      '[Passport] Passport claimed'
+    );
+    return json({
+      digitalIdId,
+      transfer: transfer
+        ? {
+            id: transfer.id,
+            status: transfer.status,
+            transactionHash: transfer.transactionHash ?? null,
+          }
+        : null,
+    });
+  } catch (error) {
+    if (error instanceof PassportLinkError) {
+      return json(
+        { error: error.message, reason: error.reason },
+        {
+          status:
+            error.reason === 'EXPIRED' || error.reason === 'CLAIM_USED'
+              ? 410
+              : 400,
+        }
+      );
+    }
+    if (error instanceof OwnershipTransferError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(
+      { user3faId: user.user3faId, error: message },
+      '[Passport] Claim failed'
+    );
+    return json(
+      { error: 'Claim failed, please try again' },
+      { status: 502 }
+    );
+  }
+};
@@ -0,0 +1,36 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import {
+  PassportLinkError,
+  passportClaimStatus,
+  verifyPassportToken,
+} from '../services/passport/passport-links.server.js';
+
+/**
+ * Verify a signed passport link (public): `?token=<token>`, the part after
+ * `/p/`. Returns what the link points to, or 400/410 with the reason it is
+ * rejected.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!token) {
+    return json({ error: 'token is required' }, { status: 400 });
+  }
+
+  try {
+    const link = verifyPassportToken(token);
+    return json({
+      subject: link.subject,
+      issuedAt: link.issuedAt,
+      expiresAt: link.expiresAt,
+      claim: await passportClaimStatus(link),
+    });
+  } catch (error) {
+    if (error instanceof PassportLinkError) {
+      return json(
+        { error: error.message, reason: error.reason },
+        { status: error.reason === 'EXPIRED' ? 410 : 400 }
+      );
+    }
+    throw error;
+  }
+};
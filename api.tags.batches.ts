@@ -0,0 +1,80 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  importTagBatch,
+  listTagBatches,
+  PhysicalTagError,
+  type TagImportInput,
+} from '../services/physical-tags/physical-tags.server.js';
+import { log } from '../utils/logger.server';
+
+async function findShopBrand(shop: string) {
+  return prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shop },
+    select: { id: true },
+  });
+}
+
+/**
+ * The current shop's physical tag batches.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const brand = await findShopBrand(session.shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+  return json({ batches: await listTagBatches(brand.id) });
+};
+
+/**
+ * Import a batch of NFC or QR tags for the current shop.
+ *
+ * POST JSON `{ name, tags: [{ kind: 'NFC' | 'QR', uid?, serial?,
+ * sdmFileReadKey? }], sdmMetaReadKey?, sdmFileReadKey? }`. The SDM keys are
+ * the 16-byte hex AES keys the tag vendor programmed; NFC tags with a file
+ * read key are verified through SUN on every scan.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const brand = await findShopBrand(shop);
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    name?: string;
+    tags?: TagImportInput[];
+    sdmMetaReadKey?: string;
+    sdmFileReadKey?: string;
+  } | null;
+  if (!input?.name || !Array.isArray(input.tags)) {
+    return json({ error: 'name and tags are required' }, { status: 400 });
+  }
+
+  try {
+    const result = await importTagBatch({
+      brandId: brand.id,
+      name: input.name,
+      tags: input.tags,
+      sdmMetaReadKey: input.sdmMetaReadKey,
+      sdmFileReadKey: input.sdmFileReadKey,
+    });
+    log.info(
+      { shop, batchId: result.batchId, imported: result.imported },
+      '[Tags] Tag batch imported'
+    );
+    return json(result);
+  } catch (error) {
+    if (error instanceof PhysicalTagError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,82 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { authenticate } from '../shopify.server';
+import prisma from '../db.server';
+import {
+  bindTag,
+  PhysicalTagError,
+  unbindTag,
+} from '../services/physical-tags/physical-tags.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Bind the current shop's tags to its digital IDs, e.g. while packing the
+ * fulfillment.
+ *
+ * POST JSON `{ intent: 'bind' | 'unbind', uid? | serial?, ... }`:
+ * - `bind`: `{ digitalIdId }`.
+ * - `unbind`: `{ reason? }`.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const brand = await prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shop },
+    select: { id: true },
+  });
+  if (!brand) {
+    return json({ error: 'No brand configured for this shop' }, { status: 404 });
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    intent?: string;
+    uid?: string;
+    serial?: string;
+    digitalIdId?: string;
+    reason?: string;
+  } | null;
+
+  try {
+    switch (input?.intent) {
+      case 'bind': {
+        if (!input.digitalIdId) {
+          return json({ error: 'digitalIdId is required' }, { status: 400 });
+        }
+        const tag = await bindTag({
+          brandId: brand.id,
+          digitalIdId: input.digitalIdId,
+          uid: input.uid,
+          serial: input.serial,
+          actor: `admin:${shop}`,
+        });
+        log.info(
+          { shop, tagId: tag.id, digitalIdId: input.digitalIdId },
+          '[Tags] Tag bound'
+        );
+        return json({ tag: { id: tag.id, digitalIdId: tag.digitalIdId } });
+      }
+
+      case 'unbind': {
+        const tag = await unbindTag({
+          brandId: brand.id,
+          uid: input.uid,
+          serial: input.serial,
+          actor: `admin:${shop}`,
+          reason: input.reason,
+        });
+        log.info({ shop, tagId: tag.id }, '[Tags] Tag unbound');
+        return json({ tag: { id: tag.id, digitalIdId: null } });
+      }
+
+      default:
+        return json(
+          { error: 'intent must be one of bind, unbind' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof PhysicalTagError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
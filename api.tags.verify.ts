@@ -0,0 +1,36 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import { verifyTagScan } from '../services/physical-tags/physical-tags.server.js';
+
+/**
+ * Verify a tag scan (public). NFC tags point their URL here, so the scan
+ * arrives as query parameters:
+ * - SUN, plain: `?uid=&ctr=&cmac=`;
+ * - SUN, encrypted: `?b=<batch id>&picc_data=&cmac=`;
+ * - static NFC: `?uid=`; QR: `?serial=`.
+ *
+ * Returns the verdict, the bound digital ID and its current holder.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const params = new URL(request.url).searchParams;
+  const value = (name: string) => params.get(name) ?? undefined;
+  if (!params.has('uid') && !params.has('picc_data') && !params.has('serial')) {
+    return json(
+      { error: 'uid, picc_data or serial is required' },
+      { status: 400 }
+    );
+  }
+
+  const result = await verifyTagScan({
+    uid: value('uid'),
+    counter: value('ctr'),
+    piccData: value('picc_data'),
+    batchId: value('b'),
+    cmac: value('cmac'),
+    serial: value('serial'),
+    client: {
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim(),
+      userAgent: request.headers.get('user-agent'),
+    },
+  });
+  return json(result, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,29 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/node';
+import {
+  buildTokenMetadata,
+  matchesETag,
+  metadataETag,
+} from '../services/token-minting/token-metadata.js';
+
+/**
+ * Token metadata (public), the tokenURI of every minted digital ID.
+ * Answers `If-None-Match` with a 304 while the document is unchanged.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const metadata = params.id ? await buildTokenMetadata(params.id) : null;
+  if (!metadata) {
+    return json({ error: 'Token not found' }, { status: 404 });
+  }
+
+  const etag = metadataETag(metadata);
+  // Status changes should reach marketplaces within minutes
+  const headers = {
+    ETag: etag,
+    'Cache-Control': 'public, max-age=300, must-revalidate',
+    'Access-Control-Allow-Origin': '*',
+  };
+  if (matchesETag(request.headers.get('If-None-Match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return json(metadata, { headers });
+};
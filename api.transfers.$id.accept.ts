@@ -0,0 +1,56 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import {
+  acceptOwnershipTransfer,
+  OwnershipTransferError,
+} from '../services/ownership/ownership-transfer.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Accept a digital ID transfer (public; the token from the offer link is
+ * the credential). POST JSON `{ token }`.
+ *
+ * Custodial transfers are sent from the owner's Privy wallet and complete
+ * once mined; one still pending is reported as ACCEPTED with its
+ * `transactionHash`, and `/api/transfers/:id/confirm` with the same token
+ * and no hash (or accepting again) picks it up. For a token in the owner's
+ * own wallet the response carries `userTransfer`, the transaction the owner
+ * has to send; report it to `/api/transfers/:id/confirm`.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const input = (await request.json().catch(() => null)) as {
+    token?: unknown;
+  } | null;
+  if (!params.id || typeof input?.token !== 'string') {
+    return json({ error: 'token is required' }, { status: 400 });
+  }
+
+  try {
+    const { transfer, userTransfer } = await acceptOwnershipTransfer({
+      transferId: params.id,
+      token: input.token,
+    });
+    log.info(
+      { transferId: transfer.id, status: transfer.status },
+      '[Transfer] Transfer accepted'
+    );
+    return json({
+      status: transfer.status,
+      mode: transfer.mode,
+      transactionHash: transfer.transactionHash ?? null,
+      userTransfer: userTransfer ?? null,
+    });
+  } catch (error) {
+    if (error instanceof OwnershipTransferError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(
+      { transferId: params.id, error: message },
+      '[Transfer] Accept failed'
+    );
+    return json(
+      { error: 'Transfer failed, please try again' },
+      { status: 502 }
+    );
+  }
+};
@@ -0,0 +1,44 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import {
+  cancelOwnershipTransfer,
+  OwnershipTransferError,
+} from '../services/ownership/ownership-transfer.server.js';
+import {
+  authenticatePrivyUser,
+  PrivyAuthError,
+} from '../services/user/privy-client.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Withdraw a transfer offer the recipient has not accepted yet (the
+ * signed-in owner; Privy access token as `Authorization: Bearer`). POST.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+  if (!params.id) {
+    return json({ error: 'Transfer id is required' }, { status: 400 });
+  }
+
+  let user3faId: string;
+  try {
+    ({ user3faId } = await authenticatePrivyUser(request));
+  } catch (error) {
+    if (error instanceof PrivyAuthError) {
+      return json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  try {
+    await cancelOwnershipTransfer(params.id, user3faId);
+    log.info({ transferId: params.id }, '[Transfer] Transfer cancelled');
+    return json({ status: 'CANCELLED' });
+  } catch (error) {
+    if (error instanceof OwnershipTransferError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,95 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import {
+  confirmUserSignedTransfer,
+  OwnershipTransferError,
+  resumeCustodialTransfer,
+} from '../services/ownership/ownership-transfer.server.js';
+import {
+  authenticatePrivyUser,
+  PrivyAuthError,
+} from '../services/user/privy-client.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Complete an accepted transfer with the owner's own transaction (public;
+ * the receipt is the proof). POST JSON `{ transactionHash }`.
+ *
+ * Without a `transactionHash`, an accepted custodial transfer whose token
+ * has not moved yet is resumed: its pending transaction is checked, or the
+ * transfer is sent again from the owner's wallet. Only the recipient may do
+ * that: POST JSON `{ token }` with the accept token of the offer, or send
+ * the recipient's Privy access token as `Authorization: Bearer`.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const input = (await request.json().catch(() => null)) as {
+    transactionHash?: unknown;
+    token?: unknown;
+  } | null;
+  const transactionHash = input?.transactionHash;
+  if (!params.id) {
+    return json({ error: 'Transfer id is required' }, { status: 400 });
+  }
+  if (transactionHash === undefined) {
+    let token: string | undefined;
+    let user3faId: string | undefined;
+    if (typeof input?.token === 'string') {
+      token = input.token;
+    } else {
+      try {
+        ({ user3faId } = await authenticatePrivyUser(request));
+      } catch (error) {
+        if (error instanceof PrivyAuthError) {
+          return json({ error: error.message }, { status: 401 });
+        }
+        throw error;
+      }
+    }
+    try {
+      const transfer = await resumeCustodialTransfer({
+        transferId: params.id,
+        token,
+        user3faId,
+      });
+      return json({
+        status: transfer.status,
+        transactionHash: transfer.transactionHash ?? null,
+      });
+    } catch (error) {
+      if (error instanceof OwnershipTransferError) {
+        return json({ error: error.message }, { status: 422 });
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(
+        { transferId: params.id, error: message },
+        '[Transfer] Resume failed'
+      );
+      return json(
+        { error: 'Transfer failed, please try again' },
+        { status: 502 }
+      );
+    }
+  }
+  if (
+    typeof transactionHash !== 'string' ||
+    !/^0x[0-9a-fA-F]{64}$/.test(transactionHash)
+  ) {
+    return json({ error: 'transactionHash is invalid' }, { status: 400 });
+  }
+
+  try {
+    const transfer = await confirmUserSignedTransfer({
+      transferId: params.id,
+      transactionHash,
+    });
+    log.info(
+      { transferId: transfer.id, transactionHash },
+      '[Transfer] User-signed transfer confirmed'
+    );
+    return json({ status: transfer.status, transactionHash });
+  } catch (error) {
+    if (error instanceof OwnershipTransferError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,82 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import {
+  initiateOwnershipTransfer,
+  OwnershipTransferError,
+} from '../services/ownership/ownership-transfer.server.js';
+import {
+  authenticatePrivyUser,
+  PrivyAuthError,
+} from '../services/user/privy-client.server.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Offer a digital ID to someone else (the signed-in owner; Privy access
+ * token as `Authorization: Bearer`). POST JSON
+ * `{ digitalIdId, toPhone | toEmail, salePriceCents?, currency? }`; a sale
+ * price is declared for the brand's resale royalty, a gift has none.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let user3faId: string;
+  try {
+    ({ user3faId } = await authenticatePrivyUser(request));
+  } catch (error) {
+    if (error instanceof PrivyAuthError) {
+      return json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    digitalIdId?: unknown;
+    toPhone?: unknown;
+    toEmail?: unknown;
+    salePriceCents?: unknown;
+    currency?: unknown;
+  } | null;
+  if (typeof input?.digitalIdId !== 'string') {
+    return json({ error: 'digitalIdId is required' }, { status: 400 });
+  }
+  if (
+    input.salePriceCents !== undefined &&
+    typeof input.salePriceCents !== 'number'
+  ) {
+    return json({ error: 'salePriceCents must be a number' }, { status: 400 });
+  }
+
+  try {
+    const transfer = await initiateOwnershipTransfer({
+      digitalIdId: input.digitalIdId,
+      fromUser3faId: user3faId,
+      toPhone: typeof input.toPhone === 'string' ? input.toPhone : undefined,
+      toEmail: typeof input.toEmail === 'string' ? input.toEmail : undefined,
+      salePriceCents:
+        typeof input.salePriceCents === 'number'
+          ? input.salePriceCents
+          : undefined,
+      currency: typeof input.currency === 'string' ? input.currency : undefined,
+    });
+    log.info(
+      { transferId: transfer.id, digitalIdId: input.digitalIdId },
+      '[Transfer] Transfer offered'
+    );
+    return json(
+      {
+        id: transfer.id,
+        status: transfer.status,
+        toChannel: transfer.toChannel,
+        expiresAt: transfer.expiresAt,
+        royaltyCents: transfer.royaltyCents,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof OwnershipTransferError) {
+      return json({ error: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { createThirdwebClient } from 'thirdweb';
+import {
+  MintVoucherError,
+  recordVoucherRedemption,
+  redeemMintVoucher,
+} from '../services/token-minting/mint-vouchers.js';
+import { log } from '../utils/logger.server';
+
+/**
+ * Claim a CLAIMABLE digital ID with its mint voucher. The voucher id is the
+ * credential; it is only shared with the customer.
+ *
+ * POST JSON, either:
+ * - `{ voucherId, recipient }`: we send the redeem transaction to
+ *   `recipient` and pay the gas;
+ * - `{ voucherId, transactionHash }`: the customer's wallet sent it, we
+ *   verify and record it.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const input = (await request.json().catch(() => null)) as {
+    voucherId?: unknown;
+    recipient?: unknown;
+    transactionHash?: unknown;
+  } | null;
+
+  if (
+    typeof input?.voucherId !== 'string' ||
+    !/^0x[0-9a-fA-F]{64}$/.test(input.voucherId)
+  ) {
+    return json({ error: 'voucherId is required' }, { status: 400 });
+  }
+  if (
+    typeof input.recipient !== 'string' &&
+    typeof input.transactionHash !== 'string'
+  ) {
+    return json(
+      { error: 'recipient or transactionHash is required' },
+      { status: 400 }
+    );
+  }
+
+  const clientId = process.env.THIRDWEB_CLIENT_ID;
+  if (!clientId) {
+    return json({ error: 'Claiming is not configured' }, { status: 503 });
+  }
+  const client = createThirdwebClient({ clientId });
+
+  try {
+    const digitalId =
+      typeof input.transactionHash === 'string'
+        ? await recordVoucherRedemption({
+            client,
+            voucherId: input.voucherId,
+            transactionHash: input.transactionHash,
+          })
+        : await redeemMintVoucher({
+            client,
+            voucherId: input.voucherId,
+            recipient: input.recipient as string,
+          });
+    log.info(
+      { digitalIdId: digitalId.id, voucherId: input.voucherId },
+      '[Mint] Voucher redeemed'
+    );
+    return json({
+      digitalIdId: digitalId.id,
+      status: digitalId.status,
+      tokenId: digitalId.tokenId,
+      transactionHash: digitalId.transactionHash,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof MintVoucherError) {
+      return json({ error: message }, { status: 422 });
+    }
+    log.error(
+      { voucherId: input.voucherId, error: message },
+      '[Mint] Redeem failed'
+    );
+    return json({ error: 'Redeem failed, please try again' }, { status: 502 });
+  }
+};
@@ -0,0 +1,56 @@
+import { json, type ActionFunctionArgs } from '@remix-run/node';
+import { DigitalIdService } from '../services/digital-id/index.server.js';
+import {
+  authenticatePrivyUser,
+  PrivyAuthError,
+  syncPrivyWallet,
+  type PrivyAuthenticatedUser,
+} from '../services/user/privy-client.server.js';
+import { log } from '../utils/logger.server';
+
+const digitalIdService = new DigitalIdService();
+
+/**
+ * Mint what waited for the signed-in customer's wallet (Privy access token
+ * as `Authorization: Bearer`). The consumer app POSTs here after sign-in:
+ * the customer's embedded wallet is recorded if it is new, attached to
+ * their digital IDs created without one, and their mints are queued.
+ * Safe to call on every sign-in.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let user: PrivyAuthenticatedUser;
+  try {
+    user = await authenticatePrivyUser(request);
+  } catch (error) {
+    if (error instanceof PrivyAuthError) {
+      return json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  const walletAddress = await syncPrivyWallet(user);
+  if (!walletAddress) {
+    return json(
+      { error: 'The customer has no wallet yet' },
+      { status: 422 }
+    );
+  }
+
+  const result = await digitalIdService.reconcileDeferredMints(
+    user.user3faId,
+    `customer:${walletAddress}`
+  );
+  log.info(
+    {
+      user3faId: user.user3faId,
+      attached: result.attached.length,
+      queued: result.queued.length,
+    },
+    '[Mint] Deferred mints reconciled'
+  );
+  return json(result);
+};
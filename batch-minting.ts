@@ -0,0 +1,139 @@
+import {
+  encode,
+  getContract,
+  prepareContractCall,
+  type ThirdwebClient,
+} from 'thirdweb';
+import { toFunctionSelector } from 'thirdweb/utils';
+import type { ChainConfig } from './chain-registry.js';
+import type { ContractCapabilities } from './contract-capabilities.js';
+import { buildMintParams, type MintAdapter } from './mint-adapters.js';
+import { decodeMintedTokenIds, type ReceiptLog } from './mint-receipt.js';
+
+/**
+ * @file batch-minting.ts
+ * @description One transaction for several mints of the same order.
+ *
+ * Enabled with `MINT_BATCH_ENABLED=true`. The digital IDs of an order that go
+ * to the same contract and recipient are minted together, through the
+ * contract's own `multicall(bytes[])` (thirdweb and OpenZeppelin contracts;
+ * it delegatecalls, so the minter role still applies) or, for ERC-1155
+ * `mint`, through `mintBatch`. Both revert as a whole, so a batch is either
+ * minted completely or not at all; a failed batch falls back to one mint job
+ * per digital ID. Contracts without either function are always minted one
+ * by one.
+ */
+
+export const MINT_BATCH_MAX_SIZE = parseInt(
+  process.env.MINT_BATCH_MAX_SIZE || '25',
+  10
+);
+
+export function isBatchMintingEnabled(): boolean {
+  return process.env.MINT_BATCH_ENABLED === 'true';
+}
+
+const MULTICALL_METHOD =
+  'function multicall(bytes[] data) returns (bytes[] results)';
+const ERC1155_MINT_BATCH_METHOD =
+  'function mintBatch(address to, uint256[] ids, uint256[] amounts, bytes data)';
+
+export interface BatchMintUnit {
+  digitalIdId: string;
+  metadataUrl: string;
+}
+
+/**
+ * The call minting all `units` to `recipient` in one transaction, or null
+ * when the contract cannot batch the adapter's mint.
+ */
+export async function buildBatchMintCall({
+  client,
+  chainConfig,
+  contractAddress,
+  capabilities,
+  adapter,
+  recipient,
+  units,
+}: {
+  client: ThirdwebClient;
+  chainConfig: ChainConfig;
+  contractAddress: string;
+  capabilities: ContractCapabilities;
+  adapter: MintAdapter;
+  recipient: string;
+  units: BatchMintUnit[];
+}): Promise<{ method: string; params: unknown[] } | null> {
+  const has = (method: string) =>
+    capabilities.selectors.includes(
+      toFunctionSelector(method).toLowerCase()
+    );
+
+  if (has(MULTICALL_METHOD)) {
+    const contract = getContract({
+      client,
+      chain: chainConfig.chain,
+      address: contractAddress,
+    });
+    const calls = await Promise.all(
+      units.map(unit =>
+        encode(
+          prepareContractCall({
+            contract,
+            method: adapter.method as any,
+            params: buildMintParams(adapter, {
+              recipient,
+              metadataUrl: unit.metadataUrl,
+              digitalIdId: unit.digitalIdId,
+            }) as any,
+          })
+        )
+      )
+    );
+    return { method: MULTICALL_METHOD, params: [calls] };
+  }
+
+  if (adapter.id === 'erc1155-mint' && has(ERC1155_MINT_BATCH_METHOD)) {
+    const ids = units.map(
+      unit =>
+        buildMintParams(adapter, {
+          recipient,
+          metadataUrl: unit.metadataUrl,
+          digitalIdId: unit.digitalIdId,
+        })[1]
+    );
+    return {
+      method: ERC1155_MINT_BATCH_METHOD,
+      params: [recipient, ids, units.map(() => 1n), '0x'],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Map the tokens minted by a batch transaction back to its digital IDs. The
+ * mints run in `digitalIdIds` order, so the n-th minted token belongs to the
+ * n-th digital ID. When the receipt does not hold exactly one mint per
+ * digital ID the order cannot be trusted and no token id is assigned.
+ */
+export function mapBatchTokenIds(
+  logs: readonly ReceiptLog[],
+  contractAddress: string,
+  recipient: string,
+  digitalIdIds: string[]
+): Map<string, string | undefined> {
+  const minted = decodeMintedTokenIds(logs, contractAddress, recipient);
+  const matches = minted.length === digitalIdIds.length;
+  if (!matches) {
+    console.warn(
+      `[Mint] Batch receipt has ${minted.length} mints for ${digitalIdIds.length} digital IDs; token ids left unset`
+    );
+  }
+  return new Map(
+    digitalIdIds.map((digitalIdId, index) => [
+      digitalIdId,
+      matches ? minted[index].tokenId.toString() : undefined,
+    ])
+  );
+}
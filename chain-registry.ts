@@ -0,0 +1,245 @@
+import {
+  defineChain,
+  type Chain,
+  arbitrum,
+  arbitrumSepolia,
+  base,
+  baseSepolia,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+} from 'thirdweb/chains';
+// @ts-ignore
+import prisma from '../../db.server.js';
+
+/**
+ * @file chain-registry.ts
+ * @description The EVM chains we can mint on, keyed by chain id.
+ *
+ * `UniqueDigitalId.blockchain` stores the chain id as a decimal string
+ * ("8453"). Rows written before the registry hold a name ("base",
+ * "base-sepolia"); `chainConfigForBlockchain` accepts both.
+ *
+ * The RPC of any chain can be overridden with `CHAIN_RPC_<chainId>`, e.g.
+ * `CHAIN_RPC_137=https://polygon.example/rpc`, and its confirmation depth
+ * with `CHAIN_CONFIRMATIONS_<chainId>`.
+ */
+
+export interface ChainConfig {
+  id: number;
+  /** Stable slug, also the legacy `blockchain` value */
+  name: string;
+  displayName: string;
+  explorerUrl: string;
+  /** Blocks on top of the mint block before we consider it final */
+  confirmations: number;
+  testnet: boolean;
+  chain: Chain;
+}
+
+const DEFINITIONS: ChainConfig[] = [
+  {
+    id: 8453,
+    name: 'base',
+    displayName: 'Base',
+    explorerUrl: 'https://basescan.org',
+    confirmations: 5,
+    testnet: false,
+    chain: base,
+  },
+  {
+    id: 84532,
+    name: 'base-sepolia',
+    displayName: 'Base Sepolia',
+    explorerUrl: 'https://sepolia.basescan.org',
+    confirmations: 2,
+    testnet: true,
+    chain: baseSepolia,
+  },
+  {
+    id: 137,
+    name: 'polygon',
+    displayName: 'Polygon',
+    explorerUrl: 'https://polygonscan.com',
+    confirmations: 64,
+    testnet: false,
+    chain: polygon,
+  },
+  {
+    id: 80002,
+    name: 'polygon-amoy',
+    displayName: 'Polygon Amoy',
+    explorerUrl: 'https://amoy.polygonscan.com',
+    confirmations: 5,
+    testnet: true,
+    chain: polygonAmoy,
+  },
+  {
+    id: 10,
+    name: 'optimism',
+    displayName: 'OP Mainnet',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    confirmations: 5,
+    testnet: false,
+    chain: optimism,
+  },
+  {
+    id: 11155420,
+    name: 'optimism-sepolia',
+    displayName: 'OP Sepolia',
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    confirmations: 2,
+    testnet: true,
+    chain: optimismSepolia,
+  },
+  {
+    id: 42161,
+    name: 'arbitrum',
+    displayName: 'Arbitrum One',
+    explorerUrl: 'https://arbiscan.io',
+    confirmations: 5,
+    testnet: false,
+    chain: arbitrum,
+  },
+  {
+    id: 421614,
+    name: 'arbitrum-sepolia',
+    displayName: 'Arbitrum Sepolia',
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    confirmations: 2,
+    testnet: true,
+    chain: arbitrumSepolia,
+  },
+  {
+    // Local anvil / hardhat node for development and tests
+    id: 31337,
+    name: 'devnet',
+    displayName: 'Local devnet',
+    explorerUrl: '',
+    confirmations: 1,
+    testnet: true,
+    chain: defineChain({
+      id: 31337,
+      name: 'Local devnet',
+      rpc: 'http://127.0.0.1:8545',
+      testnet: true,
+    }),
+  },
+];
+
+const REGISTRY = new Map<number, ChainConfig>(
+  DEFINITIONS.map(definition => {
+    const rpc = process.env[`CHAIN_RPC_${definition.id}`]?.trim();
+    const confirmations = process.env[
+      `CHAIN_CONFIRMATIONS_${definition.id}`
+    ]?.trim();
+    return [
+      definition.id,
+      {
+        ...definition,
+        confirmations: confirmations
+          ? Math.max(1, parseInt(confirmations, 10))
+          : definition.confirmations,
+        chain: rpc
+          ? defineChain({ ...definition.chain, rpc })
+          : definition.chain,
+      },
+    ];
+  })
+);
+
+export class UnsupportedChainError extends Error {
+  constructor(public readonly chainId: string | number) {
+    const known = [...REGISTRY.keys()].join(', ');
+    super(`Chain ${chainId} is not supported (known: ${known})`);
+    this.name = 'UnsupportedChainError';
+  }
+}
+
+export function listChains(): ChainConfig[] {
+  return [...REGISTRY.values()];
+}
+
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = REGISTRY.get(chainId);
+  if (!config) {
+    throw new UnsupportedChainError(chainId);
+  }
+  return config;
+}
+
+/**
+ * The chain used when neither the contract nor the brand picks one:
+ * `DEFAULT_CHAIN_ID`, else the legacy `BASE_CHAIN_ID`, else Base Sepolia.
+ */
+export function defaultChainId(): number {
+  const configured = (
+    process.env.DEFAULT_CHAIN_ID || process.env.BASE_CHAIN_ID
+  )?.trim();
+  return configured ? Number(configured) : baseSepolia.id;
+}
+
+/**
+ * Look up the chain of a stored `blockchain` value: a chain id, or a legacy
+ * chain name. Empty values fall back to the default chain.
+ */
+export function chainConfigForBlockchain(
+  blockchain: string | null | undefined
+): ChainConfig {
+  const value = blockchain?.trim();
+  if (!value) {
+    return getChainConfig(defaultChainId());
+  }
+  if (/^\d+$/.test(value)) {
+    return getChainConfig(Number(value));
+  }
+  const byName = listChains().find(config => config.name === value);
+  if (!byName) {
+    throw new UnsupportedChainError(value);
+  }
+  return byName;
+}
+
+/**
+ * Pick the chain to mint a digital ID on: the chain of its product variant's
+ * contract (`CoreProductVariant.defaultChainId`), else the brand's
+ * (`Brands3fa.chainId`), else the default chain.
+ */
+export async function resolveMintChain(digitalId: {
+  brand_3fa_id?: string | null;
+  coreProductVariant?: { defaultChainId?: number | null } | null;
+}): Promise<ChainConfig> {
+  const variantChainId = digitalId.coreProductVariant?.defaultChainId;
+  if (variantChainId) {
+    return getChainConfig(variantChainId);
+  }
+
+  if (digitalId.brand_3fa_id) {
+    // @ts-ignore
+    const brand = await prisma.brands3fa.findUnique({
+      where: { id: digitalId.brand_3fa_id },
+      select: { chainId: true },
+    });
+    if (brand?.chainId) {
+      return getChainConfig(brand.chainId);
+    }
+  }
+
+  return getChainConfig(defaultChainId());
+}
+
+export function explorerTransactionUrl(
+  config: ChainConfig,
+  transactionHash: string
+): string {
+  return `${config.explorerUrl}/tx/${transactionHash}`;
+}
+
+export function explorerTokenUrl(
+  config: ChainConfig,
+  contractAddress: string,
+  tokenId: string
+): string {
+  return `${config.explorerUrl}/nft/${contractAddress}/${tokenId}`;
+}
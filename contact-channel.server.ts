@@ -0,0 +1,98 @@
+import type { PayloadOrder } from '../../types/shopify.payload.types.js';
+import {
+  selectBestPhone,
+  type RejectedPhone,
+} from './phone-normalization.server.js';
+
+/**
+ * @file contact-channel.server.ts
+ * @description Decides how we reach the customer of an order.
+ *
+ * Both the orders/create webhook (to decide whether to queue the order) and
+ * the order worker (to pick the User3fa identity, the Privy wallet login and
+ * the notification channel) go through `resolveContactChannel`, so they
+ * always agree. The channel order comes from `CONTACT_CHANNEL_PRIORITY`
+ * (comma separated, default `SMS,EMAIL`); a channel left out of the list is
+ * never used.
+ *
+ * Phone numbers are normalized to E.164 first (see
+ * `phone-normalization.server.ts`); an order whose numbers are all invalid
+ * is treated as having no phone, and the rejections are returned so the
+ * caller can log why. A number that cannot get SMS (fixed line, VoIP) still
+ * resolves to the SMS channel, for the User3fa and the Privy login, with
+ * `phoneSmsCapable: false`: the caller sends its messages by email instead,
+ * or skips them.
+ */
+
+export type ContactChannel = 'SMS' | 'EMAIL';
+
+export type ContactResolution =
+  | {
+      channel: ContactChannel;
+      /** E.164 */
+      phone?: string;
+      /** False when `phone` cannot receive SMS */
+      phoneSmsCapable?: boolean;
+      email?: string;
+      phoneRejections: RejectedPhone[];
+    }
+  | {
+      channel: null;
+      phone?: undefined;
+      phoneSmsCapable?: undefined;
+      email?: undefined;
+      reason: string;
+      phoneRejections: RejectedPhone[];
+    };
+
+const KNOWN_CHANNELS: ContactChannel[] = ['SMS', 'EMAIL'];
+
+export function contactChannelPriority(): ContactChannel[] {
+  const configured = (process.env.CONTACT_CHANNEL_PRIORITY || 'SMS,EMAIL')
+    .split(',')
+    .map(value => value.trim().toUpperCase())
+    .filter((value): value is ContactChannel =>
+      KNOWN_CHANNELS.includes(value as ContactChannel)
+    );
+  return configured.length > 0 ? configured : KNOWN_CHANNELS;
+}
+
+function pickEmail(order: PayloadOrder): string | undefined {
+  const email = (order.email || order.customer?.email)?.trim();
+  return email && email.includes('@') ? email.toLowerCase() : undefined;
+}
+
+/**
+ * Choose the first channel in priority order that the order has contact
+ * details for. Both details are returned when present so that the User3fa
+ * record gets everything we know.
+ */
+export function resolveContactChannel(
+  order: PayloadOrder,
+  priority: ContactChannel[] = contactChannelPriority()
+): ContactResolution {
+  const { best, rejected: phoneRejections } = selectBestPhone(order);
+  const phone = best?.e164;
+  const phoneSmsCapable = best?.smsCapable;
+  const email = pickEmail(order);
+
+  for (const channel of priority) {
+    if (channel === 'SMS' && phone) {
+      return { channel, phone, phoneSmsCapable, email, phoneRejections };
+    }
+    if (channel === 'EMAIL' && email) {
+      return { channel, phone, phoneSmsCapable, email, phoneRejections };
+    }
+  }
+
+  const rejected = phoneRejections.map(
+    candidate => `${candidate.source} ${candidate.reason}`
+  );
+  return {
+    channel: null,
+    reason:
+      `No customer contact for channels ${priority.join(', ')}` +
+      (rejected.length > 0 ? ` (phone rejected: ${rejected.join(', ')})` : ''),
+    phoneRejections,
+  };
+}
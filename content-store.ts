@@ -0,0 +1,168 @@
+import { createHash } from 'node:crypto';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * @file content-store.ts
+ * @description Content-addressed storage for frozen token metadata.
+ *
+ * A store takes a file and returns its IPFS CID, which the `ipfs://` URI of
+ * the file is built from. Two stores are built in:
+ * - `IPFS_API_URL` set: an IPFS node's (or pinning service's) Kubo RPC API,
+ *   which adds and pins the file; `IPFS_API_AUTHORIZATION` is sent as the
+ *   Authorization header;
+ * - `CONTENT_STORE=local`, or no IPFS API outside production: the local
+ *   stand-in, which writes files named by their CID to `CONTENT_STORE_DIR`
+ *   (default `.content-store`) for development.
+ *
+ * In production without either, `getContentStore` throws, so a mint fails
+ * with a retryable error instead of freezing URIs nobody can resolve.
+ *
+ * Both use CIDv1 over raw leaves, so a file small enough for one block
+ * (256 KiB) gets the same CID from either.
+ */
+
+export interface StoredContent {
+  cid: string;
+  size: number;
+}
+
+export interface ContentStore {
+  readonly name: string;
+  put(content: Buffer, contentType: string): Promise<StoredContent>;
+}
+
+export class ContentStoreError extends Error {
+  constructor(
+    readonly store: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ContentStoreError';
+  }
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base32(bytes: Buffer): string {
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return out;
+}
+
+/** CIDv1 of a single raw block, base32 (`bafkrei...`). */
+export function rawCid(content: Buffer): string {
+  const digest = createHash('sha256').update(content).digest();
+  // version 1, raw (0x55), sha2-256 (0x12) of 32 bytes
+  const header = Buffer.from([0x01, 0x55, 0x12, 0x20]);
+  return `b${base32(Buffer.concat([header, digest]))}`;
+}
+
+export function ipfsUri(cid: string): string {
+  return `ipfs://${cid}`;
+}
+
+/**
+ * Writes files to a local directory under their CID. Nothing is published;
+ * the URIs only resolve where the directory is served.
+ */
+export class LocalContentStore implements ContentStore {
+  readonly name = 'local';
+
+  constructor(readonly directory: string) {}
+
+  async put(content: Buffer): Promise<StoredContent> {
+    const cid = rawCid(content);
+    const file = path.join(this.directory, cid);
+    const existing = await stat(file).catch(() => null);
+    if (!existing) {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(file, content);
+    }
+    return { cid, size: content.length };
+  }
+}
+
+/** Adds and pins files through the Kubo RPC API (`/api/v0/add`). */
+export class IpfsApiContentStore implements ContentStore {
+  readonly name = 'ipfs';
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly authorization?: string
+  ) {}
+
+  async put(content: Buffer, contentType: string): Promise<StoredContent> {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type: contentType }));
+    const url = `${this.apiUrl.replace(/\/$/, '')}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`;
+    const response = await fetch(url, {
+      method: 'POST',
+      body: form,
+      headers: this.authorization
+        ? { Authorization: this.authorization }
+        : undefined,
+      signal: AbortSignal.timeout(30_000),
+    });
+    if (!response.ok) {
+      throw new ContentStoreError(
+        this.name,
+        `IPFS add failed: ${response.status} ${await response.text()}`
+      );
+    }
+    const added = (await response.json()) as { Hash?: string; Size?: string };
+    if (!added.Hash) {
+      throw new ContentStoreError(this.name, 'IPFS add returned no CID');
+    }
+    return { cid: added.Hash, size: Number(added.Size ?? content.length) };
+  }
+}
+
+let store: ContentStore | null = null;
+
+/**
+ * The configured content store, created on first use. Throws a
+ * `ContentStoreError` when none is configured in production.
+ */
+export function getContentStore(): ContentStore {
+  if (!store) {
+    if (
+      process.env.CONTENT_STORE === 'local' ||
+      (!process.env.IPFS_API_URL && process.env.NODE_ENV !== 'production')
+    ) {
+      store = new LocalContentStore(
+        process.env.CONTENT_STORE_DIR || '.content-store'
+      );
+    } else if (process.env.IPFS_API_URL) {
+      store = new IpfsApiContentStore(
+        process.env.IPFS_API_URL,
+        process.env.IPFS_API_AUTHORIZATION
+      );
+    } else {
+      throw new ContentStoreError(
+        'ipfs',
+        'IPFS_API_URL is not set; set CONTENT_STORE=local to use the local stand-in'
+      );
+    }
+  }
+  return store;
+}
+
+/**
+ * Replace the content store (e.g. with a local one).
+ */
+export function setContentStore(contentStore: ContentStore) {
+  store = contentStore;
+}
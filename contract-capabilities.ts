@@ -0,0 +1,226 @@
+import { getContract, readContract, type ThirdwebClient } from 'thirdweb';
+import { resolveImplementation } from 'thirdweb/utils';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import type { ChainConfig } from './chain-registry.js';
+import {
+  BUILT_IN_MINT_ADAPTERS,
+  brandMintAdapters,
+  mintAdapterSelector,
+  type MintAdapter,
+  type TokenStandard,
+} from './mint-adapters.js';
+
+/**
+ * @file contract-capabilities.ts
+ * @description What a mint contract can do, probed once per contract.
+ *
+ * A probe asks the contract which token standards it implements (ERC-165)
+ * and lists the function selectors in its bytecode, following proxies to
+ * their implementation. The result is kept in memory and in
+ * `ContractCapability`, so the chain is only asked again when a probe is
+ * forced (e.g. after a proxy upgrade).
+ */
+
+const INTERFACE_IDS: Record<TokenStandard, `0x${string}`> = {
+  ERC721: '0x80ac58cd',
+  ERC1155: '0xd9b67a26',
+};
+
+export interface ContractCapabilities {
+  chainId: number;
+  contractAddress: string;
+  /** The address whose bytecode was read; differs for proxies */
+  implementationAddress: string;
+  standards: TokenStandard[];
+  /** 4-byte selectors found in the bytecode, lowercase hex */
+  selectors: string[];
+  probedAt: Date;
+}
+
+export class UnsupportedMintContractError extends Error {
+  constructor(
+    public readonly contractAddress: string,
+    reason: string
+  ) {
+    super(`Cannot mint on ${contractAddress}: ${reason}`);
+    this.name = 'UnsupportedMintContractError';
+  }
+}
+
+const cache = new Map<string, ContractCapabilities>();
+
+function cacheKey(chainId: number, contractAddress: string) {
+  return `${chainId}:${contractAddress.toLowerCase()}`;
+}
+
+/**
+ * The values of all PUSH4 instructions in EVM bytecode. Solidity dispatches
+ * on function selectors with PUSH4, so this is a superset of the selectors.
+ */
+function pushedSelectors(bytecode: string): string[] {
+  const code = bytecode.replace(/^0x/, '');
+  const selectors = new Set<string>();
+  for (let i = 0; i < code.length; i += 2) {
+    const opcode = parseInt(code.slice(i, i + 2), 16);
+    if (opcode >= 0x60 && opcode <= 0x7f) {
+      const size = opcode - 0x5f;
+      if (size === 4) {
+        selectors.add(`0x${code.slice(i + 2, i + 10).toLowerCase()}`);
+      }
+      i += size * 2;
+    }
+  }
+  return [...selectors];
+}
+
+async function probe(
+  client: ThirdwebClient,
+  chainConfig: ChainConfig,
+  contractAddress: string
+): Promise<ContractCapabilities> {
+  const contract = getContract({
+    client,
+    chain: chainConfig.chain,
+    address: contractAddress,
+  });
+
+  const implementation = await resolveImplementation(contract);
+  if (!implementation.bytecode || implementation.bytecode === '0x') {
+    throw new UnsupportedMintContractError(
+      contractAddress,
+      `no contract deployed on ${chainConfig.name}`
+    );
+  }
+
+  const standards: TokenStandard[] = [];
+  for (const standard of Object.keys(INTERFACE_IDS) as TokenStandard[]) {
+    const supported = await readContract({
+      contract,
+      method: 'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+      params: [INTERFACE_IDS[standard]],
+    }).catch(() => false); // not ERC-165
+    if (supported) {
+      standards.push(standard);
+    }
+  }
+
+  return {
+    chainId: chainConfig.id,
+    contractAddress: contractAddress.toLowerCase(),
+    implementationAddress: implementation.address.toLowerCase(),
+    standards,
+    selectors: pushedSelectors(implementation.bytecode),
+    probedAt: new Date(),
+  };
+}
+
+/**
+ * The capabilities of a contract, from the cache unless `refresh` is set.
+ * RPC errors are thrown as is, so a failed probe is simply tried again.
+ */
+export async function getContractCapabilities(
+  client: ThirdwebClient,
+  chainConfig: ChainConfig,
+  contractAddress: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<ContractCapabilities> {
+  const key = cacheKey(chainConfig.id, contractAddress);
+  const where = {
+    chainId_contractAddress: {
+      chainId: chainConfig.id,
+      contractAddress: contractAddress.toLowerCase(),
+    },
+  };
+
+  if (!refresh) {
+    const cached = cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    // @ts-ignore
+    const stored = await prisma.contractCapability.findUnique({ where });
+    if (stored) {
+      const capabilities: ContractCapabilities = {
+        chainId: stored.chainId,
+        contractAddress: stored.contractAddress,
+        implementationAddress: stored.implementationAddress,
+        standards: stored.standards,
+        selectors: stored.selectors,
+        probedAt: stored.probedAt,
+      };
+      cache.set(key, capabilities);
+      return capabilities;
+    }
+  }
+
+  const capabilities = await probe(client, chainConfig, contractAddress);
+  const { chainId: _chainId, contractAddress: _address, ...data } =
+    capabilities;
+  // @ts-ignore
+  await prisma.contractCapability.upsert({
+    where,
+    update: data,
+    create: capabilities,
+  });
+  cache.set(key, capabilities);
+  console.log(
+    `[Mint] Probed ${contractAddress} on ${chainConfig.name}: ${
+      capabilities.standards.join(', ') || 'no ERC-165 standard'
+    }`
+  );
+  return capabilities;
+}
+
+/**
+ * Pick the mint adapter for a contract:
+ *  1. a brand signature registered for this contract, used as is;
+ *  2. the first brand-wide signature, then the first built-in adapter, whose
+ *     selector is in the bytecode and whose standard the contract reports.
+ *
+ * Throws `UnsupportedMintContractError` when nothing fits.
+ */
+export async function resolveMintAdapter({
+  client,
+  chainConfig,
+  contractAddress,
+  brandId,
+  refresh,
+}: {
+  client: ThirdwebClient;
+  chainConfig: ChainConfig;
+  contractAddress: string;
+  brandId?: string | null;
+  refresh?: boolean;
+}): Promise<{ adapter: MintAdapter; capabilities: ContractCapabilities }> {
+  const capabilities = await getContractCapabilities(
+    client,
+    chainConfig,
+    contractAddress,
+    { refresh }
+  );
+  const brand = brandId
+    ? await brandMintAdapters(brandId, contractAddress)
+    : { forContract: [], brandWide: [] };
+
+  if (brand.forContract.length > 0) {
+    return { adapter: brand.forContract[0], capabilities };
+  }
+
+  const adapter = [...brand.brandWide, ...BUILT_IN_MINT_ADAPTERS].find(
+    candidate =>
+      capabilities.selectors.includes(mintAdapterSelector(candidate)) &&
+      (!candidate.standard ||
+        capabilities.standards.length === 0 ||
+        capabilities.standards.includes(candidate.standard))
+  );
+  if (!adapter) {
+    throw new UnsupportedMintContractError(
+      contractAddress,
+      `no known mint function (standards: ${
+        capabilities.standards.join(', ') || 'unknown'
+      }); register the contract's mint signature for the brand`
+    );
+  }
+  return { adapter, capabilities };
+}
@@ -0,0 +1,220 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+
+/**
+ * @file digital-id-status.server.ts
+ * @description The UniqueDigitalId lifecycle and its audit trail.
+ *
+ * Every status change goes through `transitionDigitalIdStatus`, which checks
+ * it against `DIGITAL_ID_TRANSITIONS` and appends a `DigitalIdEvent` in the
+ * same transaction. Other provenance facts (a burn, a transfer) are appended
+ * with `recordDigitalIdEvent`. Events are never updated or deleted.
+ */
+
+export const DIGITAL_ID_STATUSES = [
+  'CREATED',
+  'MINT_PENDING',
+  'MINT_SUBMITTED',
+  'MINT_CONFIRMED',
+  'MINT_FAILED',
+  /** Has a signed mint voucher the customer can redeem */
+  'CLAIMABLE',
+  /** Minted by redeeming its voucher */
+  'CLAIMED',
+  /** Minted before confirmation tracking; treated like MINT_CONFIRMED */
+  'MINTED',
+  'REVOKED',
+  'RETURNED',
+] as const;
+
+export type DigitalIdStatus = (typeof DIGITAL_ID_STATUSES)[number];
+
+/**
+ * Allowed moves per status. MINT_PENDING → MINT_PENDING is a requeue of a
+ * stuck mint. MINT_SUBMITTED (mined, waiting for confirmations) goes back to
+ * MINT_PENDING when its transaction is reorged out or reverts. A unit that
+ * cannot be minted to a wallet becomes CLAIMABLE (see `mint-vouchers.ts`);
+ * CLAIMABLE → MINT_PENDING voids the voucher in favour of a regular mint.
+ * REVOKED and RETURNED are final.
+ */
+export const DIGITAL_ID_TRANSITIONS: Record<
+  DigitalIdStatus,
+  readonly DigitalIdStatus[]
+> = {
+  CREATED: ['MINT_PENDING', 'CLAIMABLE', 'REVOKED', 'RETURNED'],
+  MINT_PENDING: [
+    'MINT_PENDING',
+    'MINT_SUBMITTED',
+    'MINT_FAILED',
+    'CLAIMABLE',
+    'REVOKED',
+    'RETURNED',
+  ],
+  MINT_SUBMITTED: ['MINT_CONFIRMED', 'MINT_PENDING', 'REVOKED', 'RETURNED'],
+  MINT_CONFIRMED: ['REVOKED', 'RETURNED'],
+  MINT_FAILED: ['MINT_PENDING', 'CLAIMABLE', 'REVOKED', 'RETURNED'],
+  CLAIMABLE: ['CLAIMED', 'MINT_PENDING', 'REVOKED', 'RETURNED'],
+  CLAIMED: ['REVOKED', 'RETURNED'],
+  MINTED: ['REVOKED', 'RETURNED'],
+  REVOKED: [],
+  RETURNED: [],
+};
+
+/** Statuses in which a digital ID no longer represents ownership. */
+export const INACTIVE_DIGITAL_ID_STATUSES: DigitalIdStatus[] = [
+  'REVOKED',
+  'RETURNED',
+];
+
+/** Statuses in which the holder's wallet has the confirmed token. */
+export const OWNED_DIGITAL_ID_STATUSES: DigitalIdStatus[] = [
+  'MINT_CONFIRMED',
+  'MINTED',
+  'CLAIMED',
+];
+
+export type DigitalIdEventType =
+  | 'STATUS_CHANGED'
+  | 'TOKEN_BURNED'
+  | 'TOKEN_RETURNED_TO_BRAND'
+  | 'TAG_BOUND'
+  | 'TAG_UNBOUND'
+  | 'OWNERSHIP_TRANSFERRED';
+
+/**
+ * Who caused an event: `system:<component>` for background work,
+ * `admin:<shop>` for merchant actions from the Shopify admin,
+ * `customer:<wallet address>` for actions of the token holder.
+ */
+export type DigitalIdActor =
+  | `system:${string}`
+  | `admin:${string}`
+  | `customer:${string}`;
+
+export class DigitalIdTransitionError extends Error {
+  constructor(
+    public readonly digitalIdId: string,
+    public readonly from: string | null,
+    public readonly to: DigitalIdStatus
+  ) {
+    super(
+      from === null
+        ? `UniqueDigitalId not found: ${digitalIdId}`
+        : `Illegal status transition ${from} -> ${to} for digital ID ${digitalIdId}`
+    );
+    this.name = 'DigitalIdTransitionError';
+  }
+}
+
+export function isDigitalIdStatus(value: unknown): value is DigitalIdStatus {
+  return DIGITAL_ID_STATUSES.includes(value as DigitalIdStatus);
+}
+
+export function canTransition(from: string, to: DigitalIdStatus): boolean {
+  return (
+    isDigitalIdStatus(from) && DIGITAL_ID_TRANSITIONS[from].includes(to)
+  );
+}
+
+/**
+ * Move a digital ID to `to`, writing `data` alongside the status, and append
+ * the matching STATUS_CHANGED event. The update only applies if the status is
+ * still the one that was checked, so concurrent writers cannot both win.
+ * Throws `DigitalIdTransitionError` for a missing record or an illegal move.
+ */
+export async function transitionDigitalIdStatus({
+  digitalIdId,
+  to,
+  actor,
+  reason,
+  transactionHash,
+  data = {},
+}: {
+  digitalIdId: string;
+  to: DigitalIdStatus;
+  actor: DigitalIdActor;
+  reason?: string;
+  transactionHash?: string | null;
+  data?: Record<string, unknown>;
+}) {
+  // @ts-ignore
+  return prisma.$transaction(async (tx: any) => {
+    const current = await tx.uniqueDigitalId.findUnique({
+      where: { id: digitalIdId },
+      select: { status: true },
+    });
+    if (!current) {
+      throw new DigitalIdTransitionError(digitalIdId, null, to);
+    }
+    if (!canTransition(current.status, to)) {
+      throw new DigitalIdTransitionError(digitalIdId, current.status, to);
+    }
+
+    const { count } = await tx.uniqueDigitalId.updateMany({
+      where: { id: digitalIdId, status: current.status },
+      data: { ...data, status: to },
+    });
+    if (count === 0) {
+      // Someone else changed the status between our read and write
+      throw new DigitalIdTransitionError(digitalIdId, current.status, to);
+    }
+
+    await tx.digitalIdEvent.create({
+      data: {
+        digitalIdId,
+        type: 'STATUS_CHANGED',
+        fromStatus: current.status,
+        toStatus: to,
+        actor,
+        reason: reason ?? null,
+        transactionHash: transactionHash ?? null,
+      },
+    });
+
+    return tx.uniqueDigitalId.findUnique({ where: { id: digitalIdId } });
+  });
+}
+
+/**
+ * Append an event that is not a status change, or the CREATED event of a new
+ * digital ID (`toStatus` without `fromStatus`).
+ */
+export async function recordDigitalIdEvent({
+  digitalIdId,
+  type,
+  actor,
+  reason,
+  transactionHash,
+  toStatus,
+}: {
+  digitalIdId: string;
+  type: DigitalIdEventType;
+  actor: DigitalIdActor;
+  reason?: string;
+  transactionHash?: string | null;
+  toStatus?: DigitalIdStatus;
+}) {
+  // @ts-ignore
+  return prisma.digitalIdEvent.create({
+    data: {
+      digitalIdId,
+      type,
+      fromStatus: null,
+      toStatus: toStatus ?? null,
+      actor,
+      reason: reason ?? null,
+      transactionHash: transactionHash ?? null,
+    },
+  });
+}
+
+/**
+ * The provenance timeline of a digital ID, oldest first.
+ */
+export async function getDigitalIdHistory(digitalIdId: string) {
+  // @ts-ignore
+  return prisma.digitalIdEvent.findMany({
+    where: { digitalIdId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
@@ -1,5 +1,30 @@
 // @ts-ignore
 import prisma from '../../db.server.js';
+import {
+  enqueueMint,
+  enqueueMintBatch,
+} from '../../queues/mintQueue.server.js';
+import {
+  getDigitalIdHistory,
+  recordDigitalIdEvent,
+  transitionDigitalIdStatus,
+  type DigitalIdActor,
+  type DigitalIdStatus,
+} from './digital-id-status.server.js';
+import { chainConfigForBlockchain } from '../token-minting/chain-registry.js';
+import { markMintSubmitted } from '../token-minting/mint-confirmation.js';
+import { hasMinterSigner } from '../token-minting/minter-signers.js';
+import {
+  MINT_BATCH_MAX_SIZE,
+  isBatchMintingEnabled,
+} from '../token-minting/batch-minting.js';
+import { reconcileDeferredMints } from './wallet-reconciliation.server.js';
+
+/** A MINT_PENDING digital ID untouched for this long is considered stuck. */
+const MINT_STUCK_AFTER_MS = parseInt(
+  process.env.MINT_STUCK_AFTER_MS || String(15 * 60 * 1000),
+  10
+);
 
 /**
  * Service for managing digital ID creation, minting, and ownership.
@@ -82,8 +107,14 @@ export class DigitalIdService {
     console.log(
       `Created Digital ID ${digitalId.id} for product variant ${coreProductVariantId}`
     );
+    await recordDigitalIdEvent({
+      digitalIdId: digitalId.id,
+      type: 'STATUS_CHANGED',
+      toStatus: 'CREATED',
+      actor: 'system:order-processor',
+      reason: `Order ${shopifyOrderId}`,
+    });
 
-    // Queue token minting (to be implemented)
     await this.queueTokenMinting(digitalId.id);
 
     return digitalId;
@@ -124,6 +155,9 @@ export class DigitalIdService {
       failed: 0,
       digitalIds: [] as any[],
     };
+    // With batch minting the order's mints are queued together at the end
+    const batchMinting = isBatchMintingEnabled();
+    const toMint: Array<{ id: string; contractAddress: string | null }> = [];
 
     for (const lineItem of lineItems) {
       try {
@@ -168,6 +202,27 @@ export class DigitalIdService {
               ? `${shopifyLineItemGid}:${i + 1}`
               : shopifyLineItemGid;
 
+          // A retried order job may already have created this unit
+          // @ts-ignore
+          const existingDigitalId = await prisma.uniqueDigitalId.findUnique({
+            where: { shopifyLineItemId: uniqueLineItemId },
+          });
+          if (existingDigitalId) {
+            console.log(
+              `Digital ID already exists for line item ${uniqueLineItemId}, ID: ${existingDigitalId.id}`
+            );
+            if (existingDigitalId.status === 'CREATED') {
+              if (batchMinting) {
+                toMint.push(existingDigitalId);
+              } else {
+                await this.queueTokenMinting(existingDigitalId.id);
+              }
+            }
+            results.created++;
+            results.digitalIds.push(existingDigitalId);
+            continue;
+          }
+
           // @ts-ignore - Full ignore to bypass type checking issues
           const digitalId = await prisma.uniqueDigitalId.create({
             data: {
@@ -188,8 +243,18 @@ export class DigitalIdService {
             },
           });
 
-          // Queue token minting (to be implemented)
-          await this.queueTokenMinting(digitalId.id);
+          await recordDigitalIdEvent({
+            digitalIdId: digitalId.id,
+            type: 'STATUS_CHANGED',
+            toStatus: 'CREATED',
+            actor: 'system:order-processor',
+            reason: `Order ${shopifyOrderId}`,
+          });
+          if (batchMinting) {
+            toMint.push(digitalId);
+          } else {
+            await this.queueTokenMinting(digitalId.id);
+          }
 
           console.log(
             `Created Digital ID ${digitalId.id} for variant ${coreVariant.id}`
@@ -205,60 +270,187 @@ export class DigitalIdService {
       }
     }
 
+    if (toMint.length > 0) {
+      await this.queueTokenMintingBatch(toMint);
+    }
+
     return results;
   }
 
   /**
-   * Queue the minting of a token for a digital ID
-   * This integrates with the actual minting service
+   * Queue the minting of a token for a digital ID.
+   * The mint itself runs in the mint worker (see `workers/mint.worker.ts`).
    */
   private async queueTokenMinting(digitalIdId: string) {
-    console.log(`[Mint] Preparing token mint for Digital ID ${digitalIdId}`);
+    console.log(`[Mint] Queueing token mint for Digital ID ${digitalIdId}`);
 
     // Set pending status first
-    // @ts-ignore
-    await prisma.uniqueDigitalId.update({
-      where: { id: digitalIdId },
-      data: { status: 'MINT_PENDING' },
+    await transitionDigitalIdStatus({
+      digitalIdId,
+      to: 'MINT_PENDING',
+      actor: 'system:order-processor',
+      reason: 'Queued for minting',
     });
 
+    // Check minimal env presence before queueing an on-chain mint
+    if (
+      !hasMinterSigner() ||
+      !process.env.THIRDWEB_CLIENT_ID ||
+      !process.env.APP_BASE_URL
+    ) {
+      console.warn('[Mint] Missing env for on-chain mint. Skipping actual mint.');
+      return;
+    }
+
     try {
-      // Check minimal env presence before attempting mint and importing thirdweb
-      if (!process.env.BASE_MINTER_PRIVATE_KEY || !process.env.THIRDWEB_CLIENT_ID || !process.env.APP_BASE_URL) {
-        console.warn('[Mint] Missing env for on-chain mint. Skipping actual mint.');
-        return;
+      await enqueueMint(digitalIdId);
+    } catch (err) {
+      // Stays MINT_PENDING and is picked up by requeueMints once stuck
+      console.error('[Mint] Error queueing mint:', err);
+    }
+  }
+
+  /**
+   * Queue the mints of an order's digital IDs as batch jobs, one per
+   * contract and at most `MINT_BATCH_MAX_SIZE` digital IDs each (see
+   * `batch-minting.ts`). All digital IDs of an order share the recipient.
+   */
+  private async queueTokenMintingBatch(
+    digitalIds: Array<{ id: string; contractAddress: string | null }>
+  ) {
+    const byContract = new Map<string, string[]>();
+    for (const digitalId of digitalIds) {
+      try {
+        await transitionDigitalIdStatus({
+          digitalIdId: digitalId.id,
+          to: 'MINT_PENDING',
+          actor: 'system:order-processor',
+          reason: 'Queued for batch minting',
+        });
+      } catch (err) {
+        console.error(`[Mint] Could not queue ${digitalId.id}:`, err);
+        continue;
       }
+      const key = (digitalId.contractAddress ?? '').toLowerCase();
+      byContract.set(key, [...(byContract.get(key) ?? []), digitalId.id]);
+    }
 
-      // Lazy import to avoid loading thirdweb on environments/tests that don't need it
-      const { mintDigitalIdOnBase } = await import(
-        '../token-minting/token-minting.service.js'
-      );
-      const result = await mintDigitalIdOnBase(digitalIdId);
-      
-      if (!result.success) {
-        console.error('[Mint] Mint failed:', result.error);
-      } else {
-        console.log('[Mint] Mint succeeded. Tx:', result.transactionHash);
+    if (
+      !hasMinterSigner() ||
+      !process.env.THIRDWEB_CLIENT_ID ||
+      !process.env.APP_BASE_URL
+    ) {
+      console.warn('[Mint] Missing env for on-chain mint. Skipping actual mint.');
+      return;
+    }
+
+    for (const ids of byContract.values()) {
+      for (let i = 0; i < ids.length; i += MINT_BATCH_MAX_SIZE) {
+        const chunk = ids.slice(i, i + MINT_BATCH_MAX_SIZE);
+        try {
+          if (chunk.length === 1) {
+            await enqueueMint(chunk[0]);
+          } else {
+            console.log(`[Mint] Queueing batch mint of ${chunk.length} digital IDs`);
+            await enqueueMintBatch(chunk);
+          }
+        } catch (err) {
+          // Stays MINT_PENDING and is picked up by requeueMints once stuck
+          console.error('[Mint] Error queueing batch mint:', err);
+        }
       }
-    } catch (err) {
-      console.error('[Mint] Error during minting step:', err);
-      // Leave status as MINT_PENDING or set to MINT_FAILED depending on policy
     }
   }
 
   /**
-   * Update the status of a digital ID
+   * Re-enqueue the mints of a shop's MINT_FAILED digital IDs and of its
+   * MINT_PENDING ones that have not moved for `stuckAfterMs`. Pass
+   * `digitalIdIds` to limit the requeue to those units. A unit that cannot
+   * be requeued is reported in `skipped` and the others still are.
    */
-  async updateDigitalIdStatus(digitalIdId: string, status: string) {
+  async requeueMints({
+    shopId,
+    digitalIdIds,
+    stuckAfterMs = MINT_STUCK_AFTER_MS,
+    actor = `admin:${shopId}`,
+  }: {
+    shopId: string;
+    digitalIdIds?: string[];
+    stuckAfterMs?: number;
+    actor?: DigitalIdActor;
+  }) {
+    const stuckBefore = new Date(Date.now() - stuckAfterMs);
     // @ts-ignore
-    return prisma.uniqueDigitalId.update({
-      where: { id: digitalIdId },
-      data: { status },
+    const candidates = await prisma.uniqueDigitalId.findMany({
+      where: {
+        myshopify_domain: shopId,
+        ...(digitalIdIds ? { id: { in: digitalIdIds } } : {}),
+        OR: [
+          { status: 'MINT_FAILED' },
+          { status: 'MINT_PENDING', updatedAt: { lt: stuckBefore } },
+        ],
+      },
+      select: { id: true, status: true },
+    });
+
+    const results = {
+      requeued: [] as string[],
+      alreadyQueued: [] as string[],
+      skipped: [] as Array<{ id: string; reason: string }>,
+    };
+    for (const candidate of candidates) {
+      try {
+        await transitionDigitalIdStatus({
+          digitalIdId: candidate.id,
+          to: 'MINT_PENDING',
+          actor,
+          reason:
+            candidate.status === 'MINT_FAILED'
+              ? 'Requeued failed mint'
+              : 'Requeued stuck mint',
+          data: { mintAttempts: 0, mintLastError: null },
+        });
+        if (await enqueueMint(candidate.id)) {
+          results.requeued.push(candidate.id);
+        } else {
+          results.alreadyQueued.push(candidate.id);
+        }
+      } catch (err) {
+        // E.g. it moved on (confirmed, revoked) since it was selected
+        console.error(`[Mint] Could not requeue ${candidate.id}:`, err);
+        results.skipped.push({
+          id: candidate.id,
+          reason: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    console.log(
+      `[Mint] Requeued ${results.requeued.length} mints for ${shopId} (${results.alreadyQueued.length} already queued, ${results.skipped.length} skipped)`
+    );
+    return results;
+  }
+
+  /**
+   * Update the status of a digital ID.
+   * Throws `DigitalIdTransitionError` when the move is not allowed.
+   */
+  async updateDigitalIdStatus(
+    digitalIdId: string,
+    status: DigitalIdStatus,
+    { actor, reason }: { actor: DigitalIdActor; reason?: string }
+  ) {
+    return transitionDigitalIdStatus({
+      digitalIdId,
+      to: status,
+      actor,
+      reason,
     });
   }
 
   /**
-   * Mark a digital ID as minted with blockchain details
+   * Record the mined mint transaction of a digital ID. It stays
+   * MINT_SUBMITTED until the confirmation job confirms it.
    */
   async markAsMinted(
     digitalIdId: string,
@@ -269,22 +461,35 @@ export class DigitalIdService {
     }: {
       tokenId: string;
       transactionHash: string;
-      blockchain: string;
-    }
+      blockchain: string; // Chain id, see chain-registry.ts
+    },
+    actor: DigitalIdActor = 'system:mint-worker'
   ) {
-    // @ts-ignore
-    return prisma.uniqueDigitalId.update({
-      where: { id: digitalIdId },
-      data: {
-        status: 'MINTED',
-        tokenId,
-        transactionHash,
-        blockchain,
-        mintedAt: new Date(),
-      },
+    return markMintSubmitted({
+      digitalIdId,
+      chainConfig: chainConfigForBlockchain(blockchain),
+      transactionHash,
+      tokenId,
+      actor,
     });
   }
 
+  /**
+   * Mint the digital IDs a customer got before they had a wallet. Call this
+   * once the User3fa has a Privy wallet, e.g. after signing in through the
+   * consumer app (see `wallet-reconciliation.server.ts`).
+   */
+  async reconcileDeferredMints(user3faId: string, actor?: DigitalIdActor) {
+    return reconcileDeferredMints(user3faId, actor);
+  }
+
+  /**
+   * Get the provenance timeline of a digital ID, oldest first
+   */
+  async getDigitalIdHistory(digitalIdId: string) {
+    return getDigitalIdHistory(digitalIdId);
+  }
+
   /**
    * Get all digital IDs for a specific order
    */
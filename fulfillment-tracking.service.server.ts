@@ -0,0 +1,359 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { normalizePhone } from '../contact/phone-normalization.server.js';
+import { notificationService } from '../notifications/notification.service.server.js';
+import {
+  buildPassportUrl,
+  renderNotification,
+} from '../notifications/notification-templates.server.js';
+
+/**
+ * Shape of the `fulfillments/create` and `fulfillments/update` webhook
+ * payload fields we rely on.
+ */
+export interface PayloadFulfillment {
+  id: number;
+  order_id: number;
+  status?: string | null; // pending, open, success, cancelled, error, failure
+  shipment_status?: string | null; // label_printed ... in_transit, out_for_delivery, delivered, failure
+  tracking_company?: string | null;
+  tracking_number?: string | null;
+  tracking_numbers?: string[];
+  tracking_url?: string | null;
+  tracking_urls?: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Coarse shipping state shown on the consumer passport. Each fulfillment has
+ * its own phase; the order's phase is derived from all of them.
+ */
+export type ShipmentPhase =
+  | 'PENDING'
+  | 'SHIPPED'
+  | 'DELIVERED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+export function shipmentPhaseFor(fulfillment: PayloadFulfillment): ShipmentPhase {
+  if (fulfillment.status === 'cancelled') return 'CANCELLED';
+  if (fulfillment.shipment_status === 'delivered') return 'DELIVERED';
+  if (fulfillment.shipment_status === 'failure') return 'FAILED';
+  if (
+    fulfillment.status === 'success' ||
+    fulfillment.shipment_status === 'confirmed' ||
+    fulfillment.shipment_status === 'in_transit' ||
+    fulfillment.shipment_status === 'out_for_delivery'
+  ) {
+    return 'SHIPPED';
+  }
+  return 'PENDING';
+}
+
+/**
+ * Phase of an order from the phases of its fulfillments. Cancelled
+ * fulfillments are ignored unless every one is cancelled; the order is
+ * DELIVERED only once every remaining fulfillment is, and a failed delivery
+ * of any of them shows as FAILED.
+ */
+export function orderShipmentPhase(phases: ShipmentPhase[]): ShipmentPhase {
+  const active = phases.filter(phase => phase !== 'CANCELLED');
+  if (active.length === 0) {
+    return phases.length > 0 ? 'CANCELLED' : 'PENDING';
+  }
+  if (active.every(phase => phase === 'DELIVERED')) return 'DELIVERED';
+  if (active.includes('FAILED')) return 'FAILED';
+  if (active.some(phase => phase === 'SHIPPED' || phase === 'DELIVERED')) {
+    return 'SHIPPED';
+  }
+  return 'PENDING';
+}
+
+/**
+ * Service for mirroring Shopify fulfillments onto our order records and
+ * notifying customers when their order ships or arrives.
+ */
+export class FulfillmentTrackingService {
+  /**
+   * Mirror a fulfillment, recompute the order's phase from all of its
+   * fulfillments and send the optional follow-up SMS: "shipped" once per
+   * fulfillment that ships, "delivered" when the whole order arrives.
+   */
+  async handleFulfillmentEvent({
+    shopId,
+    fulfillment,
+  }: {
+    shopId: string;
+    fulfillment: PayloadFulfillment;
+  }) {
+    const shopifyOrderId = String(fulfillment.order_id);
+    const fulfillmentKey = {
+      shopId_shopifyId: {
+        shopId,
+        shopifyId: BigInt(fulfillment.id),
+      },
+    };
+    const phase = shipmentPhaseFor(fulfillment);
+    const trackingNumbers = fulfillment.tracking_numbers?.length
+      ? fulfillment.tracking_numbers
+      : fulfillment.tracking_number
+        ? [fulfillment.tracking_number]
+        : [];
+    const trackingUrls = fulfillment.tracking_urls?.length
+      ? fulfillment.tracking_urls
+      : fulfillment.tracking_url
+        ? [fulfillment.tracking_url]
+        : [];
+
+    console.log(
+      `[Fulfillment] ${fulfillment.id} for order ${shopifyOrderId} on ${shopId}: ${fulfillment.status}/${fulfillment.shipment_status} -> ${phase}`
+    );
+
+    // A late-arriving update must not move a fulfillment backwards
+    // @ts-ignore
+    const mirrored = await prisma.shopifyFulfillment.findUnique({
+      where: fulfillmentKey,
+      select: { updatedAt: true },
+    });
+    if (
+      mirrored &&
+      fulfillment.updated_at &&
+      new Date(fulfillment.updated_at) < mirrored.updatedAt
+    ) {
+      console.log(
+        `[Fulfillment] Ignoring stale update of ${fulfillment.id} from ${fulfillment.updated_at}`
+      );
+      return { phase, notified: false };
+    }
+
+    // @ts-ignore
+    const shopifyOrder = await prisma.shopifyOrder.findUnique({
+      where: {
+        shopId_shopifyId: {
+          shopId,
+          shopifyId: BigInt(fulfillment.order_id),
+        },
+      },
+      select: { id: true, customer_locale: true },
+    });
+
+    const fulfillmentData = {
+      orderId: shopifyOrder?.id ?? null,
+      orderShopifyId: BigInt(fulfillment.order_id),
+      status: fulfillment.status ?? null,
+      shipmentStatus: fulfillment.shipment_status ?? null,
+      trackingCompany: fulfillment.tracking_company ?? null,
+      trackingNumbers,
+      trackingUrls,
+      updatedAt: fulfillment.updated_at
+        ? new Date(fulfillment.updated_at)
+        : new Date(),
+    };
+    // @ts-ignore
+    await prisma.shopifyFulfillment.upsert({
+      where: fulfillmentKey,
+      update: fulfillmentData,
+      create: {
+        shopId,
+        shopifyId: BigInt(fulfillment.id),
+        createdAt: fulfillment.created_at
+          ? new Date(fulfillment.created_at)
+          : new Date(),
+        ...fulfillmentData,
+      },
+    });
+
+    // @ts-ignore
+    const orders3fa = await prisma.orders3fa.findFirst({
+      where: { shopifyOrderId },
+      select: {
+        id: true,
+        shipmentStatus: true,
+        shippedAt: true,
+        user3fa: { select: { phone: true } },
+      },
+    });
+    if (!orders3fa) {
+      console.warn(
+        `[Fulfillment] No Orders3fa for Shopify order ${shopifyOrderId}, mirrored fulfillment only`
+      );
+      return { phase, notified: false };
+    }
+
+    // @ts-ignore
+    const fulfillments = await prisma.shopifyFulfillment.findMany({
+      where: { shopId, orderShopifyId: BigInt(fulfillment.order_id) },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        status: true,
+        shipmentStatus: true,
+        trackingCompany: true,
+        trackingNumbers: true,
+        trackingUrls: true,
+      },
+    });
+    const orderPhase = orderShipmentPhase(
+      fulfillments.map((mirror: any) =>
+        shipmentPhaseFor({
+          id: fulfillment.id,
+          order_id: fulfillment.order_id,
+          status: mirror.status,
+          shipment_status: mirror.shipmentStatus,
+        })
+      )
+    );
+
+    // Each fulfillment keeps its tracking on its mirror; the order shows the
+    // latest one that has tracking, so a later shipment without tracking or
+    // an update to an earlier one does not replace it
+    const latestTracked = fulfillments.find(
+      (mirror: any) =>
+        mirror.status !== 'cancelled' && mirror.trackingNumbers.length > 0
+    );
+    if (latestTracked) {
+      // @ts-ignore
+      await prisma.orders3fa.update({
+        where: { id: orders3fa.id },
+        data: {
+          trackingNumber: latestTracked.trackingNumbers[0],
+          trackingCompany: latestTracked.trackingCompany ?? null,
+          trackingUrl: latestTracked.trackingUrls[0] ?? null,
+        },
+      });
+    }
+
+    // Conditional on the stored phase so that of two concurrent events only
+    // one sees the order become DELIVERED
+    // @ts-ignore
+    const { count: phaseChanged } = await prisma.orders3fa.updateMany({
+      where: {
+        id: orders3fa.id,
+        OR: [{ shipmentStatus: null }, { shipmentStatus: { not: orderPhase } }],
+      },
+      data: {
+        shipmentStatus: orderPhase,
+        ...(!orders3fa.shippedAt &&
+        (orderPhase === 'SHIPPED' || orderPhase === 'DELIVERED')
+          ? { shippedAt: new Date() }
+          : {}),
+        deliveredAt: orderPhase === 'DELIVERED' ? new Date() : null,
+      },
+    });
+
+    const notificationBase = {
+      shopId,
+      orders3fa,
+      customerLocale: shopifyOrder?.customer_locale,
+    };
+    if (orderPhase === 'DELIVERED') {
+      const notified =
+        phaseChanged > 0 &&
+        (await this.sendShippingNotification({
+          ...notificationBase,
+          phase: 'DELIVERED',
+          trackingUrl: trackingUrls[0] ?? latestTracked?.trackingUrls[0],
+        }));
+      return { phase: orderPhase, notified };
+    }
+    if (phase !== 'SHIPPED') {
+      return { phase: orderPhase, notified: false };
+    }
+
+    // Claim the "shipped" SMS of this fulfillment on its mirror, so each
+    // shipment of a split order is announced once
+    // @ts-ignore
+    const { count: claimed } = await prisma.shopifyFulfillment.updateMany({
+      where: {
+        shopId,
+        shopifyId: BigInt(fulfillment.id),
+        shippedNotifiedAt: null,
+      },
+      data: { shippedNotifiedAt: new Date() },
+    });
+    if (claimed === 0) {
+      return { phase: orderPhase, notified: false };
+    }
+    const notified = await this.sendShippingNotification({
+      ...notificationBase,
+      phase: 'SHIPPED',
+      trackingUrl: trackingUrls[0] ?? latestTracked?.trackingUrls[0],
+    });
+    return { phase: orderPhase, notified };
+  }
+
+  /**
+   * Send a shipped/delivered SMS, if the brand opted in. Callers make sure
+   * each shipment and each delivery of the order is announced only once.
+   */
+  private async sendShippingNotification({
+    shopId,
+    orders3fa,
+    phase,
+    trackingUrl,
+    customerLocale,
+  }: {
+    shopId: string;
+    orders3fa: any;
+    phase: ShipmentPhase;
+    trackingUrl?: string;
+    customerLocale?: string | null;
+  }): Promise<boolean> {
+    if (phase !== 'SHIPPED' && phase !== 'DELIVERED') {
+      return false;
+    }
+    const kind = phase === 'SHIPPED' ? 'SHIPMENT_SHIPPED' : 'SHIPMENT_DELIVERED';
+
+    // @ts-ignore
+    const brand3fa = await prisma.brands3fa.findFirst({
+      where: { myshopifyDomain: shopId },
+      select: { shippingSmsEnabled: true },
+    });
+    if (!brand3fa?.shippingSmsEnabled) {
+      return false;
+    }
+
+    const phone: string | undefined = orders3fa.user3fa?.phone;
+    if (!phone) {
+      console.log(
+        `[Fulfillment] No phone for Orders3fa ${orders3fa.id}, skipping shipping SMS`
+      );
+      return false;
+    }
+    const normalized = normalizePhone(phone, 'customer');
+    if (normalized.ok && !normalized.smsCapable) {
+      console.log(
+        `[Fulfillment] Phone of Orders3fa ${orders3fa.id} is ${normalized.lineType}, skipping shipping SMS`
+      );
+      return false;
+    }
+
+    const passportUrl = buildPassportUrl(orders3fa.id);
+    const message = await renderNotification({
+      shopDomain: shopId,
+      kind,
+      customerLocale,
+      variables: { passportUrl, trackingUrl: trackingUrl ?? passportUrl },
+    });
+
+    try {
+      await notificationService.send({
+        channel: 'SMS',
+        to: phone,
+        body: message.body,
+        kind,
+        orders3faId: orders3fa.id,
+      });
+    } catch (error) {
+      console.error(
+        `[Fulfillment] Shipping SMS failed for Orders3fa ${orders3fa.id}:`,
+        error
+      );
+      return false;
+    }
+    return true;
+  }
+}
+
+// Export a singleton instance
+export const fulfillmentTrackingService = new FulfillmentTrackingService();
@@ -0,0 +1,115 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { getContentStore, ipfsUri } from './content-store.js';
+import { buildTokenMetadata } from './token-metadata.js';
+
+/**
+ * @file metadata-pinning.ts
+ * @description Token metadata frozen at mint time.
+ *
+ * By default a tokenURI is our `/api/token-metadata/<id>` endpoint, which
+ * stops resolving if the app's domain changes or it is down. Brands with
+ * `Brands3fa.pinTokenMetadata` get the metadata and product image written
+ * to content-addressed storage (`content-store.ts`) before the mint, and
+ * the token points at `ipfs://<cid>` instead. The CID is kept in
+ * `UniqueDigitalId.metadataCid`, so a retried mint, a batch or a voucher
+ * uses the same URI, even once the brand turns pinning off.
+ */
+
+const IMAGE_FETCH_TIMEOUT_MS = 15_000;
+
+/** Copy an http(s) image into the store; other URIs are kept as they are. */
+async function pinImage(imageUrl: string): Promise<string> {
+  if (!/^https?:\/\//i.test(imageUrl)) {
+    return imageUrl;
+  }
+  const response = await fetch(imageUrl, {
+    signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${imageUrl}: ${response.status}`);
+  }
+  const { cid } = await getContentStore().put(
+    Buffer.from(await response.arrayBuffer()),
+    response.headers.get('content-type') || 'application/octet-stream'
+  );
+  return ipfsUri(cid);
+}
+
+/**
+ * Freeze a digital ID's metadata: store its image and metadata document and
+ * record the CID. Returns the CID it already has, if any.
+ */
+export async function pinTokenMetadata(digitalIdId: string): Promise<string> {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    select: { metadataCid: true },
+  });
+  if (digitalId?.metadataCid) {
+    return digitalId.metadataCid;
+  }
+
+  const metadata = await buildTokenMetadata(digitalIdId, { frozen: true });
+  if (!metadata) {
+    throw new Error(`UniqueDigitalId not found: ${digitalIdId}`);
+  }
+  if (metadata.image) {
+    metadata.image = await pinImage(metadata.image);
+  }
+
+  const { cid } = await getContentStore().put(
+    Buffer.from(JSON.stringify(metadata)),
+    'application/json'
+  );
+  // A concurrent attempt may have pinned first; the token must use its CID
+  // @ts-ignore
+  const { count } = await prisma.uniqueDigitalId.updateMany({
+    where: { id: digitalIdId, metadataCid: null },
+    data: { metadataCid: cid },
+  });
+  if (count === 0) {
+    // @ts-ignore
+    const pinned = await prisma.uniqueDigitalId.findUnique({
+      where: { id: digitalIdId },
+      select: { metadataCid: true },
+    });
+    if (pinned?.metadataCid) {
+      return pinned.metadataCid;
+    }
+  }
+  console.log(`[Mint] Pinned metadata of digital ID ${digitalIdId}: ${cid}`);
+  return cid;
+}
+
+/**
+ * The tokenURI to mint a digital ID with: `ipfs://<metadataCid>` once its
+ * metadata is pinned or its brand pins metadata (pinning it now), and the
+ * metadata endpoint (`tokenMetadataUrl`) otherwise.
+ */
+export async function resolveTokenUri(
+  digitalIdId: string,
+  metadataUrl: string
+): Promise<string> {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    select: { metadataCid: true, brand_3fa_id: true },
+  });
+  if (digitalId?.metadataCid) {
+    return ipfsUri(digitalId.metadataCid);
+  }
+  if (!digitalId?.brand_3fa_id) {
+    return metadataUrl;
+  }
+
+  // @ts-ignore
+  const brand = await prisma.brands3fa.findUnique({
+    where: { id: digitalId.brand_3fa_id },
+    select: { pinTokenMetadata: true },
+  });
+  if (!brand?.pinTokenMetadata) {
+    return metadataUrl;
+  }
+  return ipfsUri(await pinTokenMetadata(digitalIdId));
+}
@@ -0,0 +1,311 @@
+import { hexToBigInt, keccakId, toFunctionSelector } from 'thirdweb/utils';
+// @ts-ignore
+import prisma from '../../db.server.js';
+
+/**
+ * @file mint-adapters.ts
+ * @description How to call the mint function of a contract.
+ *
+ * A mint adapter is a function signature plus an argument mapping. Arguments
+ * are JSON: a string that is exactly `{{variable}}` is replaced with the
+ * value of a mint variable, numbers become uint256 values, arrays and
+ * objects (tuples / structs) are mapped recursively and everything else is
+ * passed as is. For example thirdweb's ERC-1155 `mintTo`:
+ *
+ *   method: 'function mintTo(address to, uint256 tokenId, string uri, uint256 amount)'
+ *   args:   ['{{recipient}}', '{{newTokenId}}', '{{metadataUrl}}', 1]
+ *
+ * Brands can register their own adapters (`BrandMintSignature`), for one
+ * contract or for all their contracts. Which adapter a contract gets is
+ * decided in `contract-capabilities.ts`.
+ */
+
+export type TokenStandard = 'ERC721' | 'ERC1155';
+
+export const MINT_VARIABLES = [
+  'recipient',
+  'metadataUrl',
+  'digitalIdId',
+  /** uint256 derived from the digital ID, for contracts that take an id */
+  'tokenIdHash',
+  /** type(uint256).max, "create a new token" for thirdweb's ERC-1155 */
+  'newTokenId',
+] as const;
+
+export type MintVariable = (typeof MINT_VARIABLES)[number];
+
+export type MintArgument =
+  | string
+  | number
+  | boolean
+  | null
+  | MintArgument[]
+  | { [key: string]: MintArgument };
+
+export interface MintAdapter {
+  id: string;
+  standard?: TokenStandard;
+  method: string;
+  args: MintArgument[];
+  source: 'BUILT_IN' | 'BRAND';
+}
+
+/** Tried in this order when a contract implements several of them */
+export const BUILT_IN_MINT_ADAPTERS: MintAdapter[] = [
+  {
+    id: 'erc721-mintTo',
+    standard: 'ERC721',
+    method: 'function mintTo(address to, string uri) returns (uint256 tokenId)',
+    args: ['{{recipient}}', '{{metadataUrl}}'],
+    source: 'BUILT_IN',
+  },
+  {
+    id: 'erc721-safeMint',
+    standard: 'ERC721',
+    method: 'function safeMint(address to, string uri)',
+    args: ['{{recipient}}', '{{metadataUrl}}'],
+    source: 'BUILT_IN',
+  },
+  {
+    id: 'erc1155-mintTo',
+    standard: 'ERC1155',
+    method:
+      'function mintTo(address to, uint256 tokenId, string uri, uint256 amount)',
+    args: ['{{recipient}}', '{{newTokenId}}', '{{metadataUrl}}', 1],
+    source: 'BUILT_IN',
+  },
+  {
+    id: 'erc1155-mint',
+    standard: 'ERC1155',
+    method: 'function mint(address to, uint256 id, uint256 amount, bytes data)',
+    args: ['{{recipient}}', '{{tokenIdHash}}', 1, '0x'],
+    source: 'BUILT_IN',
+  },
+];
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const VARIABLE_PATTERN = /^\{\{\s*(\w+)\s*\}\}$/;
+
+export function mintAdapterSelector(adapter: Pick<MintAdapter, 'method'>) {
+  return toFunctionSelector(adapter.method).toLowerCase();
+}
+
+/**
+ * Build the call parameters of an adapter for one mint.
+ */
+export function buildMintParams(
+  adapter: MintAdapter,
+  {
+    recipient,
+    metadataUrl,
+    digitalIdId,
+  }: { recipient: string; metadataUrl: string; digitalIdId: string }
+): unknown[] {
+  const values: Record<MintVariable, unknown> = {
+    recipient,
+    metadataUrl,
+    digitalIdId,
+    tokenIdHash: hexToBigInt(keccakId(digitalIdId)),
+    newTokenId: MAX_UINT256,
+  };
+
+  const map = (arg: MintArgument): unknown => {
+    if (typeof arg === 'string') {
+      const name = arg.match(VARIABLE_PATTERN)?.[1];
+      return name ? values[name as MintVariable] : arg;
+    }
+    if (typeof arg === 'number') {
+      return BigInt(arg);
+    }
+    if (Array.isArray(arg)) {
+      return arg.map(map);
+    }
+    if (arg && typeof arg === 'object') {
+      return Object.fromEntries(
+        Object.entries(arg).map(([key, value]) => [key, map(value)])
+      );
+    }
+    return arg;
+  };
+  return adapter.args.map(map);
+}
+
+/** Number of top-level inputs of a `function name(...)` signature */
+function countInputs(method: string): number {
+  const start = method.indexOf('(');
+  if (start < 0) {
+    return -1;
+  }
+  let depth = 0;
+  let inputs = 0;
+  let sawContent = false;
+  for (const char of method.slice(start + 1)) {
+    if (char === '(') depth++;
+    if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    }
+    if (char === ',' && depth === 0) inputs++;
+    if (!/\s/.test(char)) sawContent = true;
+  }
+  return sawContent ? inputs + 1 : 0;
+}
+
+/**
+ * Check a mint signature and its argument mapping. Returns a list of
+ * problems.
+ */
+export function validateMintSignature(
+  method: string,
+  args: unknown
+): string[] {
+  const errors: string[] = [];
+  if (!/^function\s+\w+\s*\(/.test(method.trim())) {
+    errors.push('Method must be a signature like "function mint(address to)".');
+    return errors;
+  }
+  try {
+    toFunctionSelector(method);
+  } catch (error) {
+    errors.push(
+      `Invalid signature: ${error instanceof Error ? error.message : error}`
+    );
+    return errors;
+  }
+  if (!Array.isArray(args)) {
+    errors.push('Arguments must be an array.');
+    return errors;
+  }
+  if (args.length !== countInputs(method)) {
+    errors.push(
+      `Signature takes ${countInputs(method)} arguments, ${args.length} given.`
+    );
+  }
+
+  let usesRecipient = false;
+  const visit = (arg: unknown) => {
+    if (typeof arg === 'string') {
+      const name = arg.match(VARIABLE_PATTERN)?.[1];
+      if (name && !(MINT_VARIABLES as readonly string[]).includes(name)) {
+        errors.push(`Unknown variable {{${name}}}.`);
+      }
+      usesRecipient ||= name === 'recipient';
+    } else if (typeof arg === 'number' && !Number.isSafeInteger(arg)) {
+      errors.push(`Number ${arg} is not a safe integer.`);
+    } else if (Array.isArray(arg)) {
+      arg.forEach(visit);
+    } else if (arg && typeof arg === 'object') {
+      Object.values(arg).forEach(visit);
+    }
+  };
+  args.forEach(visit);
+  if (!usesRecipient) {
+    errors.push('Arguments must pass {{recipient}}.');
+  }
+  return errors;
+}
+
+function toBrandAdapter(signature: {
+  id: string;
+  method: string;
+  args: MintArgument[];
+  standard: TokenStandard | null;
+}): MintAdapter {
+  return {
+    id: `brand:${signature.id}`,
+    standard: signature.standard ?? undefined,
+    method: signature.method,
+    args: signature.args,
+    source: 'BRAND',
+  };
+}
+
+/**
+ * A brand's mint adapters that apply to a contract: the ones registered for
+ * that contract first, then the brand-wide ones, oldest first.
+ */
+export async function brandMintAdapters(
+  brandId: string,
+  contractAddress: string
+): Promise<{ forContract: MintAdapter[]; brandWide: MintAdapter[] }> {
+  // @ts-ignore
+  const signatures = await prisma.brandMintSignature.findMany({
+    where: {
+      brand_3fa_id: brandId,
+      OR: [
+        { contractAddress: contractAddress.toLowerCase() },
+        { contractAddress: null },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return {
+    forContract: signatures
+      .filter((signature: any) => signature.contractAddress)
+      .map(toBrandAdapter),
+    brandWide: signatures
+      .filter((signature: any) => !signature.contractAddress)
+      .map(toBrandAdapter),
+  };
+}
+
+export async function listBrandMintSignatures(brandId: string) {
+  // @ts-ignore
+  return prisma.brandMintSignature.findMany({
+    where: { brand_3fa_id: brandId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Register a custom mint signature for a brand, for one contract or (without
+ * `contractAddress`) all of its contracts. Throws with the validation
+ * problems when it is rejected.
+ */
+export async function saveBrandMintSignature({
+  brandId,
+  contractAddress,
+  method,
+  args,
+  standard,
+}: {
+  brandId: string;
+  contractAddress?: string | null;
+  method: string;
+  args: unknown;
+  standard?: TokenStandard | null;
+}) {
+  const errors = validateMintSignature(method, args);
+  if (contractAddress && !/^0x[0-9a-fA-F]{40}$/.test(contractAddress)) {
+    errors.push('contractAddress must be a 20-byte hex address.');
+  }
+  if (standard && standard !== 'ERC721' && standard !== 'ERC1155') {
+    errors.push('standard must be ERC721 or ERC1155.');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid mint signature: ${errors.join(' ')}`);
+  }
+
+  // @ts-ignore
+  return prisma.brandMintSignature.create({
+    data: {
+      brand_3fa_id: brandId,
+      contractAddress: contractAddress?.toLowerCase() ?? null,
+      method: method.trim(),
+      selector: mintAdapterSelector({ method }),
+      args: args as MintArgument[],
+      standard: standard ?? null,
+    },
+  });
+}
+
+export async function deleteBrandMintSignature(
+  brandId: string,
+  signatureId: string
+): Promise<boolean> {
+  // @ts-ignore
+  const { count } = await prisma.brandMintSignature.deleteMany({
+    where: { id: signatureId, brand_3fa_id: brandId },
+  });
+  return count > 0;
+}
@@ -0,0 +1,360 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { getChainConfig, type ChainConfig } from './chain-registry.js';
+import { MintError } from './mint-errors.js';
+
+/**
+ * @file mint-billing.ts
+ * @description What mints cost, per brand.
+ *
+ * Every confirmed mint adds a `MintCostLedger` row with the gas used, the
+ * effective gas price and the cost in the chain's native token (wei). A
+ * batch mint is split evenly over its digital IDs.
+ *
+ * `Brands3fa.monthlyMintCapWei` caps what a brand may spend per calendar
+ * month (UTC) on each chain. Before a mint is sent its cost is estimated;
+ * when it would exceed the cap, minting for the brand pauses
+ * (`Brands3fa.mintingPausedAt`) and the mint is tried again later. Raising
+ * the cap, or the next month, resumes it.
+ *
+ * The ledger only has confirmed mints, so mints sent but not yet in it
+ * count with the estimate kept on their `MinterTransaction`. The check runs
+ * under a lock per brand and chain, in the database transaction that
+ * records the send, so concurrent sends cannot overshoot the cap together.
+ */
+
+/** Minting for a brand is paused by its spending cap. */
+export class MintSpendingCapError extends MintError {
+  constructor(
+    public readonly brandId: string,
+    message: string
+  ) {
+    super(message, true);
+    this.name = 'MintSpendingCapError';
+  }
+}
+
+export interface MintCostEstimate {
+  gas: bigint;
+  costWei: bigint;
+}
+
+/** `YYYY-MM` (UTC) to its [start, end) range; defaults to this month. */
+export function billingMonthRange(month?: string): {
+  month: string;
+  start: Date;
+  end: Date;
+} {
+  const now = new Date();
+  const [year, monthIndex] = month
+    ? month.split('-').map(Number)
+    : [now.getUTCFullYear(), now.getUTCMonth() + 1];
+  if (!year || !monthIndex || monthIndex < 1 || monthIndex > 12) {
+    throw new Error(`Invalid month "${month}", expected YYYY-MM`);
+  }
+  return {
+    month: `${year}-${String(monthIndex).padStart(2, '0')}`,
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+}
+
+async function spentThisMonth(
+  db: any,
+  brandId: string,
+  chainId: number
+): Promise<bigint> {
+  const { start, end } = billingMonthRange();
+  const rows = await db.mintCostLedger.findMany({
+    where: {
+      brand_3fa_id: brandId,
+      chainId,
+      confirmedAt: { gte: start, lt: end },
+    },
+    select: { costWei: true },
+  });
+  return rows.reduce(
+    (total: bigint, row: any) => total + BigInt(row.costWei),
+    0n
+  );
+}
+
+/**
+ * Estimated cost of the brand's mints sent this month that are not in the
+ * ledger yet: pending ones, ones with an unknown outcome, and mined ones
+ * for the units not confirmed yet. Dropped and reverted ones do not count.
+ */
+async function inFlightThisMonth(
+  db: any,
+  brandId: string,
+  chainId: number
+): Promise<bigint> {
+  const { start, end } = billingMonthRange();
+  const sent = await db.minterTransaction.findMany({
+    where: {
+      brand_3fa_id: brandId,
+      chainId,
+      purpose: 'MINT',
+      status: { in: ['PENDING', 'UNKNOWN_OUTCOME', 'MINED'] },
+      estimatedCostWei: { not: null },
+      createdAt: { gte: start, lt: end },
+    },
+    select: {
+      status: true,
+      transactionHash: true,
+      digitalIdIds: true,
+      estimatedCostWei: true,
+    },
+  });
+
+  const minedHashes = sent
+    .filter((row: any) => row.status === 'MINED' && row.transactionHash)
+    .map((row: any) => row.transactionHash);
+  const ledgered = new Map<string, number>();
+  if (minedHashes.length > 0) {
+    const entries = await db.mintCostLedger.findMany({
+      where: { transactionHash: { in: minedHashes } },
+      select: { transactionHash: true },
+    });
+    for (const { transactionHash } of entries) {
+      ledgered.set(transactionHash, (ledgered.get(transactionHash) ?? 0) + 1);
+    }
+  }
+
+  let total = 0n;
+  for (const row of sent) {
+    const estimate = BigInt(row.estimatedCostWei);
+    const units = BigInt(Math.max(1, row.digitalIdIds?.length ?? 0));
+    const confirmed = BigInt(ledgered.get(row.transactionHash) ?? 0);
+    if (confirmed < units) {
+      total += (estimate * (units - confirmed)) / units;
+    }
+  }
+  return total;
+}
+
+/**
+ * Check an estimated mint cost against the brand's monthly cap. Throws
+ * `MintSpendingCapError`, and marks minting paused, when it does not fit;
+ * lifts the pause once a mint fits or the cap is removed.
+ *
+ * Pass the interactive transaction `tx` that records the send (the
+ * `MinterTransaction` with `brand_3fa_id` and `estimatedCostWei`): the
+ * brand's lock is held until it commits, so the next check counts it.
+ */
+export async function assertWithinSpendingCap(
+  {
+    brandId,
+    chainConfig,
+    estimate,
+  }: {
+    brandId: string | null | undefined;
+    chainConfig: ChainConfig;
+    estimate: MintCostEstimate;
+  },
+  tx: any
+): Promise<void> {
+  if (!brandId) {
+    return;
+  }
+  const brand = await tx.brands3fa.findUnique({
+    where: { id: brandId },
+    select: { monthlyMintCapWei: true, mintingPausedAt: true },
+  });
+  if (!brand?.monthlyMintCapWei) {
+    if (brand?.mintingPausedAt) {
+      console.log(`[Mint] Resuming minting for brand ${brandId}: no cap set`);
+      // @ts-ignore
+      await prisma.brands3fa.update({
+        where: { id: brandId },
+        data: { mintingPausedAt: null, mintingPausedReason: null },
+      });
+    }
+    return;
+  }
+
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`mint-cap:${brandId}:${chainConfig.id}`}))`;
+  const cap = BigInt(brand.monthlyMintCapWei);
+  const spent =
+    (await spentThisMonth(tx, brandId, chainConfig.id)) +
+    (await inFlightThisMonth(tx, brandId, chainConfig.id));
+  if (spent + estimate.costWei > cap) {
+    const reason = `Monthly mint spending cap reached on ${chainConfig.name}: spent or in flight ${spent} + estimated ${estimate.costWei} > cap ${cap} wei`;
+    if (!brand.mintingPausedAt) {
+      console.warn(`[Mint] Pausing minting for brand ${brandId}: ${reason}`);
+      // Outside `tx`, which is rolled back by the throw
+      // @ts-ignore
+      await prisma.brands3fa.update({
+        where: { id: brandId },
+        data: { mintingPausedAt: new Date(), mintingPausedReason: reason },
+      });
+    }
+    throw new MintSpendingCapError(brandId, reason);
+  }
+
+  if (brand.mintingPausedAt) {
+    console.log(`[Mint] Resuming minting for brand ${brandId}`);
+    // @ts-ignore
+    await prisma.brands3fa.update({
+      where: { id: brandId },
+      data: { mintingPausedAt: null, mintingPausedReason: null },
+    });
+  }
+}
+
+/**
+ * Add the cost of a confirmed mint to the ledger. Safe to call twice for
+ * the same digital ID and transaction.
+ */
+export async function recordMintCost({
+  digitalIdId,
+  brandId,
+  chainConfig,
+  contractAddress,
+  receipt,
+  batchSize = 1,
+}: {
+  digitalIdId: string;
+  brandId: string;
+  chainConfig: ChainConfig;
+  contractAddress: string;
+  receipt: {
+    transactionHash: string;
+    gasUsed: bigint;
+    effectiveGasPrice?: bigint;
+    /** OP Stack chains: the L1 data fee, paid on top of L2 gas */
+    l1Fee?: bigint | null;
+  };
+  batchSize?: number;
+}) {
+  const effectiveGasPrice = receipt.effectiveGasPrice ?? 0n;
+  const share = BigInt(Math.max(1, batchSize));
+  const totalWei =
+    receipt.gasUsed * effectiveGasPrice + (receipt.l1Fee ?? 0n);
+  const data = {
+    brand_3fa_id: brandId,
+    contractAddress: contractAddress.toLowerCase(),
+    chainId: chainConfig.id,
+    gasUsed: (receipt.gasUsed / share).toString(),
+    effectiveGasPrice: effectiveGasPrice.toString(),
+    costWei: (totalWei / share).toString(),
+    batchSize: Number(share),
+    confirmedAt: new Date(),
+  };
+
+  // @ts-ignore
+  return prisma.mintCostLedger.upsert({
+    where: {
+      digitalIdId_transactionHash: {
+        digitalIdId,
+        transactionHash: receipt.transactionHash,
+      },
+    },
+    update: {},
+    create: {
+      digitalIdId,
+      transactionHash: receipt.transactionHash,
+      ...data,
+    },
+  });
+}
+
+function formatNative(wei: bigint): string {
+  const whole = wei / 10n ** 18n;
+  const fraction = (wei % 10n ** 18n).toString().padStart(18, '0');
+  return `${whole}.${fraction.replace(/0+$/, '') || '0'}`;
+}
+
+export interface MintCostReportLine {
+  chainId: number;
+  chain: string;
+  contractAddress: string;
+  mints: number;
+  gasUsed: string;
+  costWei: string;
+  /** `costWei` in the chain's native token, e.g. ETH */
+  cost: string;
+}
+
+/**
+ * A brand's mint costs for a month, per chain and contract, for invoicing.
+ */
+export async function monthlyMintCostReport(
+  brandId: string,
+  month?: string
+): Promise<{
+  month: string;
+  lines: MintCostReportLine[];
+  totalsByChain: Array<
+    Pick<MintCostReportLine, 'chainId' | 'chain' | 'costWei' | 'cost'>
+  >;
+}> {
+  const range = billingMonthRange(month);
+  // @ts-ignore
+  const rows = await prisma.mintCostLedger.findMany({
+    where: {
+      brand_3fa_id: brandId,
+      confirmedAt: { gte: range.start, lt: range.end },
+    },
+    select: {
+      chainId: true,
+      contractAddress: true,
+      gasUsed: true,
+      costWei: true,
+    },
+  });
+
+  const lines = new Map<
+    string,
+    { line: MintCostReportLine; gas: bigint; wei: bigint }
+  >();
+  const chains = new Map<number, bigint>();
+  for (const row of rows) {
+    const key = `${row.chainId}:${row.contractAddress}`;
+    const entry = lines.get(key) ?? {
+      line: {
+        chainId: row.chainId,
+        chain: chainName(row.chainId),
+        contractAddress: row.contractAddress,
+        mints: 0,
+        gasUsed: '0',
+        costWei: '0',
+        cost: '0',
+      },
+      gas: 0n,
+      wei: 0n,
+    };
+    entry.line.mints++;
+    entry.gas += BigInt(row.gasUsed);
+    entry.wei += BigInt(row.costWei);
+    lines.set(key, entry);
+    chains.set(
+      row.chainId,
+      (chains.get(row.chainId) ?? 0n) + BigInt(row.costWei)
+    );
+  }
+
+  return {
+    month: range.month,
+    lines: [...lines.values()].map(({ line, gas, wei }) => ({
+      ...line,
+      gasUsed: gas.toString(),
+      costWei: wei.toString(),
+      cost: formatNative(wei),
+    })),
+    totalsByChain: [...chains.entries()].map(([chainId, wei]) => ({
+      chainId,
+      chain: chainName(chainId),
+      costWei: wei.toString(),
+      cost: formatNative(wei),
+    })),
+  };
+}
+
+function chainName(chainId: number): string {
+  try {
+    return getChainConfig(chainId).name;
+  } catch {
+    return String(chainId);
+  }
+}
@@ -0,0 +1,251 @@
+import type { ThirdwebClient } from 'thirdweb';
+import {
+  eth_blockNumber,
+  eth_getTransactionReceipt,
+  getRpcClient,
+} from 'thirdweb/rpc';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  enqueueMint,
+  enqueueMintConfirmation,
+} from '../../queues/mintQueue.server.js';
+import {
+  transitionDigitalIdStatus,
+  type DigitalIdActor,
+} from '../digital-id/digital-id-status.server.js';
+import { chainConfigForBlockchain, type ChainConfig } from './chain-registry.js';
+import { recordMintCost } from './mint-billing.js';
+import { nullIfNotFound } from './mint-errors.js';
+
+/**
+ * @file mint-confirmation.ts
+ * @description The MINT_SUBMITTED → MINT_CONFIRMED phase of a mint.
+ *
+ * A mint whose transaction was mined is MINT_SUBMITTED and gets a
+ * confirmation job on the mint queue. The job checks the receipt again until
+ * the chain's `confirmations` depth is reached, then confirms the digital ID
+ * and sets `mintedAt`. A transaction that disappeared (reorged out: the
+ * node has no receipt although its head is past the mint block) or
+ * reverted sends the digital ID back to MINT_PENDING and re-enqueues its
+ * mint; for a reorged transaction the mint job first waits for the same
+ * transaction to be mined again (see `minterTransactions.resumeInFlight`).
+ * An RPC error fails the job, which BullMQ retries.
+ * A confirmed mint's gas cost goes to the brand's ledger (`mint-billing.ts`).
+ */
+
+export type ConfirmationOutcome =
+  | { state: 'CONFIRMED'; confirmations: number }
+  | { state: 'WAITING'; confirmations: number; required: number }
+  | { state: 'REORGED' | 'REVERTED' | 'SKIPPED'; reason: string };
+
+const CLEARED_MINT_FIELDS = {
+  transactionHash: null,
+  tokenId: null,
+  mintBlockNumber: null,
+  mintBlockHash: null,
+  mintSubmittedAt: null,
+};
+
+/**
+ * Record that the mint transaction of a digital ID was mined and schedule
+ * its confirmation check. Calling it again for the same transaction (e.g.
+ * after the confirmation job could not be added) only schedules the check.
+ */
+export async function markMintSubmitted({
+  digitalIdId,
+  chainConfig,
+  transactionHash,
+  contractAddress,
+  tokenId,
+  blockNumber,
+  blockHash,
+  actor,
+}: {
+  digitalIdId: string;
+  chainConfig: ChainConfig;
+  transactionHash: string;
+  contractAddress?: string;
+  tokenId?: string | null;
+  blockNumber?: bigint | number | null;
+  blockHash?: string | null;
+  actor: DigitalIdActor;
+}) {
+  // @ts-ignore
+  const current = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+  });
+  if (
+    current?.status === 'MINT_SUBMITTED' &&
+    current.transactionHash === transactionHash
+  ) {
+    await enqueueMintConfirmation(digitalIdId, transactionHash);
+    return current;
+  }
+
+  const digitalId = await transitionDigitalIdStatus({
+    digitalIdId,
+    to: 'MINT_SUBMITTED',
+    actor,
+    transactionHash,
+    data: {
+      blockchain: String(chainConfig.id),
+      transactionHash,
+      ...(contractAddress ? { contractAddress } : {}),
+      tokenId: tokenId ?? null,
+      mintBlockNumber: blockNumber != null ? Number(blockNumber) : null,
+      mintBlockHash: blockHash ?? null,
+      mintSubmittedAt: new Date(),
+    },
+  });
+  await enqueueMintConfirmation(digitalIdId, transactionHash);
+  return digitalId;
+}
+
+/**
+ * Check a MINT_SUBMITTED digital ID against the chain once and apply the
+ * outcome: confirm it, keep waiting, or send it back to MINT_PENDING.
+ */
+export async function checkMintConfirmation(
+  client: ThirdwebClient,
+  digitalIdId: string
+): Promise<ConfirmationOutcome> {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    select: {
+      status: true,
+      blockchain: true,
+      transactionHash: true,
+      mintBlockNumber: true,
+      mintBlockHash: true,
+      contractAddress: true,
+      brand_3fa_id: true,
+    },
+  });
+  if (!digitalId || digitalId.status !== 'MINT_SUBMITTED') {
+    return {
+      state: 'SKIPPED',
+      reason: `Status is ${digitalId?.status ?? 'missing'}`,
+    };
+  }
+
+  const chainConfig = chainConfigForBlockchain(digitalId.blockchain);
+  const rpc = getRpcClient({ client, chain: chainConfig.chain });
+  const transactionHash: string = digitalId.transactionHash;
+  // An RPC error is thrown, so the job retries instead of calling it a reorg
+  const receipt = await eth_getTransactionReceipt(rpc, {
+    hash: transactionHash as `0x${string}`,
+  }).catch(nullIfNotFound);
+
+  if (!receipt) {
+    const head = await eth_blockNumber(rpc);
+    if (
+      digitalId.mintBlockNumber != null &&
+      head <= BigInt(digitalId.mintBlockNumber)
+    ) {
+      // This node has not caught up with the block the mint was seen in
+      return {
+        state: 'WAITING',
+        confirmations: 0,
+        required: chainConfig.confirmations,
+      };
+    }
+    const reason = `Mint transaction ${transactionHash} is no longer in the chain (reorg)`;
+    // The same transaction may be mined again; let the mint job wait for it
+    // @ts-ignore
+    await prisma.minterTransaction.updateMany({
+      where: { transactionHash },
+      data: {
+        status: 'PENDING',
+        transactionHash: null,
+        blockNumber: null,
+        minedAt: null,
+        lastSentAt: new Date(),
+        settledDigitalIdIds: [],
+      },
+    });
+    await sendBackToMintPending(digitalIdId, transactionHash, reason);
+    return { state: 'REORGED', reason };
+  }
+
+  if (receipt.status === 'reverted') {
+    const reason = `Mint transaction ${transactionHash} reverted after a reorg`;
+    // @ts-ignore
+    await prisma.minterTransaction.updateMany({
+      where: { transactionHash },
+      data: { status: 'REVERTED' },
+    });
+    await sendBackToMintPending(digitalIdId, transactionHash, reason);
+    return { state: 'REVERTED', reason };
+  }
+
+  if (receipt.blockHash !== digitalId.mintBlockHash) {
+    // Re-included in another block: confirmations count from there
+    console.log(
+      `[Mint] ${transactionHash} for ${digitalIdId} moved to block ${receipt.blockNumber}`
+    );
+    // @ts-ignore
+    await prisma.uniqueDigitalId.update({
+      where: { id: digitalIdId },
+      data: {
+        mintBlockNumber: Number(receipt.blockNumber),
+        mintBlockHash: receipt.blockHash,
+      },
+    });
+  }
+
+  const head = await eth_blockNumber(rpc);
+  const confirmations = Number(head - receipt.blockNumber) + 1;
+  if (confirmations < chainConfig.confirmations) {
+    return {
+      state: 'WAITING',
+      confirmations,
+      required: chainConfig.confirmations,
+    };
+  }
+
+  await transitionDigitalIdStatus({
+    digitalIdId,
+    to: 'MINT_CONFIRMED',
+    actor: 'system:mint-confirmation',
+    transactionHash,
+    reason: `${confirmations} confirmations on ${chainConfig.name}`,
+    data: { mintConfirmations: confirmations, mintedAt: new Date() },
+  });
+
+  // @ts-ignore
+  const tracked = await prisma.minterTransaction.findFirst({
+    where: { transactionHash },
+    select: { digitalIdIds: true },
+  });
+  await recordMintCost({
+    digitalIdId,
+    brandId: digitalId.brand_3fa_id,
+    chainConfig,
+    contractAddress: digitalId.contractAddress,
+    receipt: receipt as typeof receipt & { l1Fee?: bigint | null },
+    batchSize: tracked?.digitalIdIds?.length || 1,
+  }).catch(error => {
+    // The mint stands; the ledger entry can be added later
+    console.error(`[Mint] Could not record the cost of ${digitalIdId}:`, error);
+  });
+  return { state: 'CONFIRMED', confirmations };
+}
+
+async function sendBackToMintPending(
+  digitalIdId: string,
+  transactionHash: string,
+  reason: string
+) {
+  console.warn(`[Mint] ${reason}; back to MINT_PENDING for ${digitalIdId}`);
+  await transitionDigitalIdStatus({
+    digitalIdId,
+    to: 'MINT_PENDING',
+    actor: 'system:mint-confirmation',
+    transactionHash,
+    reason,
+    data: CLEARED_MINT_FIELDS,
+  });
+  await enqueueMint(digitalIdId);
+}
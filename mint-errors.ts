@@ -0,0 +1,40 @@
+/**
+ * A mint failure together with whether trying again can help. Problems with
+ * the record, the configuration or the contract are permanent; RPC, gas and
+ * nonce trouble is retryable.
+ */
+export class MintError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'MintError';
+  }
+}
+
+const PERMANENT_CHAIN_ERRORS =
+  /execution reverted|invalid address|not a contract|function selector|no matching function|access ?control|not the owner|unauthori[sz]ed|invalid argument/i;
+
+/**
+ * Classify an error thrown by thirdweb or the RPC. Anything not known to be
+ * permanent is treated as retryable; the queue's attempt limit bounds it.
+ */
+export function isRetryableMintError(error: unknown): boolean {
+  if (error instanceof MintError) {
+    return error.retryable;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return !PERMANENT_CHAIN_ERRORS.test(message);
+}
+
+/**
+ * For `.catch` on a transaction or receipt lookup: null when the node does
+ * not know the transaction (thirdweb throws "Transaction receipt not
+ * found." for an empty result), and the error again when the RPC failed,
+ * so an outage is not mistaken for a dropped or reorged transaction.
+ */
+export function nullIfNotFound(error: unknown): null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\bnot found\b/i.test(message)) {
+    return null;
+  }
+  throw error;
+}
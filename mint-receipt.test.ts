@@ -0,0 +1,247 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  ERC1155_TRANSFER_BATCH_TOPIC,
+  ERC1155_TRANSFER_SINGLE_TOPIC,
+  ERC721_TRANSFER_TOPIC,
+  decodeMintRecipients,
+  decodeMintedTokenIds,
+  decodeTokenTransfers,
+  extractMintedTokenId,
+  type ReceiptLog,
+} from './mint-receipt.js';
+
+/**
+ * Receipt logs of mints as thirdweb's TokenERC721 `mintTo` and TokenERC1155
+ * `mintTo` / `mintBatchTo` emit them, for a contract at the first anvil
+ * deployment address minting to the second anvil account.
+ */
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_CONTRACT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const MINTER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const ZERO_TOPIC =
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+const RECIPIENT_TOPIC =
+  '0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8';
+const MINTER_TOPIC =
+  '0x000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+/** ERC-721 `mintTo(recipient, uri)` minting token 42 */
+const ERC721_MINT_LOGS: ReceiptLog[] = [
+  {
+    address: CONTRACT,
+    topics: [
+      ERC721_TRANSFER_TOPIC,
+      ZERO_TOPIC,
+      RECIPIENT_TOPIC,
+      '0x000000000000000000000000000000000000000000000000000000000000002a',
+    ],
+    data: '0x',
+  },
+];
+
+/** ERC-1155 `mintTo(recipient, type(uint256).max, uri, 1)` creating id 7 */
+const ERC1155_SINGLE_MINT_LOGS: ReceiptLog[] = [
+  {
+    address: CONTRACT,
+    topics: [
+      ERC1155_TRANSFER_SINGLE_TOPIC,
+      MINTER_TOPIC,
+      ZERO_TOPIC,
+      RECIPIENT_TOPIC,
+    ],
+    data: '0x00000000000000000000000000000000000000000000000000000000000000070000000000000000000000000000000000000000000000000000000000000001',
+  },
+];
+
+/** ERC-1155 `mintBatchTo(recipient, [11, 12], [1, 1], '')` */
+const ERC1155_BATCH_MINT_LOGS: ReceiptLog[] = [
+  {
+    address: CONTRACT,
+    topics: [
+      ERC1155_TRANSFER_BATCH_TOPIC,
+      MINTER_TOPIC,
+      ZERO_TOPIC,
+      RECIPIENT_TOPIC,
+    ],
+    data: '0x000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000b000000000000000000000000000000000000000000000000000000000000000c000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001',
+  },
+];
+
+/**
+ * A multicall mint of tokens 42 and 43 plus noise: an ERC-20 Transfer
+ * (same signature, no indexed value) paid to the recipient, a mint by
+ * another contract and a transfer between holders.
+ */
+const AMBIGUOUS_LOGS: ReceiptLog[] = [
+  {
+    address: OTHER_CONTRACT,
+    topics: [ERC721_TRANSFER_TOPIC, MINTER_TOPIC, RECIPIENT_TOPIC],
+    data: '0x00000000000000000000000000000000000000000000000000000000000f4240',
+  },
+  {
+    address: OTHER_CONTRACT,
+    topics: [
+      ERC721_TRANSFER_TOPIC,
+      ZERO_TOPIC,
+      RECIPIENT_TOPIC,
+      '0x0000000000000000000000000000000000000000000000000000000000000001',
+    ],
+    data: '0x',
+  },
+  ...ERC721_MINT_LOGS,
+  {
+    address: CONTRACT,
+    topics: [
+      ERC721_TRANSFER_TOPIC,
+      ZERO_TOPIC,
+      RECIPIENT_TOPIC,
+      '0x000000000000000000000000000000000000000000000000000000000000002b',
+    ],
+    data: '0x',
+  },
+  {
+    address: CONTRACT,
+    topics: [
+      ERC721_TRANSFER_TOPIC,
+      RECIPIENT_TOPIC,
+      MINTER_TOPIC,
+      '0x000000000000000000000000000000000000000000000000000000000000002a',
+    ],
+    data: '0x',
+  },
+];
+
+describe('extractMintedTokenId', () => {
+  test('reads an ERC-721 Transfer from the zero address', () => {
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: ERC721_MINT_LOGS,
+        contractAddress: CONTRACT.toLowerCase(),
+        recipient: RECIPIENT,
+      }),
+      { tokenId: '42', source: 'ERC721_TRANSFER' }
+    );
+  });
+
+  test('reads an ERC-1155 TransferSingle', () => {
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: ERC1155_SINGLE_MINT_LOGS,
+        contractAddress: CONTRACT,
+        recipient: RECIPIENT.toLowerCase(),
+      }),
+      { tokenId: '7', source: 'ERC1155_TRANSFER_SINGLE' }
+    );
+  });
+
+  test('reads an ERC-1155 TransferBatch of one id', () => {
+    const [log] = ERC1155_BATCH_MINT_LOGS;
+    // ids [11], values [1]
+    const single: ReceiptLog = {
+      ...log,
+      data: '0x000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000800000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000b00000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001',
+    };
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: [single],
+        contractAddress: CONTRACT,
+        recipient: RECIPIENT,
+      }),
+      { tokenId: '11', source: 'ERC1155_TRANSFER_BATCH' }
+    );
+  });
+
+  test('does not guess between several minted ids', () => {
+    const result = extractMintedTokenId({
+      logs: AMBIGUOUS_LOGS,
+      contractAddress: CONTRACT,
+      recipient: RECIPIENT,
+    });
+    assert.equal(result.tokenId, undefined);
+    assert.match(
+      (result as { reason: string }).reason,
+      /mints 2 token ids/
+    );
+  });
+
+  test('falls back to the return value of the mint call', () => {
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: AMBIGUOUS_LOGS,
+        contractAddress: CONTRACT,
+        recipient: RECIPIENT,
+        returnValue: 43n,
+      }),
+      { tokenId: '43', source: 'RETURN_VALUE' }
+    );
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: [],
+        contractAddress: CONTRACT,
+        recipient: RECIPIENT,
+        returnValue: 5,
+      }),
+      { tokenId: '5', source: 'RETURN_VALUE' }
+    );
+  });
+
+  test('reports a receipt without a mint to the recipient', () => {
+    assert.deepEqual(
+      extractMintedTokenId({
+        logs: ERC721_MINT_LOGS,
+        contractAddress: CONTRACT,
+        recipient: MINTER,
+      }),
+      {
+        tokenId: undefined,
+        reason: 'No mint event to the recipient in the receipt',
+      }
+    );
+  });
+});
+
+describe('decoding receipt logs', () => {
+  test('decodeMintedTokenIds lists every id of a TransferBatch', () => {
+    assert.deepEqual(
+      decodeMintedTokenIds(ERC1155_BATCH_MINT_LOGS, CONTRACT, RECIPIENT),
+      [
+        { tokenId: 11n, source: 'ERC1155_TRANSFER_BATCH' },
+        { tokenId: 12n, source: 'ERC1155_TRANSFER_BATCH' },
+      ]
+    );
+  });
+
+  test('decodeMintedTokenIds skips other contracts, ERC-20 and transfers', () => {
+    assert.deepEqual(
+      decodeMintedTokenIds(AMBIGUOUS_LOGS, CONTRACT, RECIPIENT).map(
+        minted => minted.tokenId
+      ),
+      [42n, 43n]
+    );
+  });
+
+  test('decodeMintRecipients lists the recipient of each mint in order', () => {
+    const recipient = RECIPIENT.toLowerCase();
+    assert.deepEqual(decodeMintRecipients(AMBIGUOUS_LOGS, CONTRACT), [
+      recipient,
+      recipient,
+    ]);
+    assert.deepEqual(
+      decodeMintRecipients(ERC1155_SINGLE_MINT_LOGS, CONTRACT),
+      [recipient]
+    );
+  });
+
+  test('decodeTokenTransfers includes transfers between holders', () => {
+    assert.deepEqual(decodeTokenTransfers(AMBIGUOUS_LOGS, CONTRACT), [
+      { from: ZERO_ADDRESS, to: RECIPIENT.toLowerCase(), tokenId: 42n },
+      { from: ZERO_ADDRESS, to: RECIPIENT.toLowerCase(), tokenId: 43n },
+      { from: RECIPIENT.toLowerCase(), to: MINTER.toLowerCase(), tokenId: 42n },
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @file mint-receipt.ts
+ * @description Find the tokenId a mint produced from its transaction receipt.
+ *
+ * Looks for mint events (`from` is the zero address) emitted by the minted
+ * contract to the recipient: ERC-721 `Transfer`, ERC-1155 `TransferSingle`
+ * and `TransferBatch`. Pure functions over the receipt logs, so they can be
+ * run against recorded receipts.
+ */
+
+export const ERC721_TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+export const ERC1155_TRANSFER_SINGLE_TOPIC =
+  '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+export const ERC1155_TRANSFER_BATCH_TOPIC =
+  '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface ReceiptLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+export type MintedTokenIdSource =
+  | 'ERC721_TRANSFER'
+  | 'ERC1155_TRANSFER_SINGLE'
+  | 'ERC1155_TRANSFER_BATCH'
+  | 'RETURN_VALUE';
+
+export type MintedTokenIdResult =
+  | { tokenId: string; source: MintedTokenIdSource }
+  | { tokenId: undefined; reason: string };
+
+function topicToAddress(topic: string | undefined): string | undefined {
+  return topic ? `0x${topic.slice(-40)}`.toLowerCase() : undefined;
+}
+
+/** Split ABI-encoded data into 32-byte words as bigints. */
+function dataWords(data: string): bigint[] {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const words: bigint[] = [];
+  for (let i = 0; i + 64 <= hex.length; i += 64) {
+    words.push(BigInt(`0x${hex.slice(i, i + 64)}`));
+  }
+  return words;
+}
+
+/** Decode the `ids` array of `TransferBatch` data (`uint256[] ids, values`). */
+function decodeBatchIds(data: string): bigint[] {
+  const words = dataWords(data);
+  const idsOffset = Number(words[0] ?? 0n) / 32;
+  const length = Number(words[idsOffset] ?? 0n);
+  return words.slice(idsOffset + 1, idsOffset + 1 + length);
+}
+
+/**
+ * Collect the token ids minted by `contractAddress` to `recipient` in `logs`.
+ */
+export function decodeMintedTokenIds(
+  logs: readonly ReceiptLog[],
+  contractAddress: string,
+  recipient: string
+): Array<{ tokenId: bigint; source: MintedTokenIdSource }> {
+  const contract = contractAddress.toLowerCase();
+  const to = recipient.toLowerCase();
+  const minted: Array<{ tokenId: bigint; source: MintedTokenIdSource }> = [];
+
+  for (const entry of logs) {
+    if (entry.address.toLowerCase() !== contract) continue;
+    const [topic0, ...indexed] = entry.topics.map(topic =>
+      topic.toLowerCase()
+    );
+
+    // ERC-20 Transfer shares the signature but has no indexed value
+    if (topic0 === ERC721_TRANSFER_TOPIC && indexed.length === 3) {
+      if (
+        topicToAddress(indexed[0]) === ZERO_ADDRESS &&
+        topicToAddress(indexed[1]) === to
+      ) {
+        minted.push({
+          tokenId: BigInt(indexed[2]),
+          source: 'ERC721_TRANSFER',
+        });
+      }
+      continue;
+    }
+
+    const isSingle = topic0 === ERC1155_TRANSFER_SINGLE_TOPIC;
+    const isBatch = topic0 === ERC1155_TRANSFER_BATCH_TOPIC;
+    if ((isSingle || isBatch) && indexed.length === 3) {
+      if (
+        topicToAddress(indexed[1]) !== ZERO_ADDRESS ||
+        topicToAddress(indexed[2]) !== to
+      ) {
+        continue;
+      }
+      if (isSingle) {
+        const [id] = dataWords(entry.data);
+        if (id !== undefined) {
+          minted.push({ tokenId: id, source: 'ERC1155_TRANSFER_SINGLE' });
+        }
+      } else {
+        for (const id of decodeBatchIds(entry.data)) {
+          minted.push({ tokenId: id, source: 'ERC1155_TRANSFER_BATCH' });
+        }
+      }
+    }
+  }
+
+  return minted;
+}
+
+/**
+ * The recipients of all mints by `contractAddress` in `logs`, in log order.
+ */
+export function decodeMintRecipients(
+  logs: readonly ReceiptLog[],
+  contractAddress: string
+): string[] {
+  const contract = contractAddress.toLowerCase();
+  const recipients: string[] = [];
+
+  for (const entry of logs) {
+    if (entry.address.toLowerCase() !== contract) continue;
+    const [topic0, ...indexed] = entry.topics.map(topic =>
+      topic.toLowerCase()
+    );
+    if (indexed.length !== 3) continue;
+
+    // ERC-721 Transfer(from, to, id); ERC-1155 Transfer*(operator, from, to)
+    const [from, to] =
+      topic0 === ERC721_TRANSFER_TOPIC
+        ? [indexed[0], indexed[1]]
+        : topic0 === ERC1155_TRANSFER_SINGLE_TOPIC ||
+            topic0 === ERC1155_TRANSFER_BATCH_TOPIC
+          ? [indexed[1], indexed[2]]
+          : [];
+    const recipient = topicToAddress(to);
+    if (topicToAddress(from) === ZERO_ADDRESS && recipient) {
+      recipients.push(recipient);
+    }
+  }
+
+  return recipients;
+}
+
+/**
+ * All token moves by `contractAddress` in `logs` (mints and burns
+ * included), in log order. ERC-1155 batches yield one entry per id.
+ */
+export function decodeTokenTransfers(
+  logs: readonly ReceiptLog[],
+  contractAddress: string
+): Array<{ from: string; to: string; tokenId: bigint }> {
+  const contract = contractAddress.toLowerCase();
+  const transfers: Array<{ from: string; to: string; tokenId: bigint }> = [];
+
+  for (const entry of logs) {
+    if (entry.address.toLowerCase() !== contract) continue;
+    const [topic0, ...indexed] = entry.topics.map(topic =>
+      topic.toLowerCase()
+    );
+    if (indexed.length !== 3) continue;
+
+    if (topic0 === ERC721_TRANSFER_TOPIC) {
+      transfers.push({
+        from: topicToAddress(indexed[0])!,
+        to: topicToAddress(indexed[1])!,
+        tokenId: BigInt(indexed[2]),
+      });
+      continue;
+    }
+    const ids =
+      topic0 === ERC1155_TRANSFER_SINGLE_TOPIC
+        ? dataWords(entry.data).slice(0, 1)
+        : topic0 === ERC1155_TRANSFER_BATCH_TOPIC
+          ? decodeBatchIds(entry.data)
+          : [];
+    for (const tokenId of ids) {
+      transfers.push({
+        from: topicToAddress(indexed[1])!,
+        to: topicToAddress(indexed[2])!,
+        tokenId,
+      });
+    }
+  }
+
+  return transfers;
+}
+
+/**
+ * The tokenId of a single-token mint. When the logs hold exactly one token
+ * id it wins; with none or several distinct ids the value returned by the
+ * simulated mint call is used instead, if there is one.
+ */
+export function extractMintedTokenId({
+  logs,
+  contractAddress,
+  recipient,
+  returnValue,
+}: {
+  logs: readonly ReceiptLog[];
+  contractAddress: string;
+  recipient: string;
+  returnValue?: unknown;
+}): MintedTokenIdResult {
+  const minted = decodeMintedTokenIds(logs, contractAddress, recipient);
+  const distinct = [...new Set(minted.map(m => m.tokenId.toString()))];
+
+  if (distinct.length === 1) {
+    return { tokenId: distinct[0], source: minted[0].source };
+  }
+
+  if (typeof returnValue === 'bigint' || typeof returnValue === 'number') {
+    return { tokenId: BigInt(returnValue).toString(), source: 'RETURN_VALUE' };
+  }
+
+  return {
+    tokenId: undefined,
+    reason:
+      distinct.length === 0
+        ? 'No mint event to the recipient in the receipt'
+        : `Receipt mints ${distinct.length} token ids to the recipient`,
+  };
+}
@@ -0,0 +1,448 @@
+import { randomBytes } from 'node:crypto';
+import type { ThirdwebClient } from 'thirdweb';
+import {
+  eth_getTransactionByHash,
+  eth_getTransactionReceipt,
+  getRpcClient,
+} from 'thirdweb/rpc';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  transitionDigitalIdStatus,
+  type DigitalIdActor,
+} from '../digital-id/digital-id-status.server.js';
+import {
+  chainConfigForBlockchain,
+  resolveMintChain,
+  type ChainConfig,
+} from './chain-registry.js';
+import {
+  getContractCapabilities,
+  UnsupportedMintContractError,
+} from './contract-capabilities.js';
+import { mintAdapterSelector } from './mint-adapters.js';
+import { assertWithinSpendingCap } from './mint-billing.js';
+import { decodeMintRecipients, extractMintedTokenId } from './mint-receipt.js';
+import { minterSignerForBrand } from './minter-signers.js';
+import {
+  minterTransactions,
+  type MinterResult,
+} from './minter-transactions.js';
+
+/**
+ * @file mint-vouchers.ts
+ * @description Claimable mints through EIP-712 vouchers.
+ *
+ * A digital ID that has no wallet to mint to (the Privy wallet could not be
+ * provisioned) gets a mint voucher signed by a minter account instead, and
+ * becomes CLAIMABLE. The voucher is not bound to a wallet: whoever holds it
+ * can mint the token to the wallet of their choice, either by sending
+ * `redeem` to the contract themselves and reporting the transaction
+ * (`recordVoucherRedemption`), or by letting us relay it
+ * (`redeemMintVoucher`). Either way the digital ID becomes CLAIMED.
+ *
+ * Vouchers are issued automatically with `MINT_VOUCHERS_ENABLED=true` and
+ * expire after `MINT_VOUCHER_TTL_DAYS` (default 30). The contract must
+ * implement `VOUCHER_REDEEM_METHOD`, verify the signature against the
+ * `MINT_VOUCHER_DOMAIN_NAME` domain (version "1") and reject reused
+ * voucher ids.
+ *
+ * A digital ID that is revoked or changes owner before it is claimed has its
+ * vouchers voided (`voidMintVouchers`), so we no longer hand them out, relay
+ * or record them. The contract cannot tell: until `validUntil`, whoever kept
+ * a copy of the signature can still mint the token to any wallet, which is
+ * why the TTL is kept short.
+ */
+
+export const VOUCHER_REDEEM_METHOD =
+  'function redeem(address to, (bytes32 voucherId, string uri, uint256 validUntil) voucher, bytes signature) returns (uint256 tokenId)';
+
+const VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: 'voucherId', type: 'bytes32' },
+    { name: 'uri', type: 'string' },
+    { name: 'validUntil', type: 'uint256' },
+  ],
+} as const;
+
+const VOUCHER_TTL_DAYS = parseInt(
+  process.env.MINT_VOUCHER_TTL_DAYS || '30',
+  10
+);
+const VOUCHER_DOMAIN_NAME =
+  process.env.MINT_VOUCHER_DOMAIN_NAME || 'DigitalIdVoucher';
+
+export function isClaimModeEnabled(): boolean {
+  return process.env.MINT_VOUCHERS_ENABLED === 'true';
+}
+
+/** A voucher cannot be issued, redeemed or recorded. */
+export class MintVoucherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MintVoucherError';
+  }
+}
+
+/** What a wallet needs to call `redeem` itself. */
+export interface MintVoucherPayload {
+  voucherId: string;
+  digitalIdId: string;
+  chainId: number;
+  contractAddress: string;
+  method: string;
+  voucher: { voucherId: string; uri: string; validUntil: string };
+  signature: string;
+  status: string;
+}
+
+export function toVoucherPayload(voucher: any): MintVoucherPayload {
+  return {
+    voucherId: voucher.id,
+    digitalIdId: voucher.digitalIdId,
+    chainId: voucher.chainId,
+    contractAddress: voucher.contractAddress,
+    method: VOUCHER_REDEEM_METHOD,
+    voucher: {
+      voucherId: voucher.id,
+      uri: voucher.uri,
+      validUntil: String(
+        Math.floor(new Date(voucher.validUntil).getTime() / 1000)
+      ),
+    },
+    signature: voucher.signature,
+    status: voucher.status,
+  };
+}
+
+/**
+ * Sign a mint voucher for a digital ID that is not minted yet and make it
+ * CLAIMABLE. A still valid voucher is returned as is; an expired one is
+ * replaced.
+ */
+export async function issueMintVoucher({
+  client,
+  digitalIdId,
+  metadataUrl,
+  actor,
+}: {
+  client: ThirdwebClient;
+  digitalIdId: string;
+  metadataUrl: string;
+  actor: DigitalIdActor;
+}) {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    include: {
+      coreProductVariant: {
+        select: { defaultSmartContractAddress: true, defaultChainId: true },
+      },
+    },
+  });
+  if (!digitalId) {
+    throw new MintVoucherError(`UniqueDigitalId not found: ${digitalIdId}`);
+  }
+  if (
+    !['CREATED', 'MINT_PENDING', 'MINT_FAILED', 'CLAIMABLE'].includes(
+      digitalId.status
+    )
+  ) {
+    throw new MintVoucherError(
+      `Digital ID ${digitalIdId} is ${digitalId.status}, it cannot get a voucher`
+    );
+  }
+
+  // @ts-ignore
+  const current = await prisma.mintVoucher.findFirst({
+    where: { digitalIdId, status: 'ISSUED', validUntil: { gt: new Date() } },
+  });
+  if (current) {
+    return current;
+  }
+
+  const contractAddress: string | undefined =
+    digitalId.contractAddress ||
+    digitalId.coreProductVariant?.defaultSmartContractAddress ||
+    process.env.DEFAULT_CONTRACT_ADDRESS ||
+    undefined;
+  if (!contractAddress) {
+    throw new MintVoucherError('No contract address found for the voucher');
+  }
+  const chainConfig = await resolveMintChain(digitalId);
+  const capabilities = await getContractCapabilities(
+    client,
+    chainConfig,
+    contractAddress
+  );
+  if (
+    !capabilities.selectors.includes(
+      mintAdapterSelector({ method: VOUCHER_REDEEM_METHOD })
+    )
+  ) {
+    throw new UnsupportedMintContractError(
+      contractAddress,
+      'it has no voucher redeem function'
+    );
+  }
+
+  const voucherId = `0x${randomBytes(32).toString('hex')}` as `0x${string}`;
+  const validUntil = new Date(
+    Date.now() + VOUCHER_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+  validUntil.setMilliseconds(0);
+  const { signature, address } = await minterTransactions.signTypedData({
+    client,
+    chainConfig,
+    signer: await minterSignerForBrand(digitalId.brand_3fa_id),
+    contractAddress,
+    digitalIdId,
+    typedData: {
+      domain: {
+        name: VOUCHER_DOMAIN_NAME,
+        version: '1',
+        chainId: chainConfig.id,
+        verifyingContract: contractAddress as `0x${string}`,
+      },
+      types: VOUCHER_TYPES,
+      primaryType: 'MintVoucher',
+      message: {
+        voucherId,
+        uri: metadataUrl,
+        validUntil: BigInt(validUntil.getTime() / 1000),
+      },
+    },
+  });
+
+  // @ts-ignore
+  await prisma.mintVoucher.updateMany({
+    where: { digitalIdId, status: 'ISSUED' },
+    data: { status: 'VOID' },
+  });
+  // @ts-ignore
+  const voucher = await prisma.mintVoucher.create({
+    data: {
+      id: voucherId,
+      digitalIdId,
+      chainId: chainConfig.id,
+      contractAddress: contractAddress.toLowerCase(),
+      uri: metadataUrl,
+      validUntil,
+      signerAddress: address.toLowerCase(),
+      signature,
+      status: 'ISSUED',
+    },
+  });
+
+  if (digitalId.status !== 'CLAIMABLE') {
+    await transitionDigitalIdStatus({
+      digitalIdId,
+      to: 'CLAIMABLE',
+      actor,
+      reason: 'Mint voucher issued',
+    });
+  }
+  console.log(`[Mint] Issued voucher ${voucherId} for ${digitalIdId}`);
+  return voucher;
+}
+
+/**
+ * Void the ISSUED vouchers of a digital ID that was revoked or passed to
+ * someone else before it was claimed. Only our records change: the
+ * signature stays valid on-chain until it expires.
+ */
+export async function voidMintVouchers(digitalIdId: string, reason: string) {
+  // @ts-ignore
+  const { count } = await prisma.mintVoucher.updateMany({
+    where: { digitalIdId, status: 'ISSUED' },
+    data: { status: 'VOID' },
+  });
+  if (count > 0) {
+    console.warn(
+      `[Mint] Voided ${count} voucher(s) of ${digitalIdId} (${reason}); they stay redeemable on-chain until they expire`
+    );
+  }
+  return count;
+}
+
+async function findRedeemableVoucher(voucherId: string) {
+  // @ts-ignore
+  const voucher = await prisma.mintVoucher.findUnique({
+    where: { id: voucherId.toLowerCase() },
+  });
+  if (!voucher || voucher.status !== 'ISSUED') {
+    throw new MintVoucherError(
+      voucher ? `Voucher is ${voucher.status}` : 'Voucher not found'
+    );
+  }
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: voucher.digitalIdId },
+    select: { status: true, brand_3fa_id: true },
+  });
+  if (digitalId?.status !== 'CLAIMABLE') {
+    throw new MintVoucherError(
+      `Digital ID is ${digitalId?.status ?? 'missing'}, not CLAIMABLE`
+    );
+  }
+  return { voucher, digitalId };
+}
+
+async function settleRedemption(
+  voucher: any,
+  chainConfig: ChainConfig,
+  result: Pick<MinterResult, 'transactionHash' | 'receipt' | 'returnValue'>,
+  recipient: string
+) {
+  const decoded = extractMintedTokenId({
+    logs: result.receipt.logs ?? [],
+    contractAddress: voucher.contractAddress,
+    recipient,
+    returnValue: result.returnValue,
+  });
+  // @ts-ignore
+  await prisma.mintVoucher.update({
+    where: { id: voucher.id },
+    data: {
+      status: 'REDEEMED',
+      redeemedTo: recipient.toLowerCase(),
+      transactionHash: result.transactionHash,
+      redeemedAt: new Date(),
+    },
+  });
+  return transitionDigitalIdStatus({
+    digitalIdId: voucher.digitalIdId,
+    to: 'CLAIMED',
+    actor: `customer:${recipient.toLowerCase()}`,
+    transactionHash: result.transactionHash,
+    reason: `Voucher ${voucher.id} redeemed`,
+    data: {
+      blockchain: String(chainConfig.id),
+      contractAddress: voucher.contractAddress,
+      transactionHash: result.transactionHash,
+      tokenId: decoded.tokenId ?? null,
+      privyWalletAddress: recipient,
+      mintedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Redeem a voucher on the customer's behalf: the minter sends `redeem` to
+ * `recipient` and pays the gas.
+ */
+export async function redeemMintVoucher({
+  client,
+  voucherId,
+  recipient,
+}: {
+  client: ThirdwebClient;
+  voucherId: string;
+  recipient: string;
+}) {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(recipient)) {
+    throw new MintVoucherError('recipient must be a wallet address');
+  }
+  const { voucher, digitalId } = await findRedeemableVoucher(voucherId);
+  if (new Date(voucher.validUntil) <= new Date()) {
+    throw new MintVoucherError('Voucher has expired');
+  }
+
+  const chainConfig = chainConfigForBlockchain(String(voucher.chainId));
+  const { voucher: message } = toVoucherPayload(voucher);
+  const result =
+    (await minterTransactions.resumeInFlight(
+      client,
+      chainConfig,
+      voucher.digitalIdId,
+      'MINT'
+    )) ??
+    (await minterTransactions.send({
+      client,
+      chainConfig,
+      contractAddress: voucher.contractAddress,
+      method: VOUCHER_REDEEM_METHOD,
+      params: [
+        recipient,
+        { ...message, validUntil: BigInt(message.validUntil) },
+        voucher.signature,
+      ],
+      purpose: 'MINT',
+      digitalIdId: voucher.digitalIdId,
+      signer: await minterSignerForBrand(digitalId.brand_3fa_id),
+      brandId: digitalId.brand_3fa_id,
+      approveCost: (estimate, tx) =>
+        assertWithinSpendingCap(
+          {
+            brandId: digitalId.brand_3fa_id,
+            chainConfig,
+            estimate,
+          },
+          tx
+        ),
+    }));
+
+  const redeemed = await settleRedemption(
+    voucher,
+    chainConfig,
+    result,
+    recipient
+  );
+  await minterTransactions.settle(result.trackedId, [voucher.digitalIdId]);
+  return redeemed;
+}
+
+/**
+ * Record a redemption the customer sent themselves. The transaction must
+ * call the voucher's contract with the voucher id and have minted a token.
+ */
+export async function recordVoucherRedemption({
+  client,
+  voucherId,
+  transactionHash,
+}: {
+  client: ThirdwebClient;
+  voucherId: string;
+  transactionHash: string;
+}) {
+  const { voucher } = await findRedeemableVoucher(voucherId);
+  const chainConfig = chainConfigForBlockchain(String(voucher.chainId));
+  const rpc = getRpcClient({ client, chain: chainConfig.chain });
+
+  const transaction = await eth_getTransactionByHash(rpc, {
+    hash: transactionHash as `0x${string}`,
+  }).catch(() => null);
+  if (
+    !transaction ||
+    transaction.to?.toLowerCase() !== voucher.contractAddress ||
+    !transaction.input.toLowerCase().includes(voucher.id.slice(2))
+  ) {
+    throw new MintVoucherError(
+      'Transaction does not redeem this voucher on its contract'
+    );
+  }
+
+  const receipt = await eth_getTransactionReceipt(rpc, {
+    hash: transactionHash as `0x${string}`,
+  }).catch(() => null);
+  if (!receipt) {
+    throw new MintVoucherError('Redeem transaction is not mined yet');
+  }
+  if (receipt.status !== 'success') {
+    throw new MintVoucherError('Redeem transaction reverted');
+  }
+  const [recipient] = decodeMintRecipients(
+    receipt.logs ?? [],
+    voucher.contractAddress
+  );
+  if (!recipient) {
+    throw new MintVoucherError('Redeem transaction did not mint a token');
+  }
+
+  return settleRedemption(
+    voucher,
+    chainConfig,
+    { transactionHash, receipt },
+    recipient
+  );
+}
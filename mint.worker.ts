@@ -0,0 +1,297 @@
+import {
+  DelayedError,
+  UnrecoverableError,
+  Worker,
+  type Job,
+} from 'bullmq';
+import { createThirdwebClient } from 'thirdweb';
+import prisma from '../db.server.js';
+import {
+  MINT_CONFIRMATION_POLL_MS,
+  MINT_PAUSED_RETRY_MS,
+  MINT_QUEUE_NAME,
+  enqueueMintConfirmation,
+  type MintJobData,
+} from '../queues/mintQueue.server.js';
+import redisConfig from '../config/redis.server.js';
+import {
+  mintDigitalIdBatch,
+  mintDigitalIdOnBase,
+} from '../services/token-minting/token-minting.service.js';
+import { minterTransactions } from '../services/token-minting/minter-transactions.js';
+import { getChainConfig } from '../services/token-minting/chain-registry.js';
+import { checkMintConfirmation } from '../services/token-minting/mint-confirmation.js';
+import { transitionDigitalIdStatus } from '../services/digital-id/digital-id-status.server.js';
+import { isRetryableMintError } from '../services/token-minting/mint-errors.js';
+import { orderReversalService } from '../services/order-reversal/order-reversal.service.server.js';
+import { log } from '../utils/logger.server.js';
+
+/**
+ * @file mint.worker.ts
+ * @description BullMQ Worker minting the token of one UniqueDigitalId per job.
+ *
+ * The digital ID stays MINT_PENDING while attempts remain; each failed
+ * attempt is counted in `mintAttempts` and its error kept in `mintLastError`.
+ * A permanent failure (see `isRetryableMintError`) or the last attempt
+ * moves it to MINT_FAILED. Such digital IDs can be re-enqueued with
+ * `DigitalIdService.requeueMints`.
+ *
+ * A mined mint leaves the digital ID MINT_SUBMITTED and queues a `confirm`
+ * job, which is delayed again until the chain's confirmation depth is
+ * reached. A reorged or reverted mint goes back to MINT_PENDING and gets a
+ * new mint job.
+ *
+ * A `batch` job mints several digital IDs in one transaction; whatever it
+ * cannot mint is re-queued as single mint jobs.
+ *
+ * A `revoke` job burns or returns the token of a revoked digital ID. Its
+ * `tokenRevocationStatus` stays PENDING while attempts remain and becomes
+ * FAILED after a permanent failure or the last attempt.
+ *
+ * While a brand's spending cap pauses its minting (see `mint-billing.ts`),
+ * mint jobs are delayed by `MINT_PAUSED_RETRY_MS` without using an attempt.
+ */
+
+if (!redisConfig.connection) {
+  console.error(
+    '🔴 Mint Worker: Redis connection details are not configured. Worker cannot start.'
+  );
+  process.exit(1);
+}
+
+const confirmProcessor = async (job: Job<MintJobData>, token?: string) => {
+  const { digitalIdId } = job.data;
+  const ctx = { jobId: job.id, digitalIdId };
+  const clientId = process.env.THIRDWEB_CLIENT_ID;
+  if (!clientId) {
+    throw new UnrecoverableError('THIRDWEB_CLIENT_ID is required for minting');
+  }
+
+  const outcome = await checkMintConfirmation(
+    createThirdwebClient({ clientId }),
+    digitalIdId
+  );
+  switch (outcome.state) {
+    case 'WAITING':
+      log.info(
+        ctx,
+        `${outcome.confirmations}/${outcome.required} confirmations, checking again later.`
+      );
+      await job.moveToDelayed(Date.now() + MINT_CONFIRMATION_POLL_MS, token);
+      throw new DelayedError();
+    case 'CONFIRMED':
+      log.info(ctx, `✅ Mint confirmed (${outcome.confirmations} blocks).`);
+      return outcome;
+    case 'REORGED':
+    case 'REVERTED':
+      log.warn(ctx, `${outcome.reason}; mint re-queued.`);
+      return outcome;
+    default:
+      log.info(ctx, `${outcome.reason}, nothing to confirm.`);
+      return outcome;
+  }
+};
+
+const batchProcessor = async (job: Job<MintJobData>) => {
+  const digitalIdIds = job.data.digitalIdIds ?? [job.data.digitalIdId];
+  const ctx = { jobId: job.id, digitalIdIds };
+
+  log.info(ctx, `Batch minting ${digitalIdIds.length} digital IDs`);
+  const result = await mintDigitalIdBatch(digitalIdIds);
+  log.info(
+    ctx,
+    `Batch done: ${result.submitted.length} submitted${
+      result.transactionHash ? ` (Tx: ${result.transactionHash})` : ''
+    }, ${result.queuedSingly.length} queued singly.`
+  );
+  return result;
+};
+
+const revokeProcessor = async (job: Job<MintJobData>) => {
+  const { digitalIdId } = job.data;
+  const attempt = job.attemptsMade + 1;
+  const maxAttempts = job.opts.attempts ?? 1;
+  const ctx = { jobId: job.id, digitalIdId, attempt };
+
+  try {
+    const outcome = await orderReversalService.applyTokenRevocation(digitalIdId);
+    if (outcome.state === 'SKIPPED') {
+      log.info(ctx, 'No token revocation pending, nothing to do.');
+    } else {
+      log.info(ctx, `✅ Token revoked. Tx: ${outcome.transactionHash}`);
+    }
+    return outcome;
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const retryable = isRetryableMintError(error);
+    if (!retryable || attempt >= maxAttempts) {
+      await orderReversalService.markTokenRevocationFailed(digitalIdId, message);
+    }
+    if (!retryable) {
+      log.error(ctx, `Permanent token revocation failure: ${message}`);
+      throw new UnrecoverableError(message);
+    }
+    log.warn(ctx, `Token revocation failed: ${message}`);
+    throw error;
+  }
+};
+
+const processor = async (job: Job<MintJobData>, token?: string) => {
+  if (job.data.phase === 'confirm') {
+    return confirmProcessor(job, token);
+  }
+  if (job.data.phase === 'batch') {
+    return batchProcessor(job);
+  }
+  if (job.data.phase === 'revoke') {
+    return revokeProcessor(job);
+  }
+
+  const { digitalIdId } = job.data;
+  const attempt = job.attemptsMade + 1;
+  const maxAttempts = job.opts.attempts ?? 1;
+  const ctx = { jobId: job.id, digitalIdId, attempt };
+
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    select: { status: true, transactionHash: true },
+  });
+  if (!digitalId) {
+    throw new UnrecoverableError(`UniqueDigitalId ${digitalIdId} not found.`);
+  }
+  if (digitalId.status === 'MINT_SUBMITTED' && digitalId.transactionHash) {
+    // Its confirmation job may not have been added (one per transaction)
+    await enqueueMintConfirmation(digitalIdId, digitalId.transactionHash);
+    log.info(ctx, 'Already mined, confirmation job ensured.');
+    return;
+  }
+  if (digitalId.status !== 'MINT_PENDING') {
+    // Minted by an earlier attempt, or revoked while waiting in the queue
+    log.info(ctx, `Status is ${digitalId.status}, nothing to do.`);
+    return;
+  }
+
+  // @ts-ignore
+  await prisma.uniqueDigitalId.update({
+    where: { id: digitalIdId },
+    data: { mintAttempts: { increment: 1 } },
+  });
+
+  log.info(ctx, `Minting - Attempt #${attempt} of ${maxAttempts}`);
+  const result = await mintDigitalIdOnBase(digitalIdId, {
+    markFailedOnError: false,
+  });
+  if (result.paused) {
+    log.warn(ctx, `Minting paused, trying again later: ${result.error}`);
+    // @ts-ignore
+    await prisma.uniqueDigitalId.update({
+      where: { id: digitalIdId },
+      data: {
+        mintAttempts: { decrement: 1 },
+        mintLastError: result.error?.substring(0, 900),
+      },
+    });
+    await job.moveToDelayed(Date.now() + MINT_PAUSED_RETRY_MS, token);
+    throw new DelayedError();
+  }
+  if (result.claimable) {
+    log.info(ctx, `No wallet, claimable with voucher ${result.voucherId}.`);
+    return { voucherId: result.voucherId };
+  }
+  if (result.success) {
+    log.info(ctx, `✅ Mined, awaiting confirmations. Tx: ${result.transactionHash}`);
+    return { transactionHash: result.transactionHash };
+  }
+
+  const error = result.error || 'Unknown mint error';
+  const final = !result.retryable || attempt >= maxAttempts;
+  if (final) {
+    await transitionDigitalIdStatus({
+      digitalIdId,
+      to: 'MINT_FAILED',
+      actor: 'system:mint-worker',
+      reason: error.substring(0, 900),
+      data: { mintLastError: error.substring(0, 900) },
+    }).catch(transitionError => {
+      // e.g. revoked while the mint was in flight
+      log.warn(ctx, `Not marking MINT_FAILED: ${transitionError.message}`);
+    });
+  } else {
+    // @ts-ignore
+    await prisma.uniqueDigitalId.update({
+      where: { id: digitalIdId },
+      data: { mintLastError: error.substring(0, 900) },
+    });
+  }
+
+  if (!result.retryable) {
+    log.error(ctx, `Permanent mint failure: ${error}`);
+    throw new UnrecoverableError(error);
+  }
+  log.warn(
+    ctx,
+    final ? `Mint failed on the last attempt: ${error}` : `Mint failed: ${error}`
+  );
+  throw new Error(error);
+};
+
+// --- Worker Initialization Function ---
+let workerInstance: Worker | null = null;
+
+export function startMintWorker() {
+  if (workerInstance) {
+    console.warn('Mint worker already initialized.');
+    return workerInstance;
+  }
+
+  console.log(
+    `⚙️ Initializing BullMQ worker for queue: '${MINT_QUEUE_NAME}'...`
+  );
+  workerInstance = new Worker<MintJobData>(MINT_QUEUE_NAME, processor, {
+    connection: redisConfig.connection,
+    // Nonces are allocated by the minter transaction manager, so concurrent
+    // jobs are safe; they are spread over the signer's minter accounts. Its
+    // nonce lock is per process: run one mint worker process per minter key
+    concurrency: parseInt(process.env.MINT_WORKER_CONCURRENCY || '1', 10),
+    stalledInterval: 30000,
+  });
+
+  workerInstance.on('failed', (job: Job<MintJobData> | undefined, err) => {
+    if (job) {
+      console.error(
+        `💀 [Mint Monitor | Job ${job.id}] Attempt ${job.attemptsMade} failed for digital ID ${job.data.digitalIdId}: ${err.message}`
+      );
+    } else {
+      console.error(`💀 [Mint Monitor] A job failed: ${err.message}`, err);
+    }
+  });
+
+  workerInstance.on('error', err => {
+    console.error(
+      `🔴 [Mint Monitor] Worker encountered an unexpected error:`,
+      err
+    );
+  });
+
+  // Settle minter transactions a previous process left in flight
+  if (process.env.THIRDWEB_CLIENT_ID) {
+    minterTransactions
+      .recover(
+        createThirdwebClient({ clientId: process.env.THIRDWEB_CLIENT_ID }),
+        getChainConfig
+      )
+      .catch(err => {
+        console.error('🔴 [Mint Monitor] Minter transaction recovery failed:', err);
+      });
+  }
+  // Token revocations whose job could not be added
+  orderReversalService.requeuePendingRevocations().catch(err => {
+    console.error('🔴 [Mint Monitor] Re-queueing token revocations failed:', err);
+  });
+
+  console.log(
+    `✅ BullMQ Worker for '${MINT_QUEUE_NAME}' initialized and listening for jobs.`
+  );
+  return workerInstance;
+}
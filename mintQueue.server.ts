@@ -0,0 +1,142 @@
+import { Queue } from 'bullmq';
+import redisConfig from '../config/redis.server.js';
+
+/**
+ * @file mintQueue.server.ts
+ * @description BullMQ queue for on-chain token mints, one job per
+ * UniqueDigitalId. Jobs are processed by `workers/mint.worker.ts`.
+ *
+ * Attempts and backoff are configurable through `MINT_MAX_ATTEMPTS`
+ * (default 5) and `MINT_BACKOFF_MS` (default 15000, doubled per attempt).
+ *
+ * Once a mint transaction is mined, a `confirm` job for the same digital ID
+ * checks it every `MINT_CONFIRMATION_POLL_MS` (default 15000) until it has
+ * enough confirmations (see `mint-confirmation.ts`). A `batch` job mints
+ * several digital IDs of an order at once (see `batch-minting.ts`). A
+ * `revoke` job burns or returns the token of a revoked digital ID (see
+ * `order-reversal.service.server.ts`), with the same attempts and backoff.
+ */
+
+export const MINT_QUEUE_NAME = 'token-minting';
+
+export interface MintJobData {
+  /** The first digital ID of a batch */
+  digitalIdId: string;
+  /** Defaults to 'mint' */
+  phase?: 'mint' | 'confirm' | 'batch' | 'revoke';
+  /** All digital IDs of a batch mint */
+  digitalIdIds?: string[];
+}
+
+export const MINT_MAX_ATTEMPTS = parseInt(
+  process.env.MINT_MAX_ATTEMPTS || '5',
+  10
+);
+export const MINT_BACKOFF_MS = parseInt(
+  process.env.MINT_BACKOFF_MS || '15000',
+  10
+);
+export const MINT_CONFIRMATION_POLL_MS = parseInt(
+  process.env.MINT_CONFIRMATION_POLL_MS || '15000',
+  10
+);
+/** How long a mint paused by its brand's spending cap waits */
+export const MINT_PAUSED_RETRY_MS = parseInt(
+  process.env.MINT_PAUSED_RETRY_MS || String(60 * 60 * 1000),
+  10
+);
+
+export const mintQueue = new Queue<MintJobData>(MINT_QUEUE_NAME, {
+  connection: redisConfig.connection,
+  defaultJobOptions: {
+    attempts: MINT_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: MINT_BACKOFF_MS },
+    removeOnComplete: 1000,
+    removeOnFail: 5000,
+  },
+});
+
+/**
+ * Add a mint job for a digital ID. The job id is derived from the digital ID,
+ * so a unit is never queued twice at the same time; a finished (completed or
+ * failed) job is replaced. Returns false when a job is already waiting,
+ * delayed or running.
+ */
+export async function enqueueMint(digitalIdId: string): Promise<boolean> {
+  const jobId = `mint-${digitalIdId}`;
+  const existing = await mintQueue.getJob(jobId);
+  if (existing) {
+    const state = await existing.getState();
+    if (state !== 'completed' && state !== 'failed') {
+      return false;
+    }
+    await existing.remove();
+  }
+
+  await mintQueue.add(jobId, { digitalIdId }, { jobId });
+  return true;
+}
+
+/**
+ * Add the confirmation job of a mined mint transaction. One job per
+ * transaction; it reschedules itself until the transaction is confirmed.
+ */
+export async function enqueueMintConfirmation(
+  digitalIdId: string,
+  transactionHash: string
+): Promise<void> {
+  const jobId = `confirm-${digitalIdId}-${transactionHash}`;
+  await mintQueue.add(
+    jobId,
+    { digitalIdId, phase: 'confirm' },
+    { jobId, delay: MINT_CONFIRMATION_POLL_MS }
+  );
+}
+
+/**
+ * Add a batch mint job for digital IDs of one order. It is not retried: a
+ * failed batch hands each digital ID to its own mint job. Like `enqueueMint`,
+ * a finished job with the same id is replaced and a queued one kept; returns
+ * false in that case.
+ */
+export async function enqueueMintBatch(
+  digitalIdIds: string[]
+): Promise<boolean> {
+  const jobId = `mint-batch-${digitalIdIds[0]}-${digitalIdIds.length}`;
+  const existing = await mintQueue.getJob(jobId);
+  if (existing) {
+    const state = await existing.getState();
+    if (state !== 'completed' && state !== 'failed') {
+      return false;
+    }
+    await existing.remove();
+  }
+
+  await mintQueue.add(
+    jobId,
+    { digitalIdId: digitalIdIds[0], digitalIdIds, phase: 'batch' },
+    { jobId, attempts: 1 }
+  );
+  return true;
+}
+
+/**
+ * Add the job that applies the token revocation policy of a revoked digital
+ * ID. Like `enqueueMint`, a finished job is replaced and a queued one kept.
+ */
+export async function enqueueTokenRevocation(
+  digitalIdId: string
+): Promise<boolean> {
+  const jobId = `revoke-${digitalIdId}`;
+  const existing = await mintQueue.getJob(jobId);
+  if (existing) {
+    const state = await existing.getState();
+    if (state !== 'completed' && state !== 'failed') {
+      return false;
+    }
+    await existing.remove();
+  }
+
+  await mintQueue.add(jobId, { digitalIdId, phase: 'revoke' }, { jobId });
+  return true;
+}
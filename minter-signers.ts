@@ -0,0 +1,335 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { ThirdwebClient } from 'thirdweb';
+import { eth_sendRawTransaction, getRpcClient } from 'thirdweb/rpc';
+import { keccak256 } from 'thirdweb/utils';
+import { privateKeyToAccount, type Account } from 'thirdweb/wallets';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { getChainConfig } from './chain-registry.js';
+import { MintError } from './mint-errors.js';
+
+/**
+ * @file minter-signers.ts
+ * @description Where the minter accounts come from.
+ *
+ * - `env`: private keys from `MINTER_PRIVATE_KEYS` (comma separated) or
+ *   `BASE_MINTER_PRIVATE_KEY`.
+ * - `keystore`: Ethereum keystore v3 files (`MINTER_KEYSTORE_PATHS`, comma
+ *   separated) decrypted with `MINTER_KEYSTORE_PASSWORD`. The keys are
+ *   encrypted at rest but still held in memory once loaded.
+ * - `remote`: an HTTP signer at `REMOTE_SIGNER_URL` (a KMS proxy or a local
+ *   stand-in); keys never enter this process. Requests carry
+ *   `Authorization: Bearer $REMOTE_SIGNER_TOKEN` and JSON bodies:
+ *     GET  /accounts          → { addresses: string[] }
+ *     POST /sign-transaction  { address, transaction } → { signedTransaction }
+ *     POST /sign-message      { address, message }     → { signature }
+ *     POST /sign-typed-data   { address, typedData }   → { signature }
+ *   Numbers in `transaction` and `typedData` are decimal strings.
+ *
+ * A brand picks its signer with `Brands3fa.minterSigner`; brands without one
+ * use `MINTER_SIGNER` (default `env`).
+ */
+
+export const MINTER_SIGNER_KINDS = ['env', 'keystore', 'remote'] as const;
+export type MinterSignerKind = (typeof MINTER_SIGNER_KINDS)[number];
+
+export interface MinterSigner {
+  readonly kind: MinterSignerKind;
+  /** The accounts this signer signs for, built for `client` */
+  loadAccounts(client: ThirdwebClient): Promise<Account[]>;
+}
+
+/** The signer is misconfigured; retrying does not help. */
+export class MinterSignerError extends MintError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'MinterSignerError';
+  }
+}
+
+const REMOTE_SIGNER_TIMEOUT_MS = parseInt(
+  process.env.REMOTE_SIGNER_TIMEOUT_MS || '10000',
+  10
+);
+
+function listEnv(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The configured minter private keys, normalized to 0x-prefixed hex.
+ * Throws when none is configured or one is malformed.
+ */
+export function minterPrivateKeys(): `0x${string}`[] {
+  const configured = listEnv('MINTER_PRIVATE_KEYS');
+  if (configured.length === 0) {
+    configured.push(...listEnv('BASE_MINTER_PRIVATE_KEY'));
+  }
+
+  if (configured.length === 0) {
+    throw new MinterSignerError(
+      'MINTER_PRIVATE_KEYS or BASE_MINTER_PRIVATE_KEY is required for minting'
+    );
+  }
+
+  return configured.map((key, index) => {
+    const hex = key.startsWith('0x') ? key.substring(2) : key;
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+      throw new MinterSignerError(
+        `Invalid private key format for minter key #${index + 1}. Expected a 64-character hex string, but got a key with length ${hex.length} after trimming.`
+      );
+    }
+    return `0x${hex}` as `0x${string}`;
+  });
+}
+
+/**
+ * Decrypt an Ethereum keystore v3 (scrypt or pbkdf2, aes-128-ctr).
+ */
+export function decryptKeystore(
+  keystore: any,
+  password: string
+): `0x${string}` {
+  const crypto = keystore?.crypto ?? keystore?.Crypto;
+  if (keystore?.version !== 3 || !crypto) {
+    throw new MinterSignerError('Unsupported keystore, version 3 expected');
+  }
+  const { kdf, kdfparams, cipher, cipherparams, ciphertext, mac } = crypto;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+
+  let derivedKey: Buffer;
+  if (kdf === 'scrypt') {
+    derivedKey = scryptSync(password, salt, kdfparams.dklen, {
+      N: kdfparams.n,
+      r: kdfparams.r,
+      p: kdfparams.p,
+      maxmem: 256 * kdfparams.n * kdfparams.r,
+    });
+  } else if (kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+    derivedKey = pbkdf2Sync(
+      password,
+      salt,
+      kdfparams.c,
+      kdfparams.dklen,
+      'sha256'
+    );
+  } else {
+    throw new MinterSignerError(`Unsupported keystore kdf ${kdf}`);
+  }
+  if (cipher !== 'aes-128-ctr') {
+    throw new MinterSignerError(`Unsupported keystore cipher ${cipher}`);
+  }
+
+  const encrypted = Buffer.from(ciphertext, 'hex');
+  const expectedMac = keccak256(
+    new Uint8Array(Buffer.concat([derivedKey.subarray(16, 32), encrypted]))
+  ).slice(2);
+  if (expectedMac !== String(mac).toLowerCase()) {
+    throw new MinterSignerError('Wrong keystore password');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(cipherparams.iv, 'hex')
+  );
+  const privateKey = Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final(),
+  ]);
+  return `0x${privateKey.toString('hex')}`;
+}
+
+function jsonNumbers(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (_key, item) =>
+      typeof item === 'bigint' ? item.toString() : item
+    )
+  );
+}
+
+class EnvKeySigner implements MinterSigner {
+  readonly kind = 'env';
+
+  async loadAccounts(client: ThirdwebClient) {
+    return minterPrivateKeys().map(privateKey =>
+      privateKeyToAccount({ client, privateKey })
+    );
+  }
+}
+
+class KeystoreSigner implements MinterSigner {
+  readonly kind = 'keystore';
+
+  async loadAccounts(client: ThirdwebClient) {
+    const paths = listEnv('MINTER_KEYSTORE_PATHS');
+    const password = process.env.MINTER_KEYSTORE_PASSWORD;
+    if (paths.length === 0 || password === undefined) {
+      throw new MinterSignerError(
+        'MINTER_KEYSTORE_PATHS and MINTER_KEYSTORE_PASSWORD are required for the keystore signer'
+      );
+    }
+
+    const accounts: Account[] = [];
+    for (const path of paths) {
+      const keystore = JSON.parse(await readFile(path, 'utf8'));
+      const account = privateKeyToAccount({
+        client,
+        privateKey: decryptKeystore(keystore, password),
+      });
+      if (
+        keystore.address &&
+        account.address.toLowerCase().slice(2) !==
+          String(keystore.address).toLowerCase().replace(/^0x/, '')
+      ) {
+        throw new MinterSignerError(
+          `Keystore ${path} decrypts to ${account.address}, not ${keystore.address}`
+        );
+      }
+      accounts.push(account);
+    }
+    return accounts;
+  }
+}
+
+class RemoteSigner implements MinterSigner {
+  readonly kind = 'remote';
+
+  private async request<T>(path: string, body?: unknown): Promise<T> {
+    const url = process.env.REMOTE_SIGNER_URL?.replace(/\/$/, '');
+    if (!url) {
+      throw new MinterSignerError(
+        'REMOTE_SIGNER_URL is required for the remote signer'
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${url}${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.REMOTE_SIGNER_TOKEN
+            ? { Authorization: `Bearer ${process.env.REMOTE_SIGNER_TOKEN}` }
+            : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(REMOTE_SIGNER_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw new MintError(`Remote signer unreachable: ${error.message}`, true);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // Refusals are final, outages are retried
+      throw new MintError(
+        `Remote signer ${path} failed with ${response.status}: ${detail}`,
+        response.status >= 500 || response.status === 429
+      );
+    }
+    return (await response.json()) as T;
+  }
+
+  private account(client: ThirdwebClient, address: string): Account {
+    return {
+      address: address as `0x${string}`,
+      sendTransaction: async (transaction: any) => {
+        const { signedTransaction } = await this.request<{
+          signedTransaction: `0x${string}`;
+        }>('/sign-transaction', {
+          address,
+          transaction: jsonNumbers(transaction),
+        });
+        const rpc = getRpcClient({
+          client,
+          chain: getChainConfig(transaction.chainId).chain,
+        });
+        const transactionHash = await eth_sendRawTransaction(
+          rpc,
+          signedTransaction
+        );
+        return { transactionHash };
+      },
+      signMessage: async ({ message }: { message: unknown }) => {
+        const { signature } = await this.request<{
+          signature: `0x${string}`;
+        }>('/sign-message', { address, message });
+        return signature;
+      },
+      signTypedData: async (typedData: unknown) => {
+        const { signature } = await this.request<{
+          signature: `0x${string}`;
+        }>('/sign-typed-data', {
+          address,
+          typedData: jsonNumbers(typedData),
+        });
+        return signature;
+      },
+    } as Account;
+  }
+
+  async loadAccounts(client: ThirdwebClient) {
+    const { addresses } = await this.request<{ addresses: string[] }>(
+      '/accounts'
+    );
+    if (!addresses?.length) {
+      throw new MinterSignerError('Remote signer has no accounts');
+    }
+    return addresses.map(address => this.account(client, address));
+  }
+}
+
+const SIGNERS: Record<MinterSignerKind, MinterSigner> = {
+  env: new EnvKeySigner(),
+  keystore: new KeystoreSigner(),
+  remote: new RemoteSigner(),
+};
+
+function isMinterSignerKind(value: unknown): value is MinterSignerKind {
+  return (MINTER_SIGNER_KINDS as readonly unknown[]).includes(value);
+}
+
+export function getMinterSigner(kind: string): MinterSigner {
+  if (!isMinterSignerKind(kind)) {
+    throw new MinterSignerError(
+      `Unknown minter signer "${kind}" (known: ${MINTER_SIGNER_KINDS.join(', ')})`
+    );
+  }
+  return SIGNERS[kind];
+}
+
+export function defaultMinterSigner(): MinterSigner {
+  return getMinterSigner(process.env.MINTER_SIGNER?.trim() || 'env');
+}
+
+/** The brand's signer, else the default one. */
+export async function minterSignerForBrand(
+  brandId: string | null | undefined
+): Promise<MinterSigner> {
+  if (brandId) {
+    // @ts-ignore
+    const brand = await prisma.brands3fa.findUnique({
+      where: { id: brandId },
+      select: { minterSigner: true },
+    });
+    if (brand?.minterSigner) {
+      return getMinterSigner(brand.minterSigner);
+    }
+  }
+  return defaultMinterSigner();
+}
+
+/** Whether any signer has the settings it needs to load. */
+export function hasMinterSigner(): boolean {
+  return Boolean(
+    process.env.MINTER_PRIVATE_KEYS ||
+      process.env.BASE_MINTER_PRIVATE_KEY ||
+      (process.env.MINTER_KEYSTORE_PATHS &&
+        process.env.MINTER_KEYSTORE_PASSWORD !== undefined) ||
+      process.env.REMOTE_SIGNER_URL
+  );
+}
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+
+/**
+ * Runs the minter transaction manager against a local `anvil` node and the
+ * app database. Skipped unless `DEVNET_RPC_URL` is set:
+ *
+ *   anvil &
+ *   DEVNET_RPC_URL=http://127.0.0.1:8545 npx tsx --test minter-transactions.devnet.test.ts
+ *
+ * Transactions call `touch()` on an address without code, so no contract
+ * has to be deployed. The manager reads its timings when it is loaded, so
+ * the environment is set before the dynamic imports.
+ */
+
+const RPC_URL = process.env.DEVNET_RPC_URL;
+// anvil's first default account
+const DEVNET_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TARGET = '0x000000000000000000000000000000000000dEaD';
+const TOUCH = 'function touch()';
+
+async function rpc(method: string, params: unknown[] = []) {
+  const response = await fetch(RPC_URL!, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(`${method}: ${body.error.message}`);
+  }
+  return body.result;
+}
+
+async function until(check: () => Promise<boolean>, timeoutMs = 10_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out');
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+describe('minter transactions on a devnet', { skip: !RPC_URL }, () => {
+  let prisma: any;
+  let client: any;
+  let chainConfig: any;
+  let MinterTransactionManager: any;
+  const runId = `devnet-${Date.now()}`;
+  let sequence = 0;
+  const nextDigitalIdId = () => `${runId}-${sequence++}`;
+
+  before(async () => {
+    Object.assign(process.env, {
+      CHAIN_RPC_31337: RPC_URL,
+      MINTER_SIGNER: 'env',
+      MINTER_PRIVATE_KEYS: DEVNET_KEY,
+      MINTER_POLL_MS: '100',
+      MINTER_STUCK_AFTER_MS: '1000',
+      MINTER_RECEIPT_TIMEOUT_MS: '4000',
+    });
+    const { createThirdwebClient } = await import('thirdweb');
+    // @ts-ignore
+    prisma = (await import('../../db.server.js')).default;
+    ({ MinterTransactionManager } = await import('./minter-transactions.js'));
+    const { getChainConfig } = await import('./chain-registry.js');
+    client = createThirdwebClient({ clientId: 'devnet' });
+    chainConfig = getChainConfig(31337);
+    await rpc('evm_setAutomine', [true]);
+  });
+
+  after(async () => {
+    if (!prisma) {
+      return;
+    }
+    await rpc('evm_setAutomine', [true]);
+    // @ts-ignore
+    await prisma.minterTransaction.deleteMany({
+      where: { digitalIdId: { startsWith: runId } },
+    });
+    // @ts-ignore
+    await prisma.minterSignatureAudit.deleteMany({
+      where: { digitalIdId: { startsWith: runId } },
+    });
+  });
+
+  const touch = (manager: any, digitalIdId: string) =>
+    manager.send({
+      client,
+      chainConfig,
+      contractAddress: TARGET,
+      method: TOUCH,
+      params: [],
+      purpose: 'MINT',
+      digitalIdId,
+    });
+
+  test('concurrent sends get consecutive nonces', async () => {
+    const manager = new MinterTransactionManager();
+    const results = await Promise.all(
+      [0, 1, 2].map(() => touch(manager, nextDigitalIdId()))
+    );
+
+    // @ts-ignore
+    const rows = await prisma.minterTransaction.findMany({
+      where: { id: { in: results.map((result: any) => result.trackedId) } },
+      orderBy: { nonce: 'asc' },
+    });
+    assert.equal(rows.length, 3);
+    assert.deepEqual(
+      rows.map((row: any) => row.nonce - rows[0].nonce),
+      [0, 1, 2]
+    );
+    for (const row of rows) {
+      assert.equal(row.status, 'MINED');
+      assert.equal(row.hashes.length, 1);
+    }
+  });
+
+  test('a stuck transaction is re-sent with higher fees', async () => {
+    const manager = new MinterTransactionManager();
+    const digitalIdId = nextDigitalIdId();
+    await rpc('evm_setAutomine', [false]);
+    try {
+      const sending = touch(manager, digitalIdId);
+
+      // Tracked while pending, then bumped once it counts as stuck
+      let row: any;
+      await until(async () => {
+        // @ts-ignore
+        row = await prisma.minterTransaction.findFirst({
+          where: { digitalIdId },
+        });
+        return row?.hashes.length >= 2;
+      });
+      assert.equal(row.status, 'PENDING');
+      assert.ok(row.feeBumps >= 1);
+
+      await rpc('evm_mine');
+      const result = await sending;
+      // @ts-ignore
+      const mined = await prisma.minterTransaction.findUnique({
+        where: { id: result.trackedId },
+      });
+      assert.equal(mined.status, 'MINED');
+      assert.ok(mined.hashes.includes(result.transactionHash));
+    } finally {
+      await rpc('evm_setAutomine', [true]);
+    }
+  });
+
+  test('a restarted worker resumes instead of sending again', async () => {
+    const digitalIdId = nextDigitalIdId();
+    await rpc('evm_setAutomine', [false]);
+    try {
+      // The first process gives up waiting (and is assumed to die)
+      await assert.rejects(touch(new MinterTransactionManager(), digitalIdId), {
+        name: 'MintError',
+        message: /still pending/,
+      });
+      await rpc('evm_mine');
+    } finally {
+      await rpc('evm_setAutomine', [true]);
+    }
+
+    const restarted = new MinterTransactionManager();
+    await restarted.recover(client, () => chainConfig);
+    const resumed = await restarted.resumeInFlight(
+      client,
+      chainConfig,
+      digitalIdId,
+      'MINT'
+    );
+    assert.ok(resumed);
+    assert.equal(resumed.receipt.status, 'success');
+
+    // @ts-ignore
+    const rows = await prisma.minterTransaction.findMany({
+      where: { digitalIdId },
+    });
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].id, resumed.trackedId);
+    assert.equal(rows[0].status, 'MINED');
+
+    // Until it is settled the mined transaction is returned again
+    await restarted.settle(resumed.trackedId, [digitalIdId]);
+    assert.equal(
+      await restarted.resumeInFlight(client, chainConfig, digitalIdId, 'MINT'),
+      null
+    );
+  });
+});
@@ -0,0 +1,865 @@
+import {
+  encode,
+  estimateGas,
+  getContract,
+  prepareContractCall,
+  sendTransaction,
+  simulateTransaction,
+  type ThirdwebClient,
+} from 'thirdweb';
+import {
+  eth_getBlockByNumber,
+  eth_getTransactionCount,
+  eth_getTransactionReceipt,
+  eth_maxPriorityFeePerGas,
+  getRpcClient,
+} from 'thirdweb/rpc';
+import { hashTypedData, keccak256 } from 'thirdweb/utils';
+import type { Account } from 'thirdweb/wallets';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { MintError, nullIfNotFound } from './mint-errors.js';
+import type { ChainConfig } from './chain-registry.js';
+import {
+  defaultMinterSigner,
+  getMinterSigner,
+  type MinterSigner,
+} from './minter-signers.js';
+
+/**
+ * @file minter-transactions.ts
+ * @description Sends every minter transaction (mint, burn, transfer) with a
+ * nonce we allocate ourselves, so concurrent mint jobs never collide.
+ *
+ * - Nonces are handed out per (chain, minter address) under an in-process
+ *   lock and only consumed once the RPC accepted the transaction, so there
+ *   are no gaps. The first use after a start reads the pending nonce from
+ *   the RPC, and `recover` settles what the previous process left in flight.
+ *   The lock does not reach other processes: each minter key must be used
+ *   by one mint worker process only (any concurrency within it is fine).
+ * - Each transaction is persisted as a `MinterTransaction` with its nonce
+ *   before it is broadcast, then with all the hashes sent for that nonce.
+ *   One that is not mined within `MINTER_STUCK_AFTER_MS` is re-sent with the
+ *   same nonce and fees bumped by `MINTER_FEE_BUMP_PERCENT`, at most
+ *   `MINTER_MAX_FEE_BUMPS` times. If the process died before the hash was
+ *   recorded and the nonce got used, the outcome is unknown
+ *   (`UNKNOWN_OUTCOME`) and the digital ID is left for a person to check.
+ * - A job retried while its transaction is pending, or mined but not yet
+ *   settled by the caller (`settle`), resumes it (`resumeInFlight`) instead
+ *   of sending a second one.
+ * - Transactions are spread over the accounts of the call's signer (see
+ *   `minter-signers.ts`). Every signature request is written to
+ *   `MinterSignatureAudit` with the digital IDs, contract and calldata hash.
+ */
+
+export type MinterPurpose = 'MINT' | 'BURN' | 'TRANSFER';
+
+export interface MinterCall {
+  client: ThirdwebClient;
+  chainConfig: ChainConfig;
+  contractAddress: string;
+  method: string;
+  params: unknown[];
+  purpose: MinterPurpose;
+  digitalIdId?: string;
+  /** All digital IDs of a batch mint */
+  digitalIdIds?: string[];
+  /** Defaults to `defaultMinterSigner()` */
+  signer?: MinterSigner;
+  /** The brand the cost is billed to, recorded with the estimate */
+  brandId?: string | null;
+  /**
+   * Called with the estimated cost before the transaction is sent; throw to
+   * keep it from being sent. Runs in the database transaction `tx` that
+   * records the `MinterTransaction`.
+   */
+  approveCost?: (
+    estimate: { gas: bigint; costWei: bigint },
+    tx: any
+  ) => Promise<void>;
+}
+
+export interface MinterResult {
+  /** The `MinterTransaction`, to `settle` once the outcome is recorded */
+  trackedId: string;
+  transactionHash: string;
+  receipt: Awaited<ReturnType<typeof eth_getTransactionReceipt>>;
+  /** Simulated return value of the call, when it was sent by this process */
+  returnValue?: unknown;
+  from: string;
+  /** Set when the transaction was a batch mint */
+  digitalIdIds?: string[];
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface NonceState {
+  next: number | null;
+  lock: Promise<unknown>;
+  inFlight: number;
+}
+
+const POLL_MS = parseInt(process.env.MINTER_POLL_MS || '3000', 10);
+const STUCK_AFTER_MS = parseInt(
+  process.env.MINTER_STUCK_AFTER_MS || '60000',
+  10
+);
+const RECEIPT_TIMEOUT_MS = parseInt(
+  process.env.MINTER_RECEIPT_TIMEOUT_MS || String(10 * 60 * 1000),
+  10
+);
+const MAX_FEE_BUMPS = parseInt(process.env.MINTER_MAX_FEE_BUMPS || '3', 10);
+// Nodes reject replacements below +10%
+const FEE_BUMP_PERCENT = BigInt(
+  Math.max(10, parseInt(process.env.MINTER_FEE_BUMP_PERCENT || '25', 10))
+);
+
+const NONCE_CONFLICT =
+  /nonce too low|already known|nonce has already been used|replacement transaction underpriced/i;
+
+function jsonSafe(params: unknown[]): unknown[] {
+  return JSON.parse(
+    JSON.stringify(params, (_key, value) =>
+      typeof value === 'bigint' ? { $bigint: value.toString() } : value
+    )
+  );
+}
+
+function fromJsonSafe(params: unknown[]): unknown[] {
+  return JSON.parse(JSON.stringify(params), (_key, value) =>
+    value && typeof value === 'object' && '$bigint' in value
+      ? BigInt(value.$bigint)
+      : value
+  );
+}
+
+/** The nonce was used but we never learned which transaction used it. */
+function unknownOutcomeError(tracked: {
+  nonce: number;
+  fromAddress: string;
+}): MintError {
+  return new MintError(
+    `Nonce ${tracked.nonce} of ${tracked.fromAddress} was used but its transaction hash was never recorded; check that transaction before sending again`,
+    false
+  );
+}
+
+/**
+ * The receipt of whichever of `hashes` was mined, if any. RPC errors are
+ * thrown rather than read as "not mined".
+ */
+async function findReceipt(
+  rpc: ReturnType<typeof getRpcClient>,
+  hashes: readonly string[]
+) {
+  for (const hash of hashes) {
+    const receipt = await eth_getTransactionReceipt(rpc, {
+      hash: hash as `0x${string}`,
+    }).catch(nullIfNotFound);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+function maxBigint(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class MinterTransactionManager {
+  private accounts = new Map<string, Promise<Account[]>>();
+  private nonces = new Map<string, NonceState>();
+  private roundRobin = 0;
+
+  /** The signer's accounts, loaded once; a failed load is tried again. */
+  private getAccounts(
+    client: ThirdwebClient,
+    signer: MinterSigner
+  ): Promise<Account[]> {
+    let accounts = this.accounts.get(signer.kind);
+    if (!accounts) {
+      accounts = signer.loadAccounts(client);
+      this.accounts.set(signer.kind, accounts);
+      accounts.catch(() => this.accounts.delete(signer.kind));
+    }
+    return accounts;
+  }
+
+  private nonceState(chainId: number, address: string): NonceState {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    let state = this.nonces.get(key);
+    if (!state) {
+      state = { next: null, lock: Promise.resolve(), inFlight: 0 };
+      this.nonces.set(key, state);
+    }
+    return state;
+  }
+
+  /** The minter with the fewest transactions in flight on this chain. */
+  private async pickAccount(
+    client: ThirdwebClient,
+    signer: MinterSigner,
+    chainId: number
+  ): Promise<Account> {
+    const accounts = await this.getAccounts(client, signer);
+    const start = this.roundRobin++ % accounts.length;
+    let best = accounts[start];
+    for (let i = 1; i < accounts.length; i++) {
+      const candidate = accounts[(start + i) % accounts.length];
+      if (
+        this.nonceState(chainId, candidate.address).inFlight <
+        this.nonceState(chainId, best.address).inFlight
+      ) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Run `send` with the next nonce of `address` while holding its lock. The
+   * nonce is consumed only if `send` resolves. On a nonce conflict the state
+   * is re-read from the RPC and `send` is tried once more.
+   */
+  private async withNonce<T>(
+    client: ThirdwebClient,
+    chainConfig: ChainConfig,
+    address: string,
+    send: (nonce: number) => Promise<T>
+  ): Promise<T> {
+    const state = this.nonceState(chainConfig.id, address);
+    const run = state.lock.then(async () => {
+      if (state.next === null) {
+        state.next = await this.recoverNonce(client, chainConfig, address);
+      }
+      try {
+        const result = await send(state.next);
+        state.next++;
+        return result;
+      } catch (error: any) {
+        if (!NONCE_CONFLICT.test(error?.message || '')) {
+          throw error;
+        }
+        console.warn(
+          `[Minter] Nonce ${state.next} of ${address} conflicted, resyncing: ${error.message}`
+        );
+        state.next = await this.recoverNonce(client, chainConfig, address);
+        const result = await send(state.next);
+        state.next++;
+        return result;
+      }
+    });
+    // Later callers wait for this one whether it succeeds or not
+    state.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * The next nonce to use, from the RPC's pending transaction count. A
+   * tracked transaction the node has forgotten is not waited for: its nonce
+   * is reused and the tracked one ends up DROPPED.
+   */
+  private async recoverNonce(
+    client: ThirdwebClient,
+    chainConfig: ChainConfig,
+    address: string
+  ): Promise<number> {
+    const rpc = getRpcClient({ client, chain: chainConfig.chain });
+    const next = Number(
+      await eth_getTransactionCount(rpc, { address, blockTag: 'pending' })
+    );
+    console.log(
+      `[Minter] Nonce of ${address} on ${chainConfig.name} resumes at ${next}`
+    );
+    return next;
+  }
+
+  private async currentFees(
+    client: ThirdwebClient,
+    chainConfig: ChainConfig
+  ): Promise<Fees> {
+    const rpc = getRpcClient({ client, chain: chainConfig.chain });
+    const [block, priority] = await Promise.all([
+      eth_getBlockByNumber(rpc, { blockTag: 'latest' }),
+      eth_maxPriorityFeePerGas(rpc),
+    ]);
+    const baseFee = block.baseFeePerGas ?? 0n;
+    return {
+      maxFeePerGas: baseFee * 2n + priority,
+      maxPriorityFeePerGas: priority,
+    };
+  }
+
+  private async sendWithNonce(
+    call: MinterCall,
+    account: Account,
+    nonce: number,
+    fees: Fees
+  ): Promise<string> {
+    const contract = getContract({
+      client: call.client,
+      chain: call.chainConfig.chain,
+      address: call.contractAddress,
+    });
+    const transaction = prepareContractCall({
+      contract,
+      method: call.method as any,
+      params: call.params as any,
+      nonce,
+      ...fees,
+    });
+
+    // @ts-ignore
+    const audit = await prisma.minterSignatureAudit.create({
+      data: {
+        signer: (call.signer ?? defaultMinterSigner()).kind,
+        address: account.address.toLowerCase(),
+        chainId: call.chainConfig.id,
+        purpose: call.purpose,
+        digitalIdId: call.digitalIdId ?? null,
+        digitalIdIds: call.digitalIdIds ?? [],
+        contractAddress: call.contractAddress.toLowerCase(),
+        method: call.method,
+        calldataHash: keccak256(await encode(transaction)),
+        nonce,
+        status: 'REQUESTED',
+      },
+    });
+    try {
+      const sent = await sendTransaction({ transaction, account });
+      // @ts-ignore
+      await prisma.minterSignatureAudit.update({
+        where: { id: audit.id },
+        data: { status: 'SIGNED', transactionHash: sent.transactionHash },
+      });
+      return sent.transactionHash;
+    } catch (error: any) {
+      // @ts-ignore
+      await prisma.minterSignatureAudit.update({
+        where: { id: audit.id },
+        data: {
+          status: 'FAILED',
+          error: String(error?.message || error).substring(0, 900),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sign EIP-712 typed data (e.g. a mint voucher) with an account of
+   * `signer`, recording the request in the signature audit log.
+   */
+  async signTypedData({
+    client,
+    chainConfig,
+    signer = defaultMinterSigner(),
+    contractAddress,
+    digitalIdId,
+    typedData,
+  }: {
+    client: ThirdwebClient;
+    chainConfig: ChainConfig;
+    signer?: MinterSigner;
+    contractAddress: string;
+    digitalIdId?: string;
+    typedData: Parameters<typeof hashTypedData>[0];
+  }): Promise<{ signature: `0x${string}`; address: string }> {
+    const account = await this.pickAccount(client, signer, chainConfig.id);
+    // @ts-ignore
+    const audit = await prisma.minterSignatureAudit.create({
+      data: {
+        signer: signer.kind,
+        address: account.address.toLowerCase(),
+        chainId: chainConfig.id,
+        purpose: 'VOUCHER',
+        digitalIdId: digitalIdId ?? null,
+        digitalIdIds: [],
+        contractAddress: contractAddress.toLowerCase(),
+        method: String(typedData.primaryType),
+        calldataHash: hashTypedData(typedData),
+        status: 'REQUESTED',
+      },
+    });
+    try {
+      const signature = await account.signTypedData(typedData as any);
+      // @ts-ignore
+      await prisma.minterSignatureAudit.update({
+        where: { id: audit.id },
+        data: { status: 'SIGNED' },
+      });
+      return { signature, address: account.address };
+    } catch (error: any) {
+      // @ts-ignore
+      await prisma.minterSignatureAudit.update({
+        where: { id: audit.id },
+        data: {
+          status: 'FAILED',
+          error: String(error?.message || error).substring(0, 900),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Simulate `call`, send it from a pool minter with a managed nonce and wait
+   * for it to be mined, speeding it up while it is stuck. Throws a retryable
+   * `MintError` if it is still pending after `MINTER_RECEIPT_TIMEOUT_MS`; the
+   * transaction stays tracked and `resumeInFlight` picks it up again.
+   */
+  async send(call: MinterCall): Promise<MinterResult> {
+    const { client, chainConfig } = call;
+    const signer = call.signer ?? defaultMinterSigner();
+    const account = await this.pickAccount(client, signer, chainConfig.id);
+    const contract = getContract({
+      client,
+      chain: chainConfig.chain,
+      address: call.contractAddress,
+    });
+    const prepared = prepareContractCall({
+      contract,
+      method: call.method as any,
+      params: call.params as any,
+    });
+    const returnValue = await simulateTransaction({
+      transaction: prepared,
+      account,
+    });
+
+    const fees = await this.currentFees(client, chainConfig);
+    let estimate: { gas: bigint; costWei: bigint } | null = null;
+    if (call.approveCost) {
+      const gas = await estimateGas({
+        transaction: prepared,
+        from: account.address,
+      });
+      // An upper bound: the base fee actually paid is usually lower
+      estimate = { gas, costWei: gas * fees.maxFeePerGas };
+    }
+    const state = this.nonceState(chainConfig.id, account.address);
+    const { nonce, tracked, transactionHash } = await this.withNonce(
+      client,
+      chainConfig,
+      account.address,
+      async nonce => {
+        // Tracked before it is broadcast, so a crash cannot lose it, and
+        // with its cost approved in the same database transaction
+        // @ts-ignore
+        const tracked = await prisma.$transaction(async (tx: any) => {
+          if (call.approveCost && estimate) {
+            await call.approveCost(estimate, tx);
+          }
+          return tx.minterTransaction.create({
+            data: {
+              chainId: chainConfig.id,
+              fromAddress: account.address.toLowerCase(),
+              signer: signer.kind,
+              nonce,
+              purpose: call.purpose,
+              digitalIdId: call.digitalIdId ?? null,
+              digitalIdIds: call.digitalIdIds ?? [],
+              contractAddress: call.contractAddress,
+              method: call.method,
+              params: jsonSafe(call.params),
+              hashes: [],
+              settledDigitalIdIds: [],
+              status: 'PENDING',
+              maxFeePerGas: fees.maxFeePerGas.toString(),
+              maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+              feeBumps: 0,
+              lastSentAt: new Date(),
+              brand_3fa_id: call.brandId ?? null,
+              estimatedCostWei: estimate?.costWei.toString() ?? null,
+            },
+          });
+        });
+        try {
+          const transactionHash = await this.sendWithNonce(
+            call,
+            account,
+            nonce,
+            fees
+          );
+          return { nonce, tracked, transactionHash };
+        } catch (error) {
+          // Rejected by the signer or the RPC; the nonce is not consumed
+          // @ts-ignore
+          await prisma.minterTransaction.update({
+            where: { id: tracked.id },
+            data: { status: 'DROPPED' },
+          });
+          throw error;
+        }
+      }
+    );
+    tracked.hashes = [transactionHash];
+    // @ts-ignore
+    await prisma.minterTransaction.update({
+      where: { id: tracked.id },
+      data: { hashes: tracked.hashes },
+    });
+    console.log(
+      `[Minter] ${call.purpose} sent from ${account.address} nonce ${nonce}: ${transactionHash}`
+    );
+
+    state.inFlight++;
+    try {
+      const receipt = await this.waitForTracked(
+        tracked,
+        { ...call, signer },
+        account
+      );
+      return {
+        trackedId: tracked.id,
+        transactionHash: receipt.transactionHash,
+        receipt,
+        returnValue,
+        from: account.address,
+        ...(call.digitalIdIds?.length
+          ? { digitalIdIds: call.digitalIdIds }
+          : {}),
+      };
+    } finally {
+      state.inFlight--;
+    }
+  }
+
+  /**
+   * Pick up a transaction this manager sent for `digitalIdId` and `purpose`,
+   * including a batch mint the digital ID is part of: wait for it while it
+   * is pending, or return it when it was mined but its outcome was never
+   * settled for this digital ID (the process died, or recording it failed).
+   * The receipt of a mined one is read from the chain again. Returns null
+   * when there is none, so the caller may send a new transaction.
+   */
+  async resumeInFlight(
+    client: ThirdwebClient,
+    chainConfig: ChainConfig,
+    digitalIdId: string,
+    purpose: MinterPurpose
+  ): Promise<MinterResult | null> {
+    // @ts-ignore
+    const tracked = await prisma.minterTransaction.findFirst({
+      where: {
+        OR: [{ digitalIdId }, { digitalIdIds: { has: digitalIdId } }],
+        purpose,
+        chainId: chainConfig.id,
+        AND: [
+          {
+            OR: [
+              { status: { in: ['PENDING', 'UNKNOWN_OUTCOME'] } },
+              {
+                status: 'MINED',
+                NOT: { settledDigitalIdIds: { has: digitalIdId } },
+              },
+            ],
+          },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!tracked) {
+      return null;
+    }
+    if (tracked.status === 'UNKNOWN_OUTCOME') {
+      throw unknownOutcomeError(tracked);
+    }
+
+    const resumed = (receipt: MinterResult['receipt']): MinterResult => ({
+      trackedId: tracked.id,
+      transactionHash: receipt.transactionHash,
+      receipt,
+      from: tracked.fromAddress,
+      ...(tracked.digitalIdIds?.length
+        ? { digitalIdIds: tracked.digitalIdIds }
+        : {}),
+    });
+
+    if (tracked.status === 'MINED') {
+      const rpc = getRpcClient({ client, chain: chainConfig.chain });
+      const receipt = await findReceipt(rpc, tracked.hashes);
+      if (receipt?.status === 'reverted') {
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: { status: 'REVERTED' },
+        });
+        return null;
+      }
+      if (receipt) {
+        console.log(
+          `[Minter] ${purpose} of ${digitalIdId} was mined in ${receipt.transactionHash}, not yet settled`
+        );
+        return resumed(receipt);
+      }
+      // Reorged out since; it may be mined again
+      // @ts-ignore
+      await prisma.minterTransaction.update({
+        where: { id: tracked.id },
+        data: {
+          status: 'PENDING',
+          transactionHash: null,
+          blockNumber: null,
+          minedAt: null,
+        },
+      });
+    }
+
+    const signer = getMinterSigner(tracked.signer ?? 'env');
+    const accounts = await this.getAccounts(client, signer).catch(() => []);
+    const account = accounts.find(
+      candidate => candidate.address.toLowerCase() === tracked.fromAddress
+    );
+    console.log(
+      `[Minter] Resuming ${purpose} of ${digitalIdId} at nonce ${tracked.nonce}`
+    );
+    const receipt = await this.waitForTracked(
+      tracked,
+      {
+        client,
+        chainConfig,
+        contractAddress: tracked.contractAddress,
+        method: tracked.method,
+        params: fromJsonSafe(tracked.params),
+        purpose,
+        digitalIdId: tracked.digitalIdId ?? undefined,
+        digitalIdIds: tracked.digitalIdIds,
+        signer,
+      },
+      // Without the key (removed from the pool) we can only wait
+      account
+    );
+    return resumed(receipt);
+  }
+
+  /**
+   * Record that the outcome of a mined transaction was applied to these
+   * digital IDs, so `resumeInFlight` no longer returns it for them.
+   */
+  async settle(trackedId: string, digitalIdIds: string[]) {
+    if (digitalIdIds.length === 0) {
+      return;
+    }
+    // @ts-ignore
+    await prisma.minterTransaction.update({
+      where: { id: trackedId },
+      data: { settledDigitalIdIds: { push: digitalIdIds } },
+    });
+  }
+
+  /**
+   * Poll every hash sent for the tracked nonce until one is mined, bumping
+   * fees while it is stuck. Records the outcome on the MinterTransaction.
+   */
+  private async waitForTracked(
+    tracked: any,
+    call: MinterCall,
+    account: Account | undefined
+  ) {
+    const rpc = getRpcClient({
+      client: call.client,
+      chain: call.chainConfig.chain,
+    });
+    const hashes: string[] = [...tracked.hashes];
+    let fees: Fees = {
+      maxFeePerGas: BigInt(tracked.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(tracked.maxPriorityFeePerGas),
+    };
+    let feeBumps: number = tracked.feeBumps;
+    let lastSentAt = new Date(tracked.lastSentAt).getTime();
+    const deadline = Date.now() + RECEIPT_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const receipt = await findReceipt(rpc, hashes);
+      if (receipt) {
+        const reverted = receipt.status === 'reverted';
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: {
+            status: reverted ? 'REVERTED' : 'MINED',
+            transactionHash: receipt.transactionHash,
+            blockNumber: Number(receipt.blockNumber),
+            minedAt: new Date(),
+          },
+        });
+        if (reverted) {
+          throw new MintError(
+            `Transaction ${receipt.transactionHash} execution reverted`,
+            false
+          );
+        }
+        return receipt;
+      }
+
+      const minedCount = Number(
+        await eth_getTransactionCount(rpc, {
+          address: tracked.fromAddress,
+          blockTag: 'latest',
+        })
+      );
+      if (minedCount > tracked.nonce && hashes.length === 0) {
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: { status: 'UNKNOWN_OUTCOME' },
+        });
+        throw unknownOutcomeError(tracked);
+      }
+      if (minedCount > tracked.nonce && !(await findReceipt(rpc, hashes))) {
+        // The nonce was used by a transaction we did not send for this call
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: { status: 'DROPPED' },
+        });
+        throw new MintError(
+          `Nonce ${tracked.nonce} of ${tracked.fromAddress} was used by another transaction`,
+          true
+        );
+      }
+
+      if (
+        account &&
+        feeBumps < MAX_FEE_BUMPS &&
+        Date.now() - lastSentAt >= STUCK_AFTER_MS
+      ) {
+        // At least the bump nodes require, more if the network moved on
+        const current = await this.currentFees(call.client, call.chainConfig);
+        const bump = (fee: bigint) => (fee * (100n + FEE_BUMP_PERCENT)) / 100n;
+        fees = {
+          maxFeePerGas: maxBigint(
+            bump(fees.maxFeePerGas),
+            current.maxFeePerGas
+          ),
+          maxPriorityFeePerGas: maxBigint(
+            bump(fees.maxPriorityFeePerGas),
+            current.maxPriorityFeePerGas
+          ),
+        };
+        feeBumps++;
+        lastSentAt = Date.now();
+        try {
+          const hash = await this.sendWithNonce(
+            call,
+            account,
+            tracked.nonce,
+            fees
+          );
+          hashes.push(hash);
+          console.log(
+            `[Minter] Sped up nonce ${tracked.nonce} of ${account.address} (bump ${feeBumps}): ${hash}`
+          );
+        } catch (error: any) {
+          // Most likely an earlier hash was just mined; keep polling
+          console.warn(
+            `[Minter] Speed-up of nonce ${tracked.nonce} failed: ${error?.message || error}`
+          );
+        }
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: {
+            hashes,
+            feeBumps,
+            maxFeePerGas: fees.maxFeePerGas.toString(),
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+            lastSentAt: new Date(lastSentAt),
+          },
+        });
+      }
+
+      await sleep(POLL_MS);
+    }
+
+    throw new MintError(
+      `Transaction nonce ${tracked.nonce} from ${tracked.fromAddress} still pending after ${RECEIPT_TIMEOUT_MS}ms (${hashes.join(', ')})`,
+      true
+    );
+  }
+
+  /**
+   * Settle transactions left PENDING by a previous process: record the ones
+   * that were mined meanwhile, and mark DROPPED those whose nonce was used by
+   * a transaction we do not know about. One whose hash was never recorded is
+   * DROPPED when the node has no transaction at its nonce, and
+   * UNKNOWN_OUTCOME once its nonce was used. The rest stays PENDING for
+   * `resumeInFlight`; mined ones are returned by it until they are settled.
+   */
+  async recover(
+    client: ThirdwebClient,
+    chainConfigForId: (chainId: number) => ChainConfig
+  ) {
+    // @ts-ignore
+    const pending = await prisma.minterTransaction.findMany({
+      where: { status: 'PENDING' },
+      orderBy: [{ chainId: 'asc' }, { nonce: 'asc' }],
+    });
+    const counts = new Map<string, number>();
+
+    for (const tracked of pending) {
+      const chainConfig = chainConfigForId(tracked.chainId);
+      const rpc = getRpcClient({ client, chain: chainConfig.chain });
+
+      const receipt = await findReceipt(rpc, tracked.hashes);
+      if (receipt) {
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: {
+            status: receipt.status === 'reverted' ? 'REVERTED' : 'MINED',
+            transactionHash: receipt.transactionHash,
+            blockNumber: Number(receipt.blockNumber),
+            minedAt: new Date(),
+          },
+        });
+        continue;
+      }
+
+      const count = async (blockTag: 'latest' | 'pending') => {
+        const key = `${tracked.chainId}:${tracked.fromAddress}:${blockTag}`;
+        if (!counts.has(key)) {
+          counts.set(
+            key,
+            Number(
+              await eth_getTransactionCount(rpc, {
+                address: tracked.fromAddress,
+                blockTag,
+              })
+            )
+          );
+        }
+        return counts.get(key)!;
+      };
+      let status: string | null = null;
+      if (tracked.nonce < (await count('latest'))) {
+        status = tracked.hashes.length > 0 ? 'DROPPED' : 'UNKNOWN_OUTCOME';
+      } else if (
+        tracked.hashes.length === 0 &&
+        tracked.nonce >= (await count('pending'))
+      ) {
+        // Never broadcast; its nonce is handed out again
+        status = 'DROPPED';
+      }
+      if (status) {
+        // @ts-ignore
+        await prisma.minterTransaction.update({
+          where: { id: tracked.id },
+          data: { status },
+        });
+      }
+    }
+
+    console.log(`[Minter] Recovered ${pending.length} pending transactions`);
+  }
+}
+
+// Export a singleton instance
+export const minterTransactions = new MinterTransactionManager();
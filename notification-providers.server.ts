@@ -0,0 +1,273 @@
+import pkg from 'twilio';
+
+const { Twilio } = pkg;
+
+/**
+ * @file notification-providers.server.ts
+ * @description Delivery channels for customer notifications.
+ *
+ * Each provider sends one message and reports the provider's message id, so
+ * later status callbacks can be matched back to our `Notification` record.
+ * Without credentials a channel falls back to the local in-memory provider,
+ * whose sends are flagged `simulated`.
+ */
+
+export type NotificationChannel = 'SMS' | 'WHATSAPP' | 'EMAIL';
+
+/**
+ * Lifecycle of a notification record. QUEUED/SENT mean the provider accepted
+ * the message; only DELIVERED means it reached the customer.
+ */
+export type NotificationStatus =
+  | 'PENDING'
+  | 'QUEUED'
+  | 'SENT'
+  | 'DELIVERED'
+  | 'FAILED'
+  | 'UNDELIVERED';
+
+export type OutgoingNotification = {
+  to: string;
+  body: string;
+  subject?: string;
+  /** URL the provider should report delivery status changes to. */
+  statusCallbackUrl?: string;
+};
+
+export type ProviderSendResult = {
+  providerMessageId: string;
+  status: NotificationStatus;
+  simulated: boolean;
+};
+
+export interface NotificationProvider {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+  send(message: OutgoingNotification): Promise<ProviderSendResult>;
+}
+
+/**
+ * Thrown when a provider rejects a message. `code` carries the provider's
+ * error code (e.g. Twilio 21211 for an invalid number).
+ */
+export class NotificationProviderError extends Error {
+  readonly provider: string;
+  readonly code?: string | number;
+
+  constructor(provider: string, message: string, code?: string | number) {
+    super(message);
+    this.name = 'NotificationProviderError';
+    this.provider = provider;
+    this.code = code;
+  }
+}
+
+/**
+ * Map Twilio's MessageStatus values onto ours.
+ */
+export function fromTwilioStatus(status: string): NotificationStatus {
+  switch (status) {
+    case 'accepted':
+    case 'scheduled':
+    case 'queued':
+    case 'sending':
+      return 'QUEUED';
+    case 'sent':
+      return 'SENT';
+    case 'delivered':
+    case 'read':
+      return 'DELIVERED';
+    case 'undelivered':
+      return 'UNDELIVERED';
+    case 'failed':
+    case 'canceled':
+      return 'FAILED';
+    default:
+      return 'QUEUED';
+  }
+}
+
+// --- Twilio (SMS and WhatsApp) ---
+
+const accountSid = process.env.TWILIO_ACCOUNT_SID;
+const authToken = process.env.TWILIO_AUTH_TOKEN;
+
+let twilioClient: any | null = null;
+if (accountSid && authToken) {
+  try {
+    twilioClient = new Twilio(accountSid, authToken);
+    console.log('✅ Twilio Client Initialized.');
+  } catch (error) {
+    console.error('🔴 Failed to initialize Twilio Client:', error);
+  }
+}
+
+class TwilioProvider implements NotificationProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    readonly channel: 'SMS' | 'WHATSAPP',
+    private readonly client: any,
+    private readonly from: string
+  ) {}
+
+  async send(message: OutgoingNotification): Promise<ProviderSendResult> {
+    const address = (value: string) =>
+      this.channel === 'WHATSAPP' ? `whatsapp:${value}` : value;
+    try {
+      const sent = await this.client.messages.create({
+        body: message.body,
+        from: address(this.from),
+        to: address(message.to),
+        ...(message.statusCallbackUrl
+          ? { statusCallback: message.statusCallbackUrl }
+          : {}),
+      });
+      return {
+        providerMessageId: sent.sid,
+        status: fromTwilioStatus(sent.status),
+        simulated: false,
+      };
+    } catch (twilioError: any) {
+      let specificErrorMsg = twilioError.message;
+      if (twilioError.code === 21211) {
+        specificErrorMsg = `Invalid 'To' phone number (${message.to}). ${twilioError.message}`;
+      }
+      throw new NotificationProviderError(
+        this.name,
+        `Twilio API error (Code: ${twilioError.code}): ${specificErrorMsg}`,
+        twilioError.code
+      );
+    }
+  }
+}
+
+// --- Email (SendGrid v3 mail API) ---
+
+class SendGridEmailProvider implements NotificationProvider {
+  readonly name = 'sendgrid';
+  readonly channel = 'EMAIL' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: OutgoingNotification): Promise<ProviderSendResult> {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: this.from },
+        subject: message.subject ?? '',
+        content: [{ type: 'text/plain', value: message.body }],
+      }),
+    });
+    if (!response.ok) {
+      throw new NotificationProviderError(
+        this.name,
+        `SendGrid API error (HTTP ${response.status}): ${await response.text()}`,
+        response.status
+      );
+    }
+    return {
+      providerMessageId:
+        response.headers.get('X-Message-Id') ?? `sendgrid_${Date.now()}`,
+      status: 'SENT',
+      simulated: false,
+    };
+  }
+}
+
+// --- Local in-memory provider ---
+
+/**
+ * Keeps sent messages in memory instead of delivering them. Used when a
+ * channel has no credentials, and by local tooling to inspect what would
+ * have been sent.
+ */
+export class InMemoryNotificationProvider implements NotificationProvider {
+  readonly name = 'local';
+  readonly sent: Array<OutgoingNotification & { providerMessageId: string }> =
+    [];
+  private counter = 0;
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  async send(message: OutgoingNotification): Promise<ProviderSendResult> {
+    const providerMessageId = `local_${this.channel.toLowerCase()}_${++this.counter}`;
+    this.sent.push({ ...message, providerMessageId });
+    console.log(
+      `<< SIMULATED ${this.channel} SUCCESS >> to ${message.to} (${providerMessageId}), body omitted`
+    );
+    return { providerMessageId, status: 'SENT', simulated: true };
+  }
+}
+
+function createProvider(channel: NotificationChannel): NotificationProvider {
+  if (process.env.NOTIFICATION_PROVIDER !== 'local') {
+    if (
+      channel === 'SMS' &&
+      twilioClient &&
+      process.env.TWILIO_PHONE_NUMBER
+    ) {
+      return new TwilioProvider(
+        'SMS',
+        twilioClient,
+        process.env.TWILIO_PHONE_NUMBER
+      );
+    }
+    if (
+      channel === 'WHATSAPP' &&
+      twilioClient &&
+      process.env.TWILIO_WHATSAPP_NUMBER
+    ) {
+      return new TwilioProvider(
+        'WHATSAPP',
+        twilioClient,
+        process.env.TWILIO_WHATSAPP_NUMBER
+      );
+    }
+    if (
+      channel === 'EMAIL' &&
+      process.env.SENDGRID_API_KEY &&
+      process.env.NOTIFICATION_EMAIL_FROM
+    ) {
+      return new SendGridEmailProvider(
+        process.env.SENDGRID_API_KEY,
+        process.env.NOTIFICATION_EMAIL_FROM
+      );
+    }
+  }
+  console.warn(
+    `⚠️ ${channel} provider not configured. Sends will be simulated.`
+  );
+  return new InMemoryNotificationProvider(channel);
+}
+
+const providers = new Map<NotificationChannel, NotificationProvider>();
+
+/**
+ * The provider for a channel, created on first use.
+ */
+export function getNotificationProvider(
+  channel: NotificationChannel
+): NotificationProvider {
+  let provider = providers.get(channel);
+  if (!provider) {
+    provider = createProvider(channel);
+    providers.set(channel, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider for a channel (e.g. with an in-memory provider).
+ */
+export function setNotificationProvider(provider: NotificationProvider) {
+  providers.set(provider.channel, provider);
+}
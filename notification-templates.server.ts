@@ -0,0 +1,389 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  isPassportSigningEnabled,
+  passportBaseUrl,
+  passportLinkUrl,
+  signPassportToken,
+} from '../passport/passport-links.server.js';
+
+/**
+ * @file notification-templates.server.ts
+ * @description Brand-owned, localized notification copy.
+ *
+ * Templates are stored per `Brands3fa` in `NotificationTemplate`, keyed by
+ * kind and locale, and fall back to the built-in defaults below. Bodies use
+ * `{{variable}}` placeholders (see `TEMPLATE_VARIABLES`). SMS bodies are
+ * checked against the brand's segment limit both when saved and when
+ * rendered.
+ */
+
+export type NotificationTemplateKind =
+  | 'ORDER_CONFIRMATION'
+  | 'SHIPMENT_SHIPPED'
+  | 'SHIPMENT_DELIVERED'
+  | 'TRANSFER_OFFER';
+
+export const TEMPLATE_VARIABLES = [
+  'brand',
+  'product',
+  'points',
+  'passportUrl',
+  'itemCount',
+  'trackingUrl',
+  'transferUrl',
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateVariables = Partial<
+  Record<TemplateVariable, string | number | null | undefined>
+>;
+
+export const DEFAULT_LOCALE = 'en';
+export const DEFAULT_BRAND_NAME = 'Alliance';
+export const DEFAULT_REWARDS_POINTS = 175;
+export const DEFAULT_MAX_SMS_SEGMENTS = 5;
+
+const DEFAULT_TEMPLATES: Record<
+  NotificationTemplateKind,
+  Record<string, string>
+> = {
+  ORDER_CONFIRMATION: {
+    en: '🛍️ Your {{brand}} Rewards ({{points}} pts). Thanks for your purchase, your {{product}} is on its way! \n\nView your product passport 🎫 here: {{passportUrl}}\n\n✨ Earn for sharing\n🚚 Track shipping\n📦 Manage returns',
+    fr: '🛍️ Vos récompenses {{brand}} ({{points}} pts). Merci pour votre achat, votre {{product}} est en route ! \n\nVotre passeport produit 🎫 : {{passportUrl}}\n\n✨ Gagnez en partageant\n🚚 Suivi de livraison\n📦 Gestion des retours',
+    es: '🛍️ Tus recompensas {{brand}} ({{points}} pts). Gracias por tu compra, ¡tu {{product}} está en camino! \n\nTu pasaporte de producto 🎫: {{passportUrl}}\n\n✨ Gana por compartir\n🚚 Seguimiento del envío\n📦 Gestión de devoluciones',
+  },
+  SHIPMENT_SHIPPED: {
+    en: '🚚 Your {{brand}} order is on its way! Track your shipment here: {{trackingUrl}}',
+    fr: '🚚 Votre commande {{brand}} est en route ! Suivez votre colis ici : {{trackingUrl}}',
+    es: '🚚 ¡Tu pedido de {{brand}} está en camino! Sigue tu envío aquí: {{trackingUrl}}',
+  },
+  SHIPMENT_DELIVERED: {
+    en: '📦 Your {{brand}} order has been delivered. View your product passport 🎫 here: {{passportUrl}}',
+    fr: '📦 Votre commande {{brand}} a été livrée. Votre passeport produit 🎫 : {{passportUrl}}',
+    es: '📦 Tu pedido de {{brand}} ha sido entregado. Tu pasaporte de producto 🎫: {{passportUrl}}',
+  },
+  TRANSFER_OFFER: {
+    en: '🎁 Someone is passing their {{brand}} {{product}} on to you. Accept its product passport 🎫 here: {{transferUrl}}',
+    fr: '🎁 On vous cède un {{product}} {{brand}}. Acceptez son passeport produit 🎫 ici : {{transferUrl}}',
+    es: '🎁 Alguien te pasa su {{product}} de {{brand}}. Acepta su pasaporte de producto 🎫 aquí: {{transferUrl}}',
+  },
+};
+
+const DEFAULT_EMAIL_SUBJECTS: Record<
+  NotificationTemplateKind,
+  Record<string, string>
+> = {
+  ORDER_CONFIRMATION: {
+    en: 'Your {{brand}} product passport',
+    fr: 'Votre passeport produit {{brand}}',
+    es: 'Tu pasaporte de producto {{brand}}',
+  },
+  SHIPMENT_SHIPPED: {
+    en: 'Your {{brand}} order is on its way',
+    fr: 'Votre commande {{brand}} est en route',
+    es: 'Tu pedido de {{brand}} está en camino',
+  },
+  SHIPMENT_DELIVERED: {
+    en: 'Your {{brand}} order has been delivered',
+    fr: 'Votre commande {{brand}} a été livrée',
+    es: 'Tu pedido de {{brand}} ha sido entregado',
+  },
+  TRANSFER_OFFER: {
+    en: 'A {{brand}} product passport for you',
+    fr: 'Un passeport produit {{brand}} pour vous',
+    es: 'Un pasaporte de producto {{brand}} para ti',
+  },
+};
+
+/** Values used by the preview API when the caller does not supply them. */
+export const SAMPLE_VARIABLES: TemplateVariables = {
+  brand: 'Acme',
+  product: 'Classic Hoodie',
+  points: DEFAULT_REWARDS_POINTS,
+  passportUrl: 'mvp.3fa.co/order/sample',
+  itemCount: 2,
+  trackingUrl: 'https://track.example.com/1Z999AA10123456784',
+  transferUrl: 'mvp.3fa.co/transfer/sample',
+};
+
+/**
+ * Public passport link for an order: signed (see `passport-links.server.ts`)
+ * once passport signing keys are configured, the plain order link before.
+ */
+export function buildPassportUrl(orders3faId: string): string {
+  if (isPassportSigningEnabled()) {
+    return passportLinkUrl(
+      signPassportToken({ subject: { type: 'order', id: orders3faId } })
+    );
+  }
+  return `${passportBaseUrl()}/order/${orders3faId}`;
+}
+
+// --- SMS segment accounting ---
+
+const GSM7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENDED = '^{}\\[~]|€\f';
+
+export type SmsSegmentInfo = {
+  encoding: 'GSM-7' | 'UCS-2';
+  /** Length in encoding units (septets for GSM-7, UTF-16 code units for UCS-2). */
+  units: number;
+  segments: number;
+};
+
+/**
+ * Count the SMS segments a body will be split into. A single character
+ * outside the GSM-7 alphabet (any emoji) switches the whole message to UCS-2.
+ */
+export function smsSegmentInfo(body: string): SmsSegmentInfo {
+  let septets = 0;
+  let gsm7 = true;
+  for (const char of body) {
+    if (GSM7_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM7_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      gsm7 = false;
+      break;
+    }
+  }
+
+  if (gsm7) {
+    return {
+      encoding: 'GSM-7',
+      units: septets,
+      segments: septets <= 160 ? 1 : Math.ceil(septets / 153),
+    };
+  }
+  const units = body.length;
+  return {
+    encoding: 'UCS-2',
+    units,
+    segments: units <= 70 ? 1 : Math.ceil(units / 67),
+  };
+}
+
+// --- Rendering ---
+
+/**
+ * Locales to try for a customer, most specific first:
+ * `fr-CA` -> `fr-ca`, `fr`, then the brand default, then `en`.
+ */
+export function localeFallbackChain(
+  customerLocale?: string | null,
+  brandDefaultLocale?: string | null
+): string[] {
+  const chain: string[] = [];
+  const add = (locale?: string | null) => {
+    const normalized = locale?.trim().toLowerCase().replace(/_/g, '-');
+    if (normalized && !chain.includes(normalized)) chain.push(normalized);
+  };
+  add(customerLocale);
+  add(customerLocale?.split(/[-_]/)[0]);
+  add(brandDefaultLocale);
+  add(brandDefaultLocale?.split(/[-_]/)[0]);
+  add(DEFAULT_LOCALE);
+  return chain;
+}
+
+/**
+ * Replace `{{variable}}` placeholders. Missing values render as empty text.
+ */
+export function renderTemplate(
+  body: string,
+  variables: TemplateVariables
+): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = variables[name as TemplateVariable];
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * Check a template body for unknown placeholders and, using sample values,
+ * for the brand's SMS segment limit. Returns a list of problems.
+ */
+export function validateTemplate(
+  body: string,
+  maxSegments: number = DEFAULT_MAX_SMS_SEGMENTS
+): string[] {
+  const errors: string[] = [];
+  if (!body.trim()) {
+    errors.push('Template body is empty.');
+  }
+  for (const [, name] of body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      errors.push(`Unknown variable {{${name}}}.`);
+    }
+  }
+  const { segments } = smsSegmentInfo(renderTemplate(body, SAMPLE_VARIABLES));
+  if (segments > maxSegments) {
+    errors.push(
+      `Rendered message needs ${segments} SMS segments, the limit is ${maxSegments}.`
+    );
+  }
+  return errors;
+}
+
+type BrandTemplateSettings = {
+  id: string;
+  name: string | null;
+  rewardsPoints: number | null;
+  defaultLocale: string | null;
+  smsMaxSegments: number | null;
+};
+
+async function findBrandByShop(
+  shopDomain: string
+): Promise<BrandTemplateSettings | null> {
+  // @ts-ignore
+  return prisma.brands3fa.findFirst({
+    where: { myshopifyDomain: shopDomain },
+    select: {
+      id: true,
+      name: true,
+      rewardsPoints: true,
+      defaultLocale: true,
+      smsMaxSegments: true,
+    },
+  });
+}
+
+export type RenderedNotification = SmsSegmentInfo & {
+  body: string;
+  /** Email subject in the same locale; unused by SMS. */
+  subject: string;
+  locale: string;
+  source: 'BRAND' | 'DEFAULT';
+};
+
+/**
+ * Render a notification for a shop's brand in the customer's locale.
+ * `brand` and `points` default from the brand record. For SMS, a brand
+ * template that renders over the segment limit (e.g. because of a long
+ * product name) falls back to the built-in default for the same locale.
+ */
+export async function renderNotification({
+  shopDomain,
+  kind,
+  customerLocale,
+  variables,
+  channel = 'SMS',
+}: {
+  shopDomain: string;
+  kind: NotificationTemplateKind;
+  customerLocale?: string | null;
+  variables: TemplateVariables;
+  channel?: 'SMS' | 'WHATSAPP' | 'EMAIL';
+}): Promise<RenderedNotification> {
+  let brand: BrandTemplateSettings | null = null;
+  try {
+    brand = await findBrandByShop(shopDomain);
+  } catch (err) {
+    console.warn(
+      `[Templates] Error loading brand for ${shopDomain}, using defaults: ${err}`
+    );
+  }
+
+  const maxSegments = brand?.smsMaxSegments ?? DEFAULT_MAX_SMS_SEGMENTS;
+  const allVariables: TemplateVariables = {
+    brand: brand?.name || DEFAULT_BRAND_NAME,
+    points: brand?.rewardsPoints ?? DEFAULT_REWARDS_POINTS,
+    ...variables,
+  };
+  const locales = localeFallbackChain(customerLocale, brand?.defaultLocale);
+  const subjectFor = (locale: string) =>
+    renderTemplate(
+      DEFAULT_EMAIL_SUBJECTS[kind][locale] ??
+        DEFAULT_EMAIL_SUBJECTS[kind][DEFAULT_LOCALE],
+      allVariables
+    );
+
+  if (brand) {
+    // @ts-ignore
+    const templates = await prisma.notificationTemplate.findMany({
+      where: { brand_3fa_id: brand.id, kind, locale: { in: locales } },
+      select: { locale: true, body: true },
+    });
+    for (const locale of locales) {
+      const template = templates.find((t: any) => t.locale === locale);
+      if (!template) continue;
+      const body = renderTemplate(template.body, allVariables);
+      const info = smsSegmentInfo(body);
+      if (channel === 'EMAIL' || info.segments <= maxSegments) {
+        return {
+          body,
+          subject: subjectFor(locale),
+          locale,
+          source: 'BRAND',
+          ...info,
+        };
+      }
+      console.warn(
+        `[Templates] ${kind}/${locale} for brand ${brand.id} renders to ${info.segments} segments (limit ${maxSegments}), using default`
+      );
+      break;
+    }
+  }
+
+  const locale =
+    locales.find(l => DEFAULT_TEMPLATES[kind][l]) ?? DEFAULT_LOCALE;
+  const body = renderTemplate(DEFAULT_TEMPLATES[kind][locale], allVariables);
+  return {
+    body,
+    subject: subjectFor(locale),
+    locale,
+    source: 'DEFAULT',
+    ...smsSegmentInfo(body),
+  };
+}
+
+/**
+ * Create or replace a brand's template for a kind and locale.
+ * Throws with the validation problems when the body is rejected.
+ */
+export async function saveBrandTemplate({
+  brandId,
+  kind,
+  locale,
+  body,
+}: {
+  brandId: string;
+  kind: NotificationTemplateKind;
+  locale: string;
+  body: string;
+}) {
+  // @ts-ignore
+  const brand = await prisma.brands3fa.findUnique({
+    where: { id: brandId },
+    select: { smsMaxSegments: true },
+  });
+  if (!brand) {
+    throw new Error(`Brand not found: ${brandId}`);
+  }
+
+  const errors = validateTemplate(
+    body,
+    brand.smsMaxSegments ?? DEFAULT_MAX_SMS_SEGMENTS
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid template: ${errors.join(' ')}`);
+  }
+
+  const normalizedLocale = locale.trim().toLowerCase().replace(/_/g, '-');
+  // @ts-ignore
+  return prisma.notificationTemplate.upsert({
+    where: {
+      brand_3fa_id_kind_locale: {
+        brand_3fa_id: brandId,
+        kind,
+        locale: normalizedLocale,
+      },
+    },
+    update: { body },
+    create: { brand_3fa_id: brandId, kind, locale: normalizedLocale, body },
+  });
+}
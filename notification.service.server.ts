@@ -0,0 +1,183 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  getNotificationProvider,
+  NotificationProviderError,
+  type NotificationChannel,
+  type NotificationStatus,
+} from './notification-providers.server.js';
+
+/**
+ * Order of statuses for callbacks, which Twilio does not guarantee to
+ * deliver in sequence. Terminal failures outrank everything but DELIVERED.
+ */
+const STATUS_RANK: Record<NotificationStatus, number> = {
+  PENDING: 0,
+  QUEUED: 1,
+  SENT: 2,
+  FAILED: 3,
+  UNDELIVERED: 3,
+  DELIVERED: 4,
+};
+
+/**
+ * Service for sending customer notifications and tracking their delivery.
+ * Every send is persisted as a `Notification` record with the provider's
+ * message id; status callbacks move it to DELIVERED, FAILED or UNDELIVERED.
+ */
+export class NotificationService {
+  /**
+   * Send a message and persist it. Throws when the provider rejects the
+   * message, after recording the failure.
+   */
+  async send({
+    channel,
+    to,
+    body,
+    subject,
+    kind,
+    orders3faId,
+  }: {
+    channel: NotificationChannel;
+    to: string;
+    body: string;
+    subject?: string;
+    kind: string;
+    orders3faId?: string | null;
+  }) {
+    const provider = getNotificationProvider(channel);
+
+    // @ts-ignore
+    const notification = await prisma.notification.create({
+      data: {
+        channel,
+        provider: provider.name,
+        kind,
+        recipient: to,
+        body,
+        orders3faId: orders3faId ?? null,
+        status: 'PENDING',
+      },
+    });
+
+    const appBaseUrl = process.env.APP_BASE_URL?.replace(/\/$/, '');
+    try {
+      const result = await provider.send({
+        to,
+        body,
+        subject,
+        statusCallbackUrl:
+          appBaseUrl && provider.name === 'twilio'
+            ? `${appBaseUrl}/webhooks/notifications/twilio-status`
+            : undefined,
+      });
+      console.log(
+        `[Notify] ${channel} ${kind} accepted by ${provider.name}: ${result.providerMessageId}${result.simulated ? ' (simulated)' : ''}`
+      );
+      // @ts-ignore
+      return prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          providerMessageId: result.providerMessageId,
+          status: result.status,
+          simulated: result.simulated,
+          sentAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // @ts-ignore
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'FAILED',
+          errorCode:
+            error instanceof NotificationProviderError && error.code != null
+              ? String(error.code)
+              : null,
+          errorMessage: message.substring(0, 900),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a message of `kind` was already handed to a provider for the
+   * order. Used to keep retried jobs from notifying twice.
+   */
+  async hasBeenSent(orders3faId: string, kind: string): Promise<boolean> {
+    // @ts-ignore
+    const count = await prisma.notification.count({
+      where: {
+        orders3faId,
+        kind,
+        status: { notIn: ['PENDING', 'FAILED'] },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Apply a provider status callback. Out-of-order callbacks never move a
+   * record backwards. Returns the updated record, or null when the message
+   * id is unknown.
+   */
+  async applyStatusUpdate({
+    provider,
+    providerMessageId,
+    status,
+    errorCode,
+  }: {
+    provider: string;
+    providerMessageId: string;
+    status: NotificationStatus;
+    errorCode?: string | null;
+  }) {
+    // @ts-ignore
+    const notification = await prisma.notification.findFirst({
+      where: { provider, providerMessageId },
+    });
+    if (!notification) {
+      console.warn(
+        `[Notify] Status ${status} for unknown ${provider} message ${providerMessageId}`
+      );
+      return null;
+    }
+
+    const current = notification.status as NotificationStatus;
+    if (STATUS_RANK[status] < STATUS_RANK[current]) {
+      return notification;
+    }
+
+    // @ts-ignore
+    const updated = await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        status,
+        ...(errorCode ? { errorCode } : {}),
+        ...(status === 'DELIVERED' ? { deliveredAt: new Date() } : {}),
+        ...(status === 'FAILED' || status === 'UNDELIVERED'
+          ? { failedAt: new Date() }
+          : {}),
+      },
+    });
+
+    if (
+      status === 'DELIVERED' &&
+      notification.channel === 'SMS' &&
+      notification.kind === 'ORDER_CONFIRMATION' &&
+      notification.orders3faId
+    ) {
+      // @ts-ignore
+      await prisma.orders3fa.update({
+        where: { id: notification.orders3faId },
+        data: { smsDeliveredAt: new Date() },
+      });
+    }
+    return updated;
+  }
+}
+
+// Export a singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,347 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { enqueueTokenRevocation } from '../../queues/mintQueue.server.js';
+import {
+  INACTIVE_DIGITAL_ID_STATUSES,
+  recordDigitalIdEvent,
+  transitionDigitalIdStatus,
+} from '../digital-id/digital-id-status.server.js';
+import { MintError } from '../token-minting/mint-errors.js';
+import { voidMintVouchers } from '../token-minting/mint-vouchers.js';
+
+/**
+ * Shape of the `refunds/create` webhook payload fields we rely on.
+ */
+export interface PayloadRefund {
+  id: number;
+  order_id: number;
+  refund_line_items?: Array<{
+    id: number;
+    line_item_id: number;
+    quantity: number;
+    restock_type?: 'no_restock' | 'cancel' | 'return' | 'legacy_restock';
+  }>;
+}
+
+/**
+ * What happens on-chain when a brand's digital ID is revoked or returned.
+ * NONE only changes the database status; BURN destroys the token; RETURN_TO_BRAND
+ * transfers it to the brand wallet.
+ */
+export type TokenRevocationPolicy = 'NONE' | 'BURN' | 'RETURN_TO_BRAND';
+
+type RevocationStatus = 'REVOKED' | 'RETURNED';
+
+/**
+ * Service for reversing digital ownership when an order is cancelled or
+ * refunded.
+ */
+export class OrderReversalService {
+  /**
+   * Revoke every digital ID of a cancelled order.
+   */
+  async handleOrderCancelled({
+    shopId,
+    shopifyOrderId,
+  }: {
+    shopId: string;
+    shopifyOrderId: string;
+  }) {
+    console.log(`[Reversal] Order ${shopifyOrderId} cancelled on ${shopId}`);
+
+    // @ts-ignore
+    const digitalIds = await prisma.uniqueDigitalId.findMany({
+      where: {
+        shopifyOrderId: `gid://shopify/Order/${shopifyOrderId}`,
+        status: { notIn: INACTIVE_DIGITAL_ID_STATUSES },
+      },
+      select: { id: true },
+    });
+
+    for (const digitalId of digitalIds) {
+      await this.revokeDigitalId(digitalId.id, 'REVOKED', 'ORDER_CANCELLED');
+    }
+
+    // @ts-ignore
+    await prisma.orders3fa.updateMany({
+      where: { shopifyOrderId },
+      data: { status: 'CANCELLED' },
+    });
+
+    console.log(
+      `[Reversal] Revoked ${digitalIds.length} digital IDs for cancelled order ${shopifyOrderId}`
+    );
+    return { revoked: digitalIds.length };
+  }
+
+  /**
+   * Revoke or return the digital IDs of refunded line items.
+   * Restocked returns move to RETURNED; every other refund moves to REVOKED.
+   */
+  async handleRefundCreated({
+    shopId,
+    refund,
+  }: {
+    shopId: string;
+    refund: PayloadRefund;
+  }) {
+    const shopifyOrderId = String(refund.order_id);
+    console.log(
+      `[Reversal] Refund ${refund.id} for order ${shopifyOrderId} on ${shopId}`
+    );
+
+    const reason = `REFUND_${refund.id}`;
+    let reversed = 0;
+    let alreadyReversed = 0;
+    for (const refundLineItem of refund.refund_line_items ?? []) {
+      const lineItemGid = `gid://shopify/LineItem/${refundLineItem.line_item_id}`;
+      // Multi-quantity line items carry a `:<index>` suffix per unit
+      const ofLineItem = {
+        OR: [
+          { shopifyLineItemId: lineItemGid },
+          { shopifyLineItemId: { startsWith: `${lineItemGid}:` } },
+        ],
+      };
+      // A retried or redelivered refund only reverses what is left of it
+      // @ts-ignore
+      const done = await prisma.uniqueDigitalId.count({
+        where: { ...ofLineItem, revocationReason: reason },
+      });
+      alreadyReversed += done;
+      const quantity = Math.max(0, refundLineItem.quantity - done);
+      if (quantity === 0) {
+        continue;
+      }
+      // @ts-ignore
+      const candidates = await prisma.uniqueDigitalId.findMany({
+        where: {
+          ...ofLineItem,
+          status: { notIn: INACTIVE_DIGITAL_ID_STATUSES },
+        },
+        select: { id: true, shopifyLineItemId: true },
+      });
+
+      // Reverse the highest unit indexes first so repeated partial refunds
+      // walk down the line item
+      const toReverse = candidates
+        .sort((a: any, b: any) =>
+          b.shopifyLineItemId.localeCompare(a.shopifyLineItemId, undefined, {
+            numeric: true,
+          })
+        )
+        .slice(0, quantity);
+
+      const status: RevocationStatus =
+        refundLineItem.restock_type === 'return' ? 'RETURNED' : 'REVOKED';
+      for (const digitalId of toReverse) {
+        await this.revokeDigitalId(digitalId.id, status, reason);
+        reversed++;
+      }
+    }
+
+    if (reversed > 0 || alreadyReversed > 0) {
+      // @ts-ignore
+      const remaining = await prisma.uniqueDigitalId.count({
+        where: {
+          shopifyOrderId: `gid://shopify/Order/${shopifyOrderId}`,
+          status: { notIn: INACTIVE_DIGITAL_ID_STATUSES },
+        },
+      });
+      // @ts-ignore
+      await prisma.orders3fa.updateMany({
+        where: { shopifyOrderId },
+        data: { status: remaining === 0 ? 'REFUNDED' : 'PARTIALLY_REFUNDED' },
+      });
+    }
+
+    console.log(
+      `[Reversal] Reversed ${reversed} digital IDs for refund ${refund.id}`
+    );
+    return { reversed };
+  }
+
+  /**
+   * Move a digital ID to REVOKED/RETURNED and queue the brand's token policy.
+   * The status change is committed first so the customer loses the passport
+   * even if the on-chain step fails; that step is tracked in
+   * `tokenRevocationStatus` and retried by the mint queue.
+   */
+  private async revokeDigitalId(
+    digitalIdId: string,
+    status: RevocationStatus,
+    reason: string
+  ) {
+    const digitalId = await transitionDigitalIdStatus({
+      digitalIdId,
+      to: status,
+      actor: 'system:order-reversal',
+      reason,
+      data: { revokedAt: new Date(), revocationReason: reason },
+    });
+    // A CLAIMABLE unit must not be claimed after its order is reversed
+    await voidMintVouchers(digitalIdId, reason);
+
+    if (!digitalId.tokenId) {
+      console.log(
+        `[Reversal] Digital ID ${digitalIdId} has no minted token, status only`
+      );
+      return;
+    }
+
+    // @ts-ignore
+    const brand = await prisma.brands3fa.findUnique({
+      where: { id: digitalId.brand_3fa_id },
+      select: { tokenRevocationPolicy: true, brandWalletAddress: true },
+    });
+    const policy: TokenRevocationPolicy =
+      brand?.tokenRevocationPolicy ?? 'NONE';
+    if (policy === 'NONE') {
+      return;
+    }
+
+    // @ts-ignore
+    await prisma.uniqueDigitalId.update({
+      where: { id: digitalIdId },
+      data: {
+        tokenRevocationAction: policy,
+        tokenRevocationStatus: 'PENDING',
+        tokenRevocationError: null,
+      },
+    });
+    try {
+      await enqueueTokenRevocation(digitalIdId);
+    } catch (error) {
+      // Still PENDING; `requeuePendingRevocations` picks it up
+      console.error(
+        `[Reversal] Could not queue ${policy} of digital ID ${digitalIdId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Burn or return the token of a revoked digital ID whose revocation is
+   * PENDING, as queued by `revokeDigitalId`. Throws a `MintError` when it
+   * failed; a retryable one leaves it PENDING for the queue's next attempt.
+   */
+  async applyTokenRevocation(
+    digitalIdId: string
+  ): Promise<{ state: 'COMPLETED' | 'SKIPPED'; transactionHash?: string }> {
+    // @ts-ignore
+    const digitalId = await prisma.uniqueDigitalId.findUnique({
+      where: { id: digitalIdId },
+      select: {
+        brand_3fa_id: true,
+        revocationReason: true,
+        tokenRevocationAction: true,
+        tokenRevocationStatus: true,
+      },
+    });
+    if (digitalId?.tokenRevocationStatus !== 'PENDING') {
+      return { state: 'SKIPPED' };
+    }
+    const policy: TokenRevocationPolicy = digitalId.tokenRevocationAction;
+    const reason: string = digitalId.revocationReason ?? 'REVOKED';
+
+    // Lazy import to avoid loading thirdweb where no token action is needed
+    const { burnDigitalIdToken, transferDigitalIdToken } = await import(
+      '../token-minting/token-minting.service.js'
+    );
+
+    const onMined = async (transactionHash: string) => {
+      // A retry of a job that got this far records nothing twice
+      // @ts-ignore
+      const { count } = await prisma.uniqueDigitalId.updateMany({
+        where: { id: digitalIdId, tokenRevocationStatus: 'PENDING' },
+        data: {
+          revocationTransactionHash: transactionHash,
+          tokenRevocationStatus: 'COMPLETED',
+          tokenRevocationError: null,
+        },
+      });
+      if (count === 0) {
+        return;
+      }
+      await recordDigitalIdEvent({
+        digitalIdId,
+        type: policy === 'BURN' ? 'TOKEN_BURNED' : 'TOKEN_RETURNED_TO_BRAND',
+        actor: 'system:order-reversal',
+        reason,
+        transactionHash,
+      });
+    };
+
+    let result;
+    if (policy === 'RETURN_TO_BRAND') {
+      // @ts-ignore
+      const brand = await prisma.brands3fa.findUnique({
+        where: { id: digitalId.brand_3fa_id },
+        select: { brandWalletAddress: true },
+      });
+      if (!brand?.brandWalletAddress) {
+        throw new MintError(
+          `Brand ${digitalId.brand_3fa_id} has RETURN_TO_BRAND policy but no brandWalletAddress`,
+          false
+        );
+      }
+      result = await transferDigitalIdToken(
+        digitalIdId,
+        brand.brandWalletAddress,
+        { onMined }
+      );
+    } else {
+      result = await burnDigitalIdToken(digitalIdId, { onMined });
+    }
+
+    if (!result.success) {
+      const error = result.error || `${policy} failed`;
+      // @ts-ignore
+      await prisma.uniqueDigitalId.update({
+        where: { id: digitalIdId },
+        data: { tokenRevocationError: error.substring(0, 900) },
+      });
+      throw new MintError(error, result.retryable ?? true);
+    }
+    return { state: 'COMPLETED', transactionHash: result.transactionHash };
+  }
+
+  /**
+   * Give up on the token revocation of a digital ID after its last attempt.
+   * The database status stays REVOKED/RETURNED; the token needs a person.
+   */
+  async markTokenRevocationFailed(digitalIdId: string, error: string) {
+    console.error(
+      `[Reversal] Token revocation failed for digital ID ${digitalIdId}: ${error}`
+    );
+    // @ts-ignore
+    await prisma.uniqueDigitalId.updateMany({
+      where: { id: digitalIdId, tokenRevocationStatus: 'PENDING' },
+      data: {
+        tokenRevocationStatus: 'FAILED',
+        tokenRevocationError: error.substring(0, 900),
+      },
+    });
+  }
+
+  /**
+   * Queue every PENDING token revocation again, e.g. one whose job could not
+   * be added. Queued ones are left alone. Returns how many were re-queued.
+   */
+  async requeuePendingRevocations(): Promise<number> {
+    // @ts-ignore
+    const pending = await prisma.uniqueDigitalId.findMany({
+      where: { tokenRevocationStatus: 'PENDING' },
+      select: { id: true },
+    });
+    let requeued = 0;
+    for (const digitalId of pending) {
+      if (await enqueueTokenRevocation(digitalId.id)) {
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+}
+
+// Export a singleton instance
+export const orderReversalService = new OrderReversalService();
@@ -5,15 +5,32 @@ import {
   type OrderJobData,
 } from '../queues/orderProcessingQueue.server.js';
 import redisConfig from '../config/redis.server.js';
-import pkg from 'twilio';
 import { Prisma } from '@prisma/client'; // Import Prisma types
 import type { PayloadOrder } from '../types/shopify.payload.types.js';
 // Import the User3fa and DigitalID services
 import { User3faService } from '../services/user/index.js';
 import { DigitalIdService } from '../services/digital-id/index.server.js';
+import {
+  orderReversalService,
+  type PayloadRefund,
+} from '../services/order-reversal/order-reversal.service.server.js';
+import {
+  fulfillmentTrackingService,
+  type PayloadFulfillment,
+} from '../services/fulfillment-tracking/fulfillment-tracking.service.server.js';
 import { log } from '../utils/logger.server.js';
-
-const { Twilio } = pkg;
+import { notificationService } from '../services/notifications/notification.service.server.js';
+import {
+  contactChannelPriority,
+  resolveContactChannel,
+  type ContactChannel,
+} from '../services/contact/contact-channel.server.js';
+import { ensurePrivyWalletForEmail } from '../services/user/privy-email-wallet.server.js';
+import {
+  buildPassportUrl,
+  renderNotification,
+} from '../services/notifications/notification-templates.server.js';
+import { runPipeline, type PipelineStep } from './pipeline.server.js';
 
 // Initialize services
 const user3faService = new User3faService();
@@ -21,46 +38,34 @@ const digitalIdService = new DigitalIdService();
 
 /**
  * @file orderProcessor.worker.ts
- * @description BullMQ Worker for processing Shopify order creation webhooks.
+ * @description BullMQ Worker for processing Shopify order webhooks.
  *
  * This worker listens to the 'order-processing' queue, which receives jobs
- * when a new order is created in a Shopify store. Each job contains a
- * `webhookEventId` that references a `WebhookEvent` record in the database,
- * which in turn stores the raw payload of the Shopify 'orders/create' webhook.
+ * when an order is created, cancelled, refunded or fulfilled in a Shopify
+ * store. Each job contains a `webhookEventId` that references a `WebhookEvent`
+ * record in the database, which in turn stores the raw payload of the Shopify
+ * webhook. 'orders/cancelled' and 'refunds/create' events are handed to the
+ * order reversal service, 'fulfillments/*' events to the fulfillment tracking
+ * service; the rest of this description covers 'orders/create'.
  *
  * Main Responsibilities:
  * 1.  **Fetch Webhook Data**: Retrieves the full webhook payload from the
  *     `WebhookEvent` table using the `webhookEventId` from the job data.
- * 2.  **Find or Create User3fa**: Identify or create a User3fa record.
- * 3.  **Create Orders3fa and Send SMS Early**: Create a 3FA-specific order record
- *     and send the SMS with a link to it early in the process.
- * 4.  **Provision Privy Wallet**: Ensure a wallet and DID are created.
- * 5.  **Create UniqueDigitalIds**: Generate digital IDs for purchased items.
- * 6.  **Save Data to Database**: Mirror the Shopify data in our database.
- * 7.  **Update WebhookEvent Status**: Mark the event as processed upon completion.
+ * 2.  **Run the Order Pipeline**: Named, checkpointed steps (see
+ *     `buildOrderPipeline`), each with its own retry policy:
+ *     - `customer-upsert`: Mirror the Shopify customer.
+ *     - `user3fa`: Identify or create a User3fa record.
+ *     - `orders3fa`: Create a 3FA-specific order record.
+ *     - `notify`: Send the SMS (or email) with a link to it early in the process.
+ *     - `wallet`: Ensure a Privy wallet and DID are created. Without one the
+ *       order keeps its wallet failure status and its digital IDs are minted
+ *       later by `reconcileDeferredMints`.
+ *     - `mirror`: Mirror the Shopify order and line items in our database.
+ *     - `digital-ids`: Generate digital IDs for purchased items.
+ *     A BullMQ retry resumes at the first step without a completed checkpoint.
+ * 3.  **Update WebhookEvent Status**: Mark the event as processed upon completion.
  */
 
-// --- Initialize Twilio Client ---
-const accountSid = process.env.TWILIO_ACCOUNT_SID;
-const authToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
-
-let twilioClient: any | null = null;
-if (accountSid && authToken && twilioPhoneNumber) {
-  try {
-    twilioClient = new Twilio(accountSid, authToken);
-    console.log('✅ Twilio Client Initialized.');
-  } catch (error) {
-    console.error('🔴 Failed to initialize Twilio Client:', error);
-    console.warn(
-      '⚠️ Proceeding with Twilio SMS simulation due to initialization error.'
-    );
-  }
-} else {
-  console.warn('⚠️ Twilio credentials not set. SMS sending will be simulated.');
-}
-// --- End Twilio Client Initialization ---
-
 // Validate Redis configuration is loaded for the worker
 if (!redisConfig.connection) {
   console.error(
@@ -86,9 +91,682 @@ function sanitizePriceValue(priceStr: string | null | undefined): string {
   return stringPrice === '' ? '0' : stringPrice;
 }
 
+/**
+ * State threaded through the order pipeline. Apart from the identifiers and
+ * payload set up by the processor, every field is produced by a step and
+ * restored from that step's checkpoint when a job is retried.
+ */
+interface OrderPipelineState {
+  webhookEventId: string;
+  shopDomain: string;
+  shopifyOrderId: string;
+  orderPayload: PayloadOrder;
+  contactChannel: ContactChannel | null;
+  customerPhone?: string;
+  /** False for a fixed-line or VoIP number: identity only, no SMS */
+  customerPhoneSmsCapable?: boolean;
+  customerEmail?: string;
+  shopifyCustomerId?: string;
+  shopifyCustomerGid?: string;
+  user3faId?: string;
+  orders3faId?: string;
+  walletAddress?: string | null;
+  privyDid?: string | null;
+  shopifyOrderDbId?: string;
+}
+
+type StepContext = Record<string, unknown>;
+
+/**
+ * Step: upsert the ShopifyCustomer IF customer data exists in the payload.
+ */
+async function upsertShopifyCustomer(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { orderPayload, shopDomain } = state;
+  if (!orderPayload.customer || typeof orderPayload.customer.id !== 'number') {
+    log.info(
+      ctx,
+      'No Shopify customer data in payload. Skipping ShopifyCustomer upsert.'
+    );
+    return {};
+  }
+
+  const customerShopifyIdAsBigInt = BigInt(orderPayload.customer.id);
+  const customerData = orderPayload.customer;
+  const shopifyCustomerGid = `gid://shopify/Customer/${customerShopifyIdAsBigInt}`;
+  log.info(ctx, `Upserting ShopifyCustomer ${shopifyCustomerGid}...`);
+  const upsertedShopifyCustomer = await prisma.shopifyCustomer.upsert({
+    where: {
+      shopId_shopifyId: {
+        shopId: shopDomain,
+        shopifyId: customerShopifyIdAsBigInt,
+      },
+    },
+    update: {
+      email: customerData.email,
+      firstName: customerData.first_name,
+      lastName: customerData.last_name,
+      phone: customerData.phone,
+      shopifyCustomerGid,
+    },
+    create: {
+      shopId: shopDomain,
+      shopifyId: customerShopifyIdAsBigInt,
+      email: customerData.email,
+      firstName: customerData.first_name,
+      lastName: customerData.last_name,
+      phone: customerData.phone,
+      shopifyCustomerGid,
+    },
+    select: { id: true },
+  });
+  log.info(
+    ctx,
+    `ShopifyCustomer upserted with DB ID ${upsertedShopifyCustomer.id}.`
+  );
+  return {
+    shopifyCustomerId: upsertedShopifyCustomer.id,
+    shopifyCustomerGid,
+  };
+}
+
+/**
+ * Step: find or create the User3fa for the order's customer.
+ */
+async function establishUser3fa(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { orderPayload, customerPhone, customerEmail } = state;
+  // Prepare data for User3fa service, ensuring shopifyId is correctly typed or null
+  const user3faServicePayload = {
+    shopifyId:
+      typeof orderPayload.customer?.id === 'number'
+        ? BigInt(orderPayload.customer.id)
+        : null,
+    email: customerEmail,
+    firstName:
+      orderPayload.customer?.first_name ||
+      orderPayload.shipping_address?.first_name,
+    lastName:
+      orderPayload.customer?.last_name ||
+      orderPayload.shipping_address?.last_name,
+    phone: customerPhone || undefined,
+    shopifyCustomerGid: state.shopifyCustomerGid,
+  };
+
+  log.info(ctx, 'Finding or creating User3fa...');
+  const user3fa = await user3faService.findOrCreateFromShopifyCustomer(
+    user3faServicePayload,
+    customerPhone || undefined // Pass validated phone number for primary use
+  );
+  if (!user3fa) {
+    throw new Error(
+      'User3fa could not be established, cannot create Orders3fa.'
+    );
+  }
+  log.info({ ...ctx, user3faId: user3fa.id }, 'Using User3fa ID');
+  return { user3faId: user3fa.id };
+}
+
+/**
+ * Step: create the Orders3fa record early so the SMS can link to it.
+ */
+async function createOrders3fa(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { orderPayload, shopifyOrderId, user3faId } = state;
+
+  // A crash between the insert and its checkpoint must not produce a second record
+  const existing = await prisma.orders3fa.findFirst({
+    where: { user3faId, shopifyOrderId },
+    select: { id: true },
+  });
+  if (existing) {
+    log.info(
+      { ...ctx, orders3faId: existing.id },
+      'Reusing existing Orders3fa record'
+    );
+    return { orders3faId: existing.id };
+  }
+
+  log.info({ ...ctx, user3faId }, 'Creating Orders3fa record...');
+  const totalItems =
+    orderPayload.line_items?.reduce((sum, item) => sum + item.quantity, 0) ||
+    0;
+  const orders3fa = await prisma.orders3fa.create({
+    data: {
+      user3faId: user3faId!,
+      shopifyOrderId: shopifyOrderId, // Store Shopify Order GID
+      status: 'PROCESSING',
+      totalItems: totalItems,
+    },
+  });
+  log.info({ ...ctx, orders3faId: orders3fa.id }, 'Created Orders3fa record');
+  return { orders3faId: orders3fa.id };
+}
+
+/**
+ * Step: send the order notification with the passport link on the resolved
+ * contact channel (SMS, or email when the order has no usable phone).
+ */
+async function sendOrderNotification(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { orderPayload, shopDomain, orders3faId } = state;
+  let contactChannel = state.contactChannel;
+  if (contactChannel === 'SMS' && state.customerPhoneSmsCapable === false) {
+    // The number still identifies the customer; the message needs email
+    const emailAllowed =
+      Boolean(state.customerEmail) &&
+      contactChannelPriority().includes('EMAIL');
+    log.info(
+      ctx,
+      emailAllowed
+        ? 'Customer phone cannot receive SMS, notifying by email.'
+        : 'Skipping notification: customer phone cannot receive SMS.'
+    );
+    contactChannel = emailAllowed ? 'EMAIL' : null;
+  }
+  const to =
+    contactChannel === 'EMAIL' ? state.customerEmail : state.customerPhone;
+  if (!contactChannel || !to) {
+    log.info(ctx, 'Skipping notification: No customer contact found.');
+    return {};
+  }
+
+  if (
+    await notificationService.hasBeenSent(orders3faId!, 'ORDER_CONFIRMATION')
+  ) {
+    log.info(ctx, 'Notification already sent for this order, skipping.');
+    return {};
+  }
+
+  const productName = orderPayload.line_items?.[0]?.title || 'items';
+  const itemCount =
+    orderPayload.line_items?.reduce((sum, item) => sum + item.quantity, 0) ||
+    0;
+  const message = await renderNotification({
+    shopDomain,
+    kind: 'ORDER_CONFIRMATION',
+    customerLocale: orderPayload.customer_locale,
+    channel: contactChannel,
+    variables: {
+      product: productName,
+      itemCount,
+      passportUrl: buildPassportUrl(orders3faId!),
+    },
+  });
+  log.info(
+    {
+      ...ctx,
+      locale: message.locale,
+      templateSource: message.source,
+      segments: message.segments,
+    },
+    'Rendered order notification'
+  );
+
+  const notification = await notificationService.send({
+    channel: contactChannel,
+    to,
+    body: message.body,
+    subject: message.subject,
+    kind: 'ORDER_CONFIRMATION',
+    orders3faId,
+  });
+  log.info(
+    {
+      ...ctx,
+      notificationId: notification.id,
+      providerMessageId: notification.providerMessageId,
+      simulated: notification.simulated,
+    },
+    `Order ${contactChannel} handed to provider`
+  );
+  // Only a real provider send counts; delivery is tracked on the Notification
+  if (contactChannel === 'SMS' && !notification.simulated) {
+    await prisma.orders3fa.update({
+      where: { id: orders3faId },
+      data: { smsNotificationSentAt: new Date() },
+    });
+  }
+  return {};
+}
+
+/**
+ * Step: ensure the customer has a Privy wallet and DID, logging in with the
+ * phone number or, for email-only customers, the email address.
+ * A provisioning failure is recorded on Orders3fa rather than failing the job.
+ */
+async function provisionWallet(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const {
+    user3faId,
+    contactChannel,
+    customerPhone,
+    customerEmail,
+    orders3faId,
+  } = state;
+  if (!contactChannel) {
+    log.warn(
+      ctx,
+      'Cannot ensure Privy wallet - missing phone number and email'
+    );
+    await prisma.orders3fa.update({
+      where: { id: orders3faId },
+      data: { status: 'FAILED_NO_PHONE_FOR_WALLET' },
+    });
+    return { walletAddress: null, privyDid: null };
+  }
+
+  log.info(ctx, `Ensuring Privy wallet for user ${user3faId}...`);
+  await prisma.orders3fa.update({
+    where: { id: orders3faId },
+    data: { status: 'PENDING_WALLET' },
+  });
+  const privyResult =
+    contactChannel === 'SMS'
+      ? await user3faService.ensurePrivyWalletForUser(
+          user3faId!,
+          customerPhone!
+        )
+      : await ensurePrivyWalletForEmail(user3faId!, customerEmail!);
+  if (!privyResult.success) {
+    log.warn(
+      ctx,
+      `Privy wallet provisioning failed for user ${user3faId}: ${privyResult.error}`
+    );
+    await prisma.orders3fa.update({
+      where: { id: orders3faId },
+      data: { status: 'FAILED_WALLET_PROVISIONING' },
+    });
+    return { walletAddress: null, privyDid: null };
+  }
+
+  log.info(
+    ctx,
+    `Privy wallet provisioned for user ${user3faId}. Address: ${privyResult.privyWalletAddress}, DID: ${privyResult.privyDid}`
+  );
+  await prisma.orders3fa.update({
+    where: { id: orders3faId },
+    data: { status: 'WALLET_PROVISIONED' },
+  });
+  try {
+    // Earlier orders of this customer may still wait on a wallet
+    await digitalIdService.reconcileDeferredMints(user3faId!);
+  } catch (err) {
+    log.warn(ctx, `Deferred mint reconciliation failed: ${err}`);
+  }
+  return {
+    walletAddress: privyResult.privyWalletAddress ?? null,
+    privyDid: privyResult.privyDid ?? null,
+  };
+}
+
+/**
+ * Step: mirror the Shopify order and its line items in our database.
+ */
+async function mirrorShopifyOrder(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { orderPayload, shopDomain, shopifyCustomerId } = state;
+  if (typeof orderPayload.id !== 'number') {
+    throw new Error(
+      `${state.shopifyOrderId} Order payload is missing a valid numeric ID. Cannot save ShopifyOrder.`
+    );
+  }
+  const orderShopifyId = BigInt(orderPayload.id);
+
+  log.info(ctx, 'Saving Shopify Order and Line Items to database...');
+  const shopifyOrder = await prisma.shopifyOrder.upsert({
+    where: {
+      shopId_shopifyId: {
+        shopId: shopDomain,
+        shopifyId: orderShopifyId,
+      },
+    },
+    update: {
+      email: orderPayload.email,
+      phone: orderPayload.phone,
+      updatedAt: orderPayload.updated_at
+        ? new Date(orderPayload.updated_at)
+        : new Date(),
+      cancelledAt: orderPayload.cancelled_at
+        ? new Date(orderPayload.cancelled_at)
+        : null,
+      processedAt: orderPayload.processed_at
+        ? new Date(orderPayload.processed_at)
+        : null,
+      financialStatus: orderPayload.financial_status,
+      fulfillmentStatus: orderPayload.fulfillment_status,
+      totalPrice: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.total_price)
+      ),
+      subtotalPrice: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.subtotal_price)
+      ),
+      totalTax: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.total_tax)
+      ),
+      total_discounts: orderPayload.total_discounts
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_discounts)
+          )
+        : null,
+      total_line_items_price: orderPayload.total_line_items_price
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_line_items_price)
+          )
+        : null,
+      total_outstanding: orderPayload.total_outstanding
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_outstanding)
+          )
+        : null,
+      confirmed: orderPayload.confirmed,
+      tags: orderPayload.tags,
+      note: orderPayload.note,
+      buyer_accepts_marketing: orderPayload.buyer_accepts_marketing,
+      billing_first_name: orderPayload.billing_address?.first_name,
+      billing_last_name: orderPayload.billing_address?.last_name,
+      billing_address1: orderPayload.billing_address?.address1,
+      billing_address2: orderPayload.billing_address?.address2,
+      billing_city: orderPayload.billing_address?.city,
+      billing_zip: orderPayload.billing_address?.zip,
+      billing_province: orderPayload.billing_address?.province,
+      billing_country: orderPayload.billing_address?.country,
+      billing_phone: orderPayload.billing_address?.phone,
+      billing_company: orderPayload.billing_address?.company,
+      shipping_first_name: orderPayload.shipping_address?.first_name,
+      shipping_last_name: orderPayload.shipping_address?.last_name,
+      shipping_address1: orderPayload.shipping_address?.address1,
+      shipping_address2: orderPayload.shipping_address?.address2,
+      shipping_city: orderPayload.shipping_address?.city,
+      shipping_zip: orderPayload.shipping_address?.zip,
+      shipping_province: orderPayload.shipping_address?.province,
+      shipping_country: orderPayload.shipping_address?.country,
+      shipping_phone: orderPayload.shipping_address?.phone,
+      shipping_company: orderPayload.shipping_address?.company,
+      customerId: shopifyCustomerId,
+    },
+    create: {
+      shopId: shopDomain,
+      shopifyId: orderShopifyId,
+      orderNumber: orderPayload.order_number,
+      email: orderPayload.email,
+      phone: orderPayload.phone,
+      createdAt: new Date(orderPayload.created_at),
+      cancelledAt: orderPayload.cancelled_at
+        ? new Date(orderPayload.cancelled_at)
+        : null,
+      processedAt: orderPayload.processed_at
+        ? new Date(orderPayload.processed_at)
+        : null,
+      currency: orderPayload.currency,
+      financialStatus: orderPayload.financial_status,
+      fulfillmentStatus: orderPayload.fulfillment_status,
+      totalPrice: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.total_price)
+      ),
+      subtotalPrice: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.subtotal_price)
+      ),
+      totalTax: new Prisma.Decimal(
+        sanitizePriceValue(orderPayload.total_tax)
+      ),
+      total_discounts: orderPayload.total_discounts
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_discounts)
+          )
+        : null,
+      total_line_items_price: orderPayload.total_line_items_price
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_line_items_price)
+          )
+        : null,
+      total_outstanding: orderPayload.total_outstanding
+        ? new Prisma.Decimal(
+            sanitizePriceValue(orderPayload.total_outstanding)
+          )
+        : null,
+      presentment_currency: orderPayload.presentment_currency,
+      payment_gateway_names: orderPayload.payment_gateway_names?.join(', '),
+      confirmed: orderPayload.confirmed,
+      test: orderPayload.test,
+      tags: orderPayload.tags,
+      note: orderPayload.note,
+      source_name: orderPayload.source_name,
+      customer_locale: orderPayload.customer_locale,
+      buyer_accepts_marketing: orderPayload.buyer_accepts_marketing,
+      billing_first_name: orderPayload.billing_address?.first_name,
+      billing_last_name: orderPayload.billing_address?.last_name,
+      billing_address1: orderPayload.billing_address?.address1,
+      billing_address2: orderPayload.billing_address?.address2,
+      billing_city: orderPayload.billing_address?.city,
+      billing_zip: orderPayload.billing_address?.zip,
+      billing_province: orderPayload.billing_address?.province,
+      billing_country: orderPayload.billing_address?.country,
+      billing_phone: orderPayload.billing_address?.phone,
+      billing_company: orderPayload.billing_address?.company,
+      shipping_first_name: orderPayload.shipping_address?.first_name,
+      shipping_last_name: orderPayload.shipping_address?.last_name,
+      shipping_address1: orderPayload.shipping_address?.address1,
+      shipping_address2: orderPayload.shipping_address?.address2,
+      shipping_city: orderPayload.shipping_address?.city,
+      shipping_zip: orderPayload.shipping_address?.zip,
+      shipping_province: orderPayload.shipping_address?.province,
+      shipping_country: orderPayload.shipping_address?.country,
+      shipping_phone: orderPayload.shipping_address?.phone,
+      shipping_company: orderPayload.shipping_address?.company,
+      customerId: shopifyCustomerId,
+    },
+    select: { id: true },
+  });
+  log.info(
+    ctx,
+    `ShopifyOrder ${orderShopifyId} upserted with DB ID ${shopifyOrder.id}.`
+  );
+
+  if (orderPayload.line_items && orderPayload.line_items.length > 0) {
+    log.info(
+      ctx,
+      `Upserting ${orderPayload.line_items.length} ShopifyLineItems for order ${shopifyOrder.id}...`
+    );
+    // Safe to replace wholesale: digital IDs reference line items by Shopify GID
+    await prisma.shopifyLineItem.deleteMany({
+      where: { orderId: shopifyOrder.id },
+    });
+    const lineItemsToCreate = orderPayload.line_items.map(item => ({
+      orderId: shopifyOrder.id,
+      shopifyId: BigInt(item.id),
+      title: item.title,
+      price: new Prisma.Decimal(sanitizePriceValue(item.price)),
+      quantity: item.quantity,
+      sku: item.sku,
+      productId: item.product_id ? BigInt(item.product_id) : null,
+      variantId: item.variant_id ? BigInt(item.variant_id) : null,
+      requiresShipping: item.requires_shipping,
+      taxable: item.taxable,
+    }));
+    await prisma.shopifyLineItem.createMany({ data: lineItemsToCreate });
+    log.info(ctx, 'ShopifyLineItems created successfully.');
+  } else {
+    log.info(ctx, 'No line items in payload.');
+  }
+  return { shopifyOrderDbId: shopifyOrder.id };
+}
+
+/**
+ * Step: create a UniqueDigitalId per purchased unit and settle the
+ * Orders3fa status.
+ */
+async function createDigitalIds(
+  state: OrderPipelineState,
+  ctx: StepContext
+): Promise<Partial<OrderPipelineState>> {
+  const { shopDomain, shopifyOrderId, user3faId, orders3faId } = state;
+  const lineItemsForDigitalIds = await prisma.shopifyLineItem.findMany({
+    where: { orderId: state.shopifyOrderDbId },
+  });
+  log.info(
+    ctx,
+    `Creating digital IDs for ${lineItemsForDigitalIds.length} line item records, with orders3faId: ${orders3faId}`
+  );
+  const digitalIdResults = await digitalIdService.createDigitalIdsForOrder({
+    shopId: shopDomain,
+    shopifyOrderId: shopifyOrderId,
+    lineItems: lineItemsForDigitalIds,
+    owner3faId: user3faId!,
+    privyWalletAddress: state.walletAddress,
+    privyDid: state.privyDid,
+    orders3faId: orders3faId!,
+  });
+  log.info(
+    ctx,
+    `Digital ID creation results: ${digitalIdResults.created} created, ${digitalIdResults.failed} failed`
+  );
+
+  let status: string;
+  if (digitalIdResults.failed === 0) {
+    status = 'COMPLETED';
+  } else if (digitalIdResults.created > 0) {
+    status = 'PARTIALLY_COMPLETED';
+  } else {
+    status = 'FAILED_UDI_CREATION';
+  }
+  if (!state.walletAddress && status !== 'FAILED_UDI_CREATION') {
+    // Settled by reconcileDeferredMints once the customer has a wallet
+    log.info(
+      ctx,
+      `Orders3fa ${orders3faId} keeps its wallet failure status until the customer has a wallet`
+    );
+    return {};
+  }
+  await prisma.orders3fa.update({
+    where: { id: orders3faId },
+    data: { status },
+  });
+  log.info(ctx, `Orders3fa ${orders3faId} finished with status ${status}`);
+  return {};
+}
+
+/**
+ * The order pipeline, in execution order. Each step carries its own retry
+ * policy; optional steps may fail without failing the job.
+ */
+function buildOrderPipeline(
+  ctx: StepContext
+): PipelineStep<OrderPipelineState>[] {
+  return [
+    {
+      name: 'customer-upsert',
+      retry: { attempts: 3, backoffMs: 250 },
+      run: state => upsertShopifyCustomer(state, ctx),
+    },
+    {
+      name: 'user3fa',
+      retry: { attempts: 3, backoffMs: 500 },
+      run: state => establishUser3fa(state, ctx),
+    },
+    {
+      name: 'orders3fa',
+      retry: { attempts: 3, backoffMs: 250 },
+      run: state => createOrders3fa(state, ctx),
+    },
+    {
+      name: 'notify',
+      retry: { attempts: 2, backoffMs: 1000 },
+      optional: true,
+      run: state => sendOrderNotification(state, ctx),
+    },
+    {
+      name: 'wallet',
+      retry: { attempts: 3, backoffMs: 1000 },
+      run: state => provisionWallet(state, ctx),
+    },
+    {
+      name: 'mirror',
+      retry: { attempts: 3, backoffMs: 500 },
+      run: state => mirrorShopifyOrder(state, ctx),
+    },
+    {
+      // Required: a BullMQ retry resumes here until the job's attempts run out
+      name: 'digital-ids',
+      retry: { attempts: 2, backoffMs: 1000 },
+      run: state => createDigitalIds(state, ctx),
+      onFailure: async state => {
+        if (!state.walletAddress) {
+          // Keeps its wallet failure status for reconcileDeferredMints
+          return;
+        }
+        await prisma.orders3fa.update({
+          where: { id: state.orders3faId },
+          data: { status: 'FAILED_UDI_CREATION_ERROR' },
+        });
+      },
+    },
+  ];
+}
+
+/**
+ * orders/create: run the checkpointed order pipeline.
+ */
+async function processOrderCreated(
+  webhookEventId: string,
+  shopDomain: string,
+  orderPayload: PayloadOrder,
+  ctx: StepContext
+) {
+  const shopifyOrderId = String(orderPayload.id);
+  const contact = resolveContactChannel(orderPayload);
+  const detailedCtx = {
+    ...ctx,
+    shopifyOrderId,
+    contactChannel: contact.channel,
+  };
+  log.info(detailedCtx, 'Initializing processing...');
+
+  if (!contact.channel) {
+    log.warn(detailedCtx, `WARNING: ${contact.reason}.`);
+  } else {
+    for (const rejection of contact.phoneRejections) {
+      log.warn(
+        detailedCtx,
+        `Ignoring ${rejection.source} phone: ${rejection.reason} (${rejection.detail}).`
+      );
+    }
+  }
+
+  await runPipeline<OrderPipelineState>({
+    webhookEventId,
+    steps: buildOrderPipeline(detailedCtx),
+    state: {
+      webhookEventId,
+      shopDomain,
+      shopifyOrderId,
+      orderPayload,
+      contactChannel: contact.channel,
+      customerPhone: contact.phone,
+      customerPhoneSmsCapable: contact.phoneSmsCapable,
+      customerEmail: contact.email,
+    },
+    ctx: detailedCtx,
+  });
+}
+
 /**
  * The main processing function for each job in the queue.
- * Fetches the webhook payload, sends the SMS, saves order data, and updates the WebhookEvent status.
+ * Loads the webhook event and dispatches on its topic. Order creation runs
+ * the order pipeline, resuming after the last checkpointed step when BullMQ
+ * retries the job; cancellations and refunds revoke digital IDs.
  */
 const processor = async (job: Job<OrderJobData>) => {
   const jobStartTime = Date.now();
@@ -97,7 +775,6 @@ const processor = async (job: Job<OrderJobData>) => {
   let webhookEvent: Awaited<
     ReturnType<typeof prisma.webhookEvent.findUnique>
   > | null = null;
-  let orders3fa: any = null; // Define orders3fa here to be accessible in catch block
 
   // Add timestamp to all logs
   const timestamp = new Date().toISOString();
@@ -129,553 +806,53 @@ const processor = async (job: Job<OrderJobData>) => {
         `WebhookEvent ${webhookEventId} has invalid or missing payload.`
       );
     }
-    const orderPayload = webhookEvent.payload as unknown as PayloadOrder;
     log.info(ctx, 'WebhookEvent payload loaded.');
 
     const shopDomain = webhookEvent.shopId;
-    const shopifyOrderId = String(orderPayload.id);
-    const customerPhone =
-      orderPayload.phone ??
-      orderPayload.shipping_address?.phone ??
-      orderPayload.billing_address?.phone ??
-      orderPayload.customer?.phone;
-    const detailedCtx = { ...ctx, shopifyOrderId, shop: shopDomain };
-    log.info(detailedCtx, 'Initializing processing...');
-
-    if (!customerPhone) {
-      log.warn(detailedCtx, 'WARNING: No customer phone found in payload.');
-    }
-
-    // --- PRE-PROCESSING: Upsert ShopifyCustomer IF customer data exists in payload ---
-    let customerShopifyIdAsBigInt: bigint | null = null;
-    let createdOrUpdatedShopifyCustomerId: string | undefined = undefined;
-    let shopifyCustomerGidForUser3fa: string | undefined = undefined;
-
-    if (orderPayload.customer && typeof orderPayload.customer.id === 'number') {
-      customerShopifyIdAsBigInt = BigInt(orderPayload.customer.id);
-      const customerData = orderPayload.customer!;
-      shopifyCustomerGidForUser3fa = `gid://shopify/Customer/${customerShopifyIdAsBigInt}`;
-      log.info(
-        detailedCtx,
-        `Upserting ShopifyCustomer ${shopifyCustomerGidForUser3fa}...`
-      );
-      const upsertedShopifyCustomer = await prisma.shopifyCustomer.upsert({
-        where: {
-          shopId_shopifyId: {
-            shopId: shopDomain,
-            shopifyId: customerShopifyIdAsBigInt,
-          },
-        },
-        update: {
-          email: customerData.email,
-          firstName: customerData.first_name,
-          lastName: customerData.last_name,
-          phone: customerData.phone,
-          shopifyCustomerGid: shopifyCustomerGidForUser3fa,
-        },
-        create: {
-          shopId: shopDomain,
-          shopifyId: customerShopifyIdAsBigInt,
-          email: customerData.email,
-          firstName: customerData.first_name,
-          lastName: customerData.last_name,
-          phone: customerData.phone,
-          shopifyCustomerGid: shopifyCustomerGidForUser3fa,
-        },
-        select: { id: true },
-      });
-      createdOrUpdatedShopifyCustomerId = upsertedShopifyCustomer.id;
-      log.info(
-        detailedCtx,
-        `ShopifyCustomer upserted with DB ID ${createdOrUpdatedShopifyCustomerId}.`
-      );
-    } else {
-      log.info(
-        detailedCtx,
-        'No Shopify customer data in payload. Skipping ShopifyCustomer upsert.'
-      );
-    }
-
-    // --- 1. Find or Create User3fa ---
-    console.time(`${JSON.stringify(detailedCtx)} User3fa lookup`);
-    let user3fa: any = null;
-    // Prepare data for User3fa service, ensuring shopifyId is correctly typed or null
-    const user3faServicePayload = {
-      shopifyId: customerShopifyIdAsBigInt, // This can be null
-      email: orderPayload.customer?.email || orderPayload.email,
-      firstName:
-        orderPayload.customer?.first_name ||
-        orderPayload.shipping_address?.first_name,
-      lastName:
-        orderPayload.customer?.last_name ||
-        orderPayload.shipping_address?.last_name,
-      phone: customerPhone || undefined,
-      shopifyCustomerGid: shopifyCustomerGidForUser3fa,
+    const detailedCtx = {
+      ...ctx,
+      topic: webhookEvent.topic,
+      shop: shopDomain,
     };
 
-    log.info(detailedCtx, 'Finding or creating User3fa...');
-    user3fa = await user3faService.findOrCreateFromShopifyCustomer(
-      user3faServicePayload,
-      customerPhone || undefined // Pass validated phone number for primary use
-    );
-    log.info({ ...detailedCtx, user3faId: user3fa?.id }, 'Using User3fa ID');
-    console.timeEnd(`${JSON.stringify(detailedCtx)} User3fa lookup`);
-
-    // --- Pre-fetch brand name to avoid delay after Orders3fa creation ---
-    let brandName = 'Alliance';
-    let productName = 'items';
-    const rewardsPoints = 175;
-
-    // Prepare product name early
-    if (
-      orderPayload.line_items &&
-      orderPayload.line_items.length > 0 &&
-      orderPayload.line_items[0].title
-    ) {
-      productName = orderPayload.line_items[0].title;
-    }
-
-    // Pre-fetch brand name
-    try {
-      log.info(detailedCtx, `Pre-fetching brand name for ${shopDomain}...`);
-      const brand3fa = await prisma.brands3fa.findFirst({
-        where: { myshopifyDomain: shopDomain },
-        select: { name: true },
-      });
-      if (brand3fa && brand3fa.name) {
-        brandName = brand3fa.name;
-        log.info(detailedCtx, `Using brand name: ${brandName}`);
-      }
-    } catch (err) {
-      log.warn(
-        detailedCtx,
-        `Error pre-fetching brand name, using default: ${err}`
-      );
-    }
-
-    // --- 2. Create Orders3fa Early ---
-    console.time(`${JSON.stringify(detailedCtx)} Orders3fa creation`);
-    if (user3fa) {
-      log.info(
-        { ...detailedCtx, user3faId: user3fa.id },
-        'Creating Orders3fa record...'
-      );
-      const totalItems =
-        orderPayload.line_items?.reduce(
-          (sum, item) => sum + item.quantity,
-          0
-        ) || 0;
-      orders3fa = await prisma.orders3fa.create({
-        data: {
-          user3faId: user3fa.id,
-          shopifyOrderId: shopifyOrderId, // Store Shopify Order GID
-          status: 'PROCESSING',
-          totalItems: totalItems,
-        },
-      });
-      log.info(
-        { ...detailedCtx, orders3faId: orders3fa.id },
-        'Created Orders3fa record'
-      );
-      console.timeEnd(`${JSON.stringify(detailedCtx)} Orders3fa creation`);
-    } else {
-      log.error(
-        detailedCtx,
-        'CRITICAL: User3fa not found or created. Cannot proceed.'
-      );
-      await prisma.webhookEvent.update({
-        where: { id: webhookEventId },
-        data: {
-          lastError: 'User3fa could not be established.',
-          errorCount: { increment: 1 },
-        },
-      });
-      throw new Error(
-        'User3fa could not be established, cannot create Orders3fa.'
-      );
-    }
-
-    // --- 3. Send SMS immediately after Orders3fa creation ---
-    console.time(`${JSON.stringify(detailedCtx)} SMS send`);
-    const timeToSMS = Date.now() - jobStartTime;
-    log.info(detailedCtx, `Time from job start to SMS send: ${timeToSMS}ms`);
-
-    if (orders3fa && customerPhone) {
-      // Send SMS as soon as possible
-      const passportUrl = `mvp.3fa.co/order/${orders3fa.id}`;
-      const messageBody = `🛍️ Your ${brandName} Rewards (${rewardsPoints} pts). Thanks for your purchase, your ${productName} is on its way! \n\nView your product passport 🎫 here: ${passportUrl}\n\n✨ Earn for sharing\n🚚 Track shipping\n📦 Manage returns`;
-
-      // Send SMS synchronously for simplicity and immediate delivery
-      if (twilioClient && twilioPhoneNumber) {
-        log.info(
-          { ...detailedCtx, to: customerPhone },
-          'Sending SMS via Twilio...'
-        );
-        try {
-          const message = await twilioClient.messages.create({
-            body: messageBody,
-            from: twilioPhoneNumber,
-            to: customerPhone,
-          });
-          log.info(
-            { ...detailedCtx, sid: message.sid },
-            '✅ Twilio SMS sent successfully'
-          );
-          await prisma.orders3fa.update({
-            where: { id: orders3fa.id },
-            data: { smsNotificationSentAt: new Date() },
-          });
-        } catch (twilioError: any) {
-          let specificErrorMsg = twilioError.message;
-          if (twilioError.code === 21211) {
-            specificErrorMsg = `Invalid 'To' phone number (${customerPhone}). ${twilioError.message}`;
-          }
-          log.error(
-            detailedCtx,
-            `Twilio API error (Code: ${twilioError.code}): ${specificErrorMsg}. Proceeding.`
-          );
-        }
-      } else {
-        log.info(
-          { ...detailedCtx, to: customerPhone },
-          'Simulating SMS send: Twilio not configured.'
-        );
-        log.info(
-          { ...detailedCtx, to: customerPhone },
-          `<< SIMULATED SMS SUCCESS >> Body omitted`
-        );
-        await prisma.orders3fa.update({
-          where: { id: orders3fa.id },
-          data: { smsNotificationSentAt: new Date() },
-        });
-      }
-      console.timeEnd(`${JSON.stringify(detailedCtx)} SMS send`);
-
-      // Now continue with wallet provisioning and other operations
-    } else if (!customerPhone) {
-      log.info(
-        detailedCtx,
-        'Skipping SMS send: No customer phone number found.'
-      );
-    }
-
-    // --- 4. Provision Privy Wallet (after SMS) ---
-    console.time(`${JSON.stringify(detailedCtx)} Privy wallet provisioning`);
-    let walletAddressForDigitalId: string | undefined | null = null;
-    let privyDidForDigitalId: string | undefined | null = null;
-    if (user3fa && customerPhone && orders3fa) {
-      log.info(detailedCtx, `Ensuring Privy wallet for user ${user3fa.id}...`);
-      await prisma.orders3fa.update({
-        where: { id: orders3fa.id },
-        data: { status: 'PENDING_WALLET' },
-      });
-      const privyResult = await user3faService.ensurePrivyWalletForUser(
-        user3fa.id,
-        customerPhone
-      );
-      if (privyResult.success) {
-        walletAddressForDigitalId = privyResult.privyWalletAddress;
-        privyDidForDigitalId = privyResult.privyDid;
-        log.info(
-          detailedCtx,
-          `Privy wallet provisioned for user ${user3fa.id}. Address: ${walletAddressForDigitalId}, DID: ${privyDidForDigitalId}`
-        );
-        await prisma.orders3fa.update({
-          where: { id: orders3fa.id },
-          data: { status: 'WALLET_PROVISIONED' },
-        });
-      } else {
-        log.warn(
-          detailedCtx,
-          `Privy wallet provisioning failed for user ${user3fa.id}: ${privyResult.error}`
+    // 2-6. Dispatch on the webhook topic
+    switch (webhookEvent.topic) {
+      case 'orders/create':
+        await processOrderCreated(
+          webhookEventId,
+          shopDomain,
+          webhookEvent.payload as unknown as PayloadOrder,
+          detailedCtx
         );
-        await prisma.orders3fa.update({
-          where: { id: orders3fa.id },
-          data: { status: 'FAILED_WALLET_PROVISIONING' },
-        });
-      }
-    } else if (orders3fa) {
-      log.warn(
-        detailedCtx,
-        'Cannot ensure Privy wallet - missing user3fa or phone number'
-      );
-      await prisma.orders3fa.update({
-        where: { id: orders3fa.id },
-        data: { status: 'FAILED_NO_PHONE_FOR_WALLET' },
-      });
-    }
-    console.timeEnd(`${JSON.stringify(detailedCtx)} Privy wallet provisioning`);
-
-    // --- 5. Save Shopify Order and Line Items (Shopify Data Mirroring) ---
-    console.time(`${JSON.stringify(detailedCtx)} Shopify data save`);
-    log.info(detailedCtx, 'Saving Shopify Order and Line Items to database...');
-    let orderDbId: any = null;
-    let orderShopifyIdAsBigInt: bigint | null = null;
-    if (typeof orderPayload.id === 'number') {
-      orderShopifyIdAsBigInt = BigInt(orderPayload.id);
-    }
-
-    if (orderShopifyIdAsBigInt) {
-      orderDbId = await prisma.shopifyOrder.upsert({
-        where: {
-          shopId_shopifyId: {
-            shopId: shopDomain,
-            shopifyId: orderShopifyIdAsBigInt,
-          },
-        },
-        update: {
-          email: orderPayload.email,
-          phone: orderPayload.phone,
-          updatedAt: orderPayload.updated_at
-            ? new Date(orderPayload.updated_at)
-            : new Date(),
-          cancelledAt: orderPayload.cancelled_at
-            ? new Date(orderPayload.cancelled_at)
-            : null,
-          processedAt: orderPayload.processed_at
-            ? new Date(orderPayload.processed_at)
-            : null,
-          financialStatus: orderPayload.financial_status,
-          fulfillmentStatus: orderPayload.fulfillment_status,
-          totalPrice: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.total_price)
-          ),
-          subtotalPrice: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.subtotal_price)
-          ),
-          totalTax: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.total_tax)
-          ),
-          total_discounts: orderPayload.total_discounts
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_discounts)
-              )
-            : null,
-          total_line_items_price: orderPayload.total_line_items_price
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_line_items_price)
-              )
-            : null,
-          total_outstanding: orderPayload.total_outstanding
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_outstanding)
-              )
-            : null,
-          confirmed: orderPayload.confirmed,
-          tags: orderPayload.tags,
-          note: orderPayload.note,
-          buyer_accepts_marketing: orderPayload.buyer_accepts_marketing,
-          billing_first_name: orderPayload.billing_address?.first_name,
-          billing_last_name: orderPayload.billing_address?.last_name,
-          billing_address1: orderPayload.billing_address?.address1,
-          billing_address2: orderPayload.billing_address?.address2,
-          billing_city: orderPayload.billing_address?.city,
-          billing_zip: orderPayload.billing_address?.zip,
-          billing_province: orderPayload.billing_address?.province,
-          billing_country: orderPayload.billing_address?.country,
-          billing_phone: orderPayload.billing_address?.phone,
-          billing_company: orderPayload.billing_address?.company,
-          shipping_first_name: orderPayload.shipping_address?.first_name,
-          shipping_last_name: orderPayload.shipping_address?.last_name,
-          shipping_address1: orderPayload.shipping_address?.address1,
-          shipping_address2: orderPayload.shipping_address?.address2,
-          shipping_city: orderPayload.shipping_address?.city,
-          shipping_zip: orderPayload.shipping_address?.zip,
-          shipping_province: orderPayload.shipping_address?.province,
-          shipping_country: orderPayload.shipping_address?.country,
-          shipping_phone: orderPayload.shipping_address?.phone,
-          shipping_company: orderPayload.shipping_address?.company,
-          customerId: createdOrUpdatedShopifyCustomerId,
-        },
-        create: {
+        break;
+      case 'orders/cancelled':
+        await orderReversalService.handleOrderCancelled({
           shopId: shopDomain,
-          shopifyId: orderShopifyIdAsBigInt,
-          orderNumber: orderPayload.order_number,
-          email: orderPayload.email,
-          phone: orderPayload.phone,
-          createdAt: new Date(orderPayload.created_at),
-          cancelledAt: orderPayload.cancelled_at
-            ? new Date(orderPayload.cancelled_at)
-            : null,
-          processedAt: orderPayload.processed_at
-            ? new Date(orderPayload.processed_at)
-            : null,
-          currency: orderPayload.currency,
-          financialStatus: orderPayload.financial_status,
-          fulfillmentStatus: orderPayload.fulfillment_status,
-          totalPrice: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.total_price)
-          ),
-          subtotalPrice: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.subtotal_price)
-          ),
-          totalTax: new Prisma.Decimal(
-            sanitizePriceValue(orderPayload.total_tax)
+          shopifyOrderId: String(
+            (webhookEvent.payload as unknown as PayloadOrder).id
           ),
-          total_discounts: orderPayload.total_discounts
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_discounts)
-              )
-            : null,
-          total_line_items_price: orderPayload.total_line_items_price
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_line_items_price)
-              )
-            : null,
-          total_outstanding: orderPayload.total_outstanding
-            ? new Prisma.Decimal(
-                sanitizePriceValue(orderPayload.total_outstanding)
-              )
-            : null,
-          presentment_currency: orderPayload.presentment_currency,
-          payment_gateway_names: orderPayload.payment_gateway_names?.join(', '),
-          confirmed: orderPayload.confirmed,
-          test: orderPayload.test,
-          tags: orderPayload.tags,
-          note: orderPayload.note,
-          source_name: orderPayload.source_name,
-          customer_locale: orderPayload.customer_locale,
-          buyer_accepts_marketing: orderPayload.buyer_accepts_marketing,
-          billing_first_name: orderPayload.billing_address?.first_name,
-          billing_last_name: orderPayload.billing_address?.last_name,
-          billing_address1: orderPayload.billing_address?.address1,
-          billing_address2: orderPayload.billing_address?.address2,
-          billing_city: orderPayload.billing_address?.city,
-          billing_zip: orderPayload.billing_address?.zip,
-          billing_province: orderPayload.billing_address?.province,
-          billing_country: orderPayload.billing_address?.country,
-          billing_phone: orderPayload.billing_address?.phone,
-          billing_company: orderPayload.billing_address?.company,
-          shipping_first_name: orderPayload.shipping_address?.first_name,
-          shipping_last_name: orderPayload.shipping_address?.last_name,
-          shipping_address1: orderPayload.shipping_address?.address1,
-          shipping_address2: orderPayload.shipping_address?.address2,
-          shipping_city: orderPayload.shipping_address?.city,
-          shipping_zip: orderPayload.shipping_address?.zip,
-          shipping_province: orderPayload.shipping_address?.province,
-          shipping_country: orderPayload.shipping_address?.country,
-          shipping_phone: orderPayload.shipping_address?.phone,
-          shipping_company: orderPayload.shipping_address?.company,
-          customerId: createdOrUpdatedShopifyCustomerId,
-        },
-        select: { id: true },
-      });
-      log.info(
-        detailedCtx,
-        `ShopifyOrder ${orderShopifyIdAsBigInt} upserted with DB ID ${orderDbId.id}.`
-      );
-
-      if (orderPayload.line_items && orderPayload.line_items.length > 0) {
-        log.info(
-          detailedCtx,
-          `Upserting ${orderPayload.line_items.length} ShopifyLineItems for order ${orderDbId.id}...`
-        );
-        await prisma.shopifyLineItem.deleteMany({
-          where: { orderId: orderDbId.id },
         });
-        const lineItemsToCreate = orderPayload.line_items.map(item => ({
-          orderId: orderDbId.id,
-          shopifyId: BigInt(item.id),
-          title: item.title,
-          price: new Prisma.Decimal(sanitizePriceValue(item.price)),
-          quantity: item.quantity,
-          sku: item.sku,
-          productId: item.product_id ? BigInt(item.product_id) : null,
-          variantId: item.variant_id ? BigInt(item.variant_id) : null,
-          requiresShipping: item.requires_shipping,
-          taxable: item.taxable,
-        }));
-        await prisma.shopifyLineItem.createMany({ data: lineItemsToCreate });
-        log.info(detailedCtx, 'ShopifyLineItems created successfully.');
-      } else {
-        log.info(detailedCtx, 'No line items in payload.');
-      }
-    } else {
-      throw new Error(
-        `${detailedCtx.shopifyOrderId} Order payload is missing a valid numeric ID. Cannot save ShopifyOrder.`
-      );
-    }
-    console.timeEnd(`${JSON.stringify(detailedCtx)} Shopify data save`);
-
-    // --- 6. Create Digital IDs ---
-    console.time(`${JSON.stringify(detailedCtx)} Digital ID creation`);
-    if (user3fa && orders3fa && orderDbId) {
-      const lineItemsForDigitalIds = await prisma.shopifyLineItem.findMany({
-        where: { orderId: orderDbId.id },
-      });
-      log.info(
-        detailedCtx,
-        `Creating digital IDs for ${lineItemsForDigitalIds.length} line item records, with orders3faId: ${orders3fa.id}`
-      );
-      try {
-        const digitalIdResults =
-          await digitalIdService.createDigitalIdsForOrder({
-            shopId: shopDomain,
-            shopifyOrderId: shopifyOrderId,
-            lineItems: lineItemsForDigitalIds,
-            owner3faId: user3fa.id,
-            privyWalletAddress: walletAddressForDigitalId,
-            privyDid: privyDidForDigitalId,
-            orders3faId: orders3fa.id,
-          });
-        log.info(
-          detailedCtx,
-          `Digital ID creation results: ${digitalIdResults.created} created, ${digitalIdResults.failed} failed`
-        );
-        if (digitalIdResults.failed === 0) {
-          await prisma.orders3fa.update({
-            where: { id: orders3fa.id },
-            data: { status: 'COMPLETED' },
-          });
-          log.info(
-            detailedCtx,
-            `Orders3fa processing fully completed: ${orders3fa.id}`
-          );
-        } else if (digitalIdResults.created > 0) {
-          await prisma.orders3fa.update({
-            where: { id: orders3fa.id },
-            data: { status: 'PARTIALLY_COMPLETED' },
-          });
-          log.info(
-            detailedCtx,
-            `Orders3fa processing partially completed: ${orders3fa.id}`
-          );
-        } else {
-          await prisma.orders3fa.update({
-            where: { id: orders3fa.id },
-            data: { status: 'FAILED_UDI_CREATION' },
-          });
-          log.info(
-            detailedCtx,
-            `Orders3fa processing failed at UDI creation: ${orders3fa.id}`
-          );
-        }
-      } catch (error) {
-        log.error(
-          detailedCtx,
-          'Error creating digital IDs:',
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-        await prisma.orders3fa.update({
-          where: { id: orders3fa.id },
-          data: { status: 'FAILED_UDI_CREATION_ERROR' },
+        break;
+      case 'refunds/create':
+        await orderReversalService.handleRefundCreated({
+          shopId: shopDomain,
+          refund: webhookEvent.payload as unknown as PayloadRefund,
         });
-      }
-    } else {
-      log.info(
-        detailedCtx,
-        'Skipping Digital ID creation - missing user3fa, orders3fa, or Shopify order DB ID'
-      );
-      if (orders3fa) {
-        await prisma.orders3fa.update({
-          where: { id: orders3fa.id },
-          data: { status: 'FAILED_PREREQUISITES_FOR_UDI' },
+        break;
+      case 'fulfillments/create':
+      case 'fulfillments/update':
+        await fulfillmentTrackingService.handleFulfillmentEvent({
+          shopId: shopDomain,
+          fulfillment: webhookEvent.payload as unknown as PayloadFulfillment,
         });
-      }
+        break;
+      default:
+        throw new Error(
+          `WebhookEvent ${webhookEventId} has unsupported topic ${webhookEvent.topic}.`
+        );
     }
-    console.timeEnd(`${JSON.stringify(detailedCtx)} Digital ID creation`);
 
-    // --- 7. Update WebhookEvent Status on Success ---
+    // 7. Update WebhookEvent Status on Success
     log.info(detailedCtx, 'Finalizing WebhookEvent status.');
     await prisma.webhookEvent.update({
       where: { id: webhookEventId },
@@ -692,8 +869,6 @@ const processor = async (job: Job<OrderJobData>) => {
       detailedCtx,
       `✅ Processing completed successfully in ${totalProcessingTime}ms`
     );
-    log.info(detailedCtx, `=== PERFORMANCE SUMMARY ===`);
-    log.info(detailedCtx, `SMS was sent early for optimal user experience`);
   } catch (err) {
     log.error(ctx, 'Worker job failed', err);
     throw err;
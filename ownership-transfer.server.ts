@@ -0,0 +1,954 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import {
+  createThirdwebClient,
+  encode,
+  getContract,
+  prepareContractCall,
+  waitForReceipt,
+  type ThirdwebClient,
+} from 'thirdweb';
+import {
+  eth_getTransactionByHash,
+  eth_getTransactionReceipt,
+  getRpcClient,
+} from 'thirdweb/rpc';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { normalizePhone } from '../contact/phone-normalization.server.js';
+import {
+  OWNED_DIGITAL_ID_STATUSES,
+  recordDigitalIdEvent,
+} from '../digital-id/digital-id-status.server.js';
+import { reconcileDeferredMints } from '../digital-id/wallet-reconciliation.server.js';
+import { notificationService } from '../notifications/notification.service.server.js';
+import { renderNotification } from '../notifications/notification-templates.server.js';
+import {
+  passportBaseUrl,
+  redeemPassportClaim,
+  verifyPassportToken,
+} from '../passport/passport-links.server.js';
+import { chainConfigForBlockchain } from '../token-minting/chain-registry.js';
+import { nullIfNotFound } from '../token-minting/mint-errors.js';
+import {
+  decodeTokenTransfers,
+  type ReceiptLog,
+} from '../token-minting/mint-receipt.js';
+import { voidMintVouchers } from '../token-minting/mint-vouchers.js';
+import { tokenStandardOf, transferCall } from '../token-minting/token-actions.js';
+import { User3faService } from '../user/index.js';
+import { sendPrivyWalletTransaction } from '../user/privy-client.server.js';
+import { ensurePrivyWalletForEmail } from '../user/privy-email-wallet.server.js';
+
+/**
+ * @file ownership-transfer.server.ts
+ * @description Passing a digital ID on when its product is resold or gifted.
+ *
+ * 1. The current owner starts a transfer to a phone number or an email
+ *    address (`initiateOwnershipTransfer`). The recipient gets a link with a
+ *    one-time accept token on that channel, valid `TRANSFER_OFFER_TTL_HOURS`.
+ * 2. The recipient accepts (`acceptOwnershipTransfer`); they get a User3fa
+ *    and a Privy wallet if they have none.
+ * 3. The token moves, with the transfer function of the contract's token
+ *    standard (`token-actions.ts`). When it sits in the owner's custodial
+ *    Privy wallet, the transfer is signed from that wallet through Privy's
+ *    server wallet API; until it is mined the transfer stays ACCEPTED with
+ *    its transaction hash, and `resumeCustodialTransfer` picks it up again.
+ *    Otherwise the owner sends the transfer from their own wallet and it is
+ *    verified from the receipt (`confirmUserSignedTransfer`).
+ * 4. `owner3faId`, the wallet and the DID move to the recipient and an
+ *    OWNERSHIP_TRANSFERRED event is appended to the provenance timeline.
+ *
+ * A passport link with a claim token (printed on packaging) skips the offer:
+ * the first customer to claim it (`claimDigitalIdWithPassport`) gets the
+ * digital ID through an accepted custodial transfer, or, before the mint,
+ * becomes its owner and the token is minted to their wallet.
+ *
+ * Brands set their rules in `Brands3fa.transferRules`:
+ * `{ enabled?: boolean, minHoldingDays?: number, royaltyBps?: number }`.
+ * The royalty on a declared resale price is recorded on the transfer for
+ * invoicing; collecting it is not part of this flow.
+ */
+
+export type TransferStatus =
+  | 'PENDING'
+  /** Accepted; waiting for the token to move */
+  | 'ACCEPTED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'EXPIRED'
+  | 'FAILED';
+
+export type TransferMode = 'CUSTODIAL' | 'USER_SIGNED';
+
+export interface TransferRules {
+  enabled?: boolean;
+  minHoldingDays?: number;
+  royaltyBps?: number;
+}
+
+export class OwnershipTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OwnershipTransferError';
+  }
+}
+
+const TRANSFER_OFFER_TTL_HOURS = parseInt(
+  process.env.TRANSFER_OFFER_TTL_HOURS || '72',
+  10
+);
+/** How long accepting waits for a custodial transfer to be mined */
+const CUSTODIAL_RECEIPT_WAIT_BLOCKS = parseInt(
+  process.env.TRANSFER_RECEIPT_WAIT_BLOCKS || '10',
+  10
+);
+/** After this, a send lease left by a crashed request can be taken over */
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+const user3faService = new User3faService();
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isAcceptToken(transfer: any, token: string): boolean {
+  return timingSafeEqual(
+    Buffer.from(hashToken(token), 'hex'),
+    Buffer.from(transfer.acceptTokenHash, 'hex')
+  );
+}
+
+function transferUrl(transferId: string, token: string): string {
+  return `${passportBaseUrl()}/transfer/${transferId}?token=${token}`;
+}
+
+function thirdwebClient(): ThirdwebClient {
+  const clientId = process.env.THIRDWEB_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('THIRDWEB_CLIENT_ID is required for transfers');
+  }
+  return createThirdwebClient({ clientId });
+}
+
+/** The call that moves the digital ID's token from `from` to `to`. */
+async function tokenTransferCall(digitalId: any, from: string, to: string) {
+  const client = thirdwebClient();
+  const chainConfig = chainConfigForBlockchain(digitalId.blockchain);
+  const standard = await tokenStandardOf(
+    client,
+    chainConfig,
+    digitalId.contractAddress
+  );
+  return {
+    client,
+    chainConfig,
+    call: transferCall(standard, {
+      from,
+      to,
+      tokenId: BigInt(digitalId.tokenId),
+    }),
+  };
+}
+
+/** Whether the logs move the digital ID's token as the transfer says. */
+function movesToken(
+  logs: readonly ReceiptLog[],
+  transfer: any,
+  digitalId: any
+): boolean {
+  const tokenId = BigInt(digitalId.tokenId);
+  return decodeTokenTransfers(logs, digitalId.contractAddress).some(
+    move =>
+      move.tokenId === tokenId &&
+      move.from === transfer.fromWalletAddress.toLowerCase() &&
+      move.to === transfer.toWalletAddress.toLowerCase()
+  );
+}
+
+async function brandTransferRules(brandId: string): Promise<TransferRules> {
+  // @ts-ignore
+  const brand = await prisma.brands3fa.findUnique({
+    where: { id: brandId },
+    select: { transferRules: true },
+  });
+  return (brand?.transferRules as TransferRules | null) ?? {};
+}
+
+/** When the owner got the digital ID: its last transfer, else the mint. */
+async function ownedSince(digitalId: any): Promise<Date | null> {
+  // @ts-ignore
+  const lastTransfer = await prisma.ownershipTransfer.findFirst({
+    where: { digitalIdId: digitalId.id, status: 'COMPLETED' },
+    orderBy: { completedAt: 'desc' },
+    select: { completedAt: true },
+  });
+  return lastTransfer?.completedAt ?? digitalId.mintedAt ?? null;
+}
+
+/**
+ * Start the transfer of a digital ID by its current owner and send the
+ * recipient the link to accept it.
+ */
+export async function initiateOwnershipTransfer({
+  digitalIdId,
+  fromUser3faId,
+  toPhone,
+  toEmail,
+  salePriceCents,
+  currency,
+}: {
+  digitalIdId: string;
+  fromUser3faId: string;
+  toPhone?: string;
+  toEmail?: string;
+  /** Declared resale price, for royalties; omit for a gift */
+  salePriceCents?: number;
+  currency?: string;
+}) {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    include: { coreProductVariant: { select: { title: true } } },
+  });
+  if (!digitalId || digitalId.owner3faId !== fromUser3faId) {
+    throw new OwnershipTransferError('Digital ID not found for this owner');
+  }
+  if (!OWNED_DIGITAL_ID_STATUSES.includes(digitalId.status)) {
+    throw new OwnershipTransferError(
+      `Digital ID is ${digitalId.status}, only a minted one can be transferred`
+    );
+  }
+
+  let channel: 'SMS' | 'EMAIL';
+  let to: string;
+  if (toPhone) {
+    const phone = normalizePhone(toPhone, 'customer');
+    if (!phone.ok) {
+      throw new OwnershipTransferError(`Invalid phone: ${phone.detail}`);
+    }
+    if (!phone.smsCapable) {
+      // The offer goes by SMS
+      throw new OwnershipTransferError(
+        `The phone number (${phone.lineType}) cannot receive SMS`
+      );
+    }
+    channel = 'SMS';
+    to = phone.e164;
+  } else if (toEmail && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(toEmail.trim())) {
+    channel = 'EMAIL';
+    to = toEmail.trim().toLowerCase();
+  } else {
+    throw new OwnershipTransferError('A phone number or email is required');
+  }
+
+  const rules = await brandTransferRules(digitalId.brand_3fa_id);
+  if (rules.enabled === false) {
+    throw new OwnershipTransferError('This brand does not allow transfers');
+  }
+  if (rules.minHoldingDays) {
+    const since = await ownedSince(digitalId);
+    const heldDays = since
+      ? (Date.now() - since.getTime()) / (24 * 60 * 60 * 1000)
+      : 0;
+    if (heldDays < rules.minHoldingDays) {
+      throw new OwnershipTransferError(
+        `This brand allows a transfer after ${rules.minHoldingDays} days of ownership`
+      );
+    }
+  }
+  if (
+    salePriceCents !== undefined &&
+    (!Number.isInteger(salePriceCents) || salePriceCents < 0 || !currency)
+  ) {
+    throw new OwnershipTransferError(
+      'salePriceCents must be a whole amount with a currency'
+    );
+  }
+
+  // @ts-ignore
+  await prisma.ownershipTransfer.updateMany({
+    where: { digitalIdId, status: 'PENDING', expiresAt: { lte: new Date() } },
+    data: { status: 'EXPIRED' },
+  });
+  // @ts-ignore
+  const open = await prisma.ownershipTransfer.findFirst({
+    where: { digitalIdId, status: { in: ['PENDING', 'ACCEPTED'] } },
+    select: { id: true },
+  });
+  if (open) {
+    throw new OwnershipTransferError(
+      'A transfer of this digital ID is already in progress'
+    );
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const royaltyCents =
+    salePriceCents !== undefined && rules.royaltyBps
+      ? Math.floor((salePriceCents * rules.royaltyBps) / 10000)
+      : null;
+  // @ts-ignore
+  const transfer = await prisma.ownershipTransfer.create({
+    data: {
+      digitalIdId,
+      fromUser3faId,
+      fromWalletAddress: digitalId.privyWalletAddress,
+      toChannel: channel,
+      toContact: to,
+      acceptTokenHash: hashToken(token),
+      status: 'PENDING',
+      salePriceCents: salePriceCents ?? null,
+      currency: currency ?? null,
+      royaltyBps: rules.royaltyBps ?? null,
+      royaltyCents,
+      expiresAt: new Date(
+        Date.now() + TRANSFER_OFFER_TTL_HOURS * 60 * 60 * 1000
+      ),
+    },
+  });
+
+  const message = await renderNotification({
+    shopDomain: digitalId.myshopify_domain,
+    kind: 'TRANSFER_OFFER',
+    channel,
+    variables: {
+      product: digitalId.coreProductVariant?.title,
+      transferUrl: transferUrl(transfer.id, token),
+    },
+  });
+  await notificationService.send({
+    channel,
+    to,
+    body: message.body,
+    subject: message.subject,
+    kind: 'TRANSFER_OFFER',
+  });
+
+  console.log(
+    `[Transfer] ${transfer.id}: digital ID ${digitalIdId} offered by ${fromUser3faId} over ${channel}`
+  );
+  return transfer;
+}
+
+/** Withdraw a transfer the recipient has not accepted yet. */
+export async function cancelOwnershipTransfer(
+  transferId: string,
+  fromUser3faId: string
+) {
+  // @ts-ignore
+  const { count } = await prisma.ownershipTransfer.updateMany({
+    where: { id: transferId, fromUser3faId, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  });
+  if (count === 0) {
+    throw new OwnershipTransferError('No pending transfer to cancel');
+  }
+}
+
+async function settleTransfer(
+  transfer: any,
+  digitalId: any,
+  transactionHash: string
+) {
+  // Only if the owner did not change in the meantime
+  // @ts-ignore
+  const { count } = await prisma.uniqueDigitalId.updateMany({
+    where: {
+      id: digitalId.id,
+      owner3faId: transfer.fromUser3faId,
+      status: { in: OWNED_DIGITAL_ID_STATUSES },
+    },
+    data: {
+      owner3faId: transfer.toUser3faId,
+      privyWalletAddress: transfer.toWalletAddress,
+      privyDid: transfer.toPrivyDid ?? null,
+    },
+  });
+  if (count === 0) {
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: 'FAILED',
+        transactionHash,
+        lastError: 'Digital ID changed owner or status during the transfer',
+      },
+    });
+    throw new OwnershipTransferError(
+      'Digital ID changed owner or status during the transfer'
+    );
+  }
+
+  await recordDigitalIdEvent({
+    digitalIdId: digitalId.id,
+    type: 'OWNERSHIP_TRANSFERRED',
+    actor: `customer:${(transfer.fromWalletAddress ?? '').toLowerCase()}`,
+    transactionHash,
+    reason: `Transfer ${transfer.id} to ${transfer.toWalletAddress}${
+      transfer.salePriceCents !== null
+        ? ` (resale ${transfer.salePriceCents} ${transfer.currency})`
+        : ''
+    }`,
+  });
+  // @ts-ignore
+  const completed = await prisma.ownershipTransfer.update({
+    where: { id: transfer.id },
+    data: { status: 'COMPLETED', transactionHash, completedAt: new Date() },
+  });
+  console.log(
+    `[Transfer] ${transfer.id}: digital ID ${digitalId.id} now owned by ${transfer.toUser3faId}`
+  );
+  return completed;
+}
+
+/**
+ * Move the token of an ACCEPTED custodial transfer from the owner's Privy
+ * wallet and complete the transfer once the transaction is mined. With a
+ * transaction already sent, only that one is checked; a new one is sent
+ * when it reverted or the node dropped it. The transfer stays ACCEPTED
+ * while the transaction is pending or could not be sent.
+ *
+ * Sending takes a lease (`sendingAt`) on the transfer as it was read, so
+ * concurrent accepts, confirms or claims never send the token twice.
+ */
+async function advanceCustodialTransfer(transfer: any, digitalId: any) {
+  const { client, chainConfig, call } = await tokenTransferCall(
+    digitalId,
+    transfer.fromWalletAddress,
+    transfer.toWalletAddress
+  );
+  const rpc = getRpcClient({ client, chain: chainConfig.chain });
+
+  if (transfer.transactionHash) {
+    const hash = transfer.transactionHash as `0x${string}`;
+    const receipt = await eth_getTransactionReceipt(rpc, { hash }).catch(
+      nullIfNotFound
+    );
+    if (receipt?.status === 'success') {
+      if (movesToken(receipt.logs ?? [], transfer, digitalId)) {
+        return settleTransfer(transfer, digitalId, transfer.transactionHash);
+      }
+    } else if (!receipt) {
+      const known = await eth_getTransactionByHash(rpc, { hash }).catch(
+        nullIfNotFound
+      );
+      if (known) {
+        console.log(
+          `[Transfer] ${transfer.id}: ${transfer.transactionHash} still pending`
+        );
+        return transfer;
+      }
+    }
+    console.warn(
+      `[Transfer] ${transfer.id}: ${transfer.transactionHash} did not move the token, sending again`
+    );
+  }
+
+  if (digitalId.owner3faId !== transfer.fromUser3faId) {
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: 'FAILED',
+        lastError: 'Digital ID changed owner during the transfer',
+      },
+    });
+    throw new OwnershipTransferError('Digital ID can no longer be transferred');
+  }
+
+  // @ts-ignore
+  const { count: leased } = await prisma.ownershipTransfer.updateMany({
+    where: {
+      id: transfer.id,
+      status: 'ACCEPTED',
+      transactionHash: transfer.transactionHash ?? null,
+      OR: [
+        { sendingAt: null },
+        { sendingAt: { lt: new Date(Date.now() - SEND_LEASE_MS) } },
+      ],
+    },
+    data: { sendingAt: new Date() },
+  });
+  if (leased === 0) {
+    throw new OwnershipTransferError(
+      'The transfer is already being sent, try again shortly'
+    );
+  }
+
+  let transactionHash: string;
+  try {
+    const contract = getContract({
+      client,
+      chain: chainConfig.chain,
+      address: digitalId.contractAddress,
+    });
+    transactionHash = await sendPrivyWalletTransaction({
+      walletAddress: transfer.fromWalletAddress,
+      chainId: chainConfig.id,
+      to: digitalId.contractAddress,
+      data: await encode(
+        prepareContractCall({
+          contract,
+          method: call.method as any,
+          params: call.params as any,
+        })
+      ),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Still ACCEPTED; accepting again or /confirm retries it
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        transactionHash: null,
+        sendingAt: null,
+        lastError: message.substring(0, 900),
+      },
+    });
+    throw new Error(`On-chain transfer failed: ${message}`);
+  }
+  // @ts-ignore
+  const sent = await prisma.ownershipTransfer.update({
+    where: { id: transfer.id },
+    data: { transactionHash, sendingAt: null, lastError: null },
+  });
+  console.log(
+    `[Transfer] ${transfer.id}: sent ${transactionHash} from ${transfer.fromWalletAddress}`
+  );
+
+  const receipt = await waitForReceipt({
+    client,
+    chain: chainConfig.chain,
+    transactionHash: transactionHash as `0x${string}`,
+    maxBlocksWaitTime: CUSTODIAL_RECEIPT_WAIT_BLOCKS,
+  }).catch(() => null);
+  if (!receipt) {
+    return sent;
+  }
+  if (
+    receipt.status !== 'success' ||
+    !movesToken(receipt.logs ?? [], transfer, digitalId)
+  ) {
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: { lastError: `Transfer transaction ${transactionHash} reverted` },
+    });
+    throw new Error(`On-chain transfer ${transactionHash} reverted`);
+  }
+  return settleTransfer(transfer, digitalId, transactionHash);
+}
+
+/**
+ * Pick up an ACCEPTED custodial transfer whose token has not moved yet, e.g.
+ * after its transaction was still pending or could not be sent. Only for
+ * the recipient: with the accept token of the offer, or as `user3faId`.
+ */
+export async function resumeCustodialTransfer({
+  transferId,
+  token,
+  user3faId,
+}: {
+  transferId: string;
+  token?: string;
+  user3faId?: string;
+}) {
+  // @ts-ignore
+  const transfer = await prisma.ownershipTransfer.findUnique({
+    where: { id: transferId },
+  });
+  if (
+    !transfer ||
+    !(
+      (token !== undefined && isAcceptToken(transfer, token)) ||
+      (user3faId !== undefined && transfer.toUser3faId === user3faId)
+    )
+  ) {
+    throw new OwnershipTransferError('Transfer not found');
+  }
+  if (
+    transfer.status !== 'ACCEPTED' ||
+    transfer.mode !== 'CUSTODIAL'
+  ) {
+    throw new OwnershipTransferError('No accepted custodial transfer');
+  }
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: transfer.digitalIdId },
+  });
+  if (!digitalId?.tokenId || !digitalId.contractAddress) {
+    throw new OwnershipTransferError('Digital ID has no token');
+  }
+  return advanceCustodialTransfer(transfer, digitalId);
+}
+
+/**
+ * Accept a transfer with the token from the offer link. Moves the token
+ * right away from a custodial wallet; otherwise the transfer waits, ACCEPTED,
+ * for the owner's transaction (`confirmUserSignedTransfer`). Accepting a
+ * custodial transfer again resumes it (`resumeCustodialTransfer`).
+ */
+export async function acceptOwnershipTransfer({
+  transferId,
+  token,
+}: {
+  transferId: string;
+  token: string;
+}) {
+  // @ts-ignore
+  const transfer = await prisma.ownershipTransfer.findUnique({
+    where: { id: transferId },
+  });
+  if (!transfer || !isAcceptToken(transfer, token)) {
+    throw new OwnershipTransferError('Transfer not found');
+  }
+  if (transfer.status === 'ACCEPTED' && transfer.mode === 'CUSTODIAL') {
+    return {
+      transfer: await resumeCustodialTransfer({ transferId, token }),
+    };
+  }
+  if (transfer.status !== 'PENDING') {
+    throw new OwnershipTransferError(`Transfer is ${transfer.status}`);
+  }
+  if (transfer.expiresAt <= new Date()) {
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: { status: 'EXPIRED' },
+    });
+    throw new OwnershipTransferError('Transfer offer has expired');
+  }
+
+  const isSms = transfer.toChannel === 'SMS';
+  const recipient = await user3faService.findOrCreateFromShopifyCustomer(
+    {
+      shopifyId: null,
+      phone: isSms ? transfer.toContact : undefined,
+      email: isSms ? undefined : transfer.toContact,
+    },
+    isSms ? transfer.toContact : undefined
+  );
+  if (!recipient) {
+    throw new Error(`Could not establish a User3fa for transfer ${transferId}`);
+  }
+  if (recipient.id === transfer.fromUser3faId) {
+    throw new OwnershipTransferError(
+      'The owner cannot accept their own transfer'
+    );
+  }
+  const wallet = isSms
+    ? await user3faService.ensurePrivyWalletForUser(
+        recipient.id,
+        transfer.toContact
+      )
+    : await ensurePrivyWalletForEmail(recipient.id, transfer.toContact);
+  if (!wallet.success || !wallet.privyWalletAddress) {
+    throw new Error(
+      `Could not provision a wallet for the recipient: ${wallet.error}`
+    );
+  }
+
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: transfer.digitalIdId },
+    include: { owner: { select: { privyWalletAddress: true } } },
+  });
+  const holder: string | null = digitalId?.privyWalletAddress ?? null;
+  if (
+    !digitalId ||
+    digitalId.owner3faId !== transfer.fromUser3faId ||
+    !OWNED_DIGITAL_ID_STATUSES.includes(digitalId.status) ||
+    !holder
+  ) {
+    // @ts-ignore
+    await prisma.ownershipTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: 'FAILED',
+        lastError: 'Digital ID no longer transferable',
+      },
+    });
+    throw new OwnershipTransferError('Digital ID can no longer be transferred');
+  }
+  const mode: TransferMode =
+    holder.toLowerCase() ===
+    digitalId.owner?.privyWalletAddress?.toLowerCase()
+      ? 'CUSTODIAL'
+      : 'USER_SIGNED';
+
+  // @ts-ignore
+  const { count } = await prisma.ownershipTransfer.updateMany({
+    where: { id: transfer.id, status: 'PENDING' },
+    data: {
+      status: 'ACCEPTED',
+      mode,
+      toUser3faId: recipient.id,
+      toWalletAddress: wallet.privyWalletAddress,
+      toPrivyDid: wallet.privyDid ?? null,
+      fromWalletAddress: holder,
+      acceptedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw new OwnershipTransferError('Transfer was already accepted');
+  }
+  const accepted = {
+    ...transfer,
+    status: 'ACCEPTED',
+    mode,
+    toUser3faId: recipient.id,
+    toWalletAddress: wallet.privyWalletAddress,
+    toPrivyDid: wallet.privyDid ?? null,
+    fromWalletAddress: holder,
+  };
+
+  if (mode === 'USER_SIGNED') {
+    console.log(
+      `[Transfer] ${transfer.id}: accepted, waiting for the owner's transaction`
+    );
+    const { chainConfig, call } = await tokenTransferCall(
+      digitalId,
+      holder,
+      wallet.privyWalletAddress
+    );
+    return {
+      transfer: accepted,
+      // What the owner's wallet has to send
+      userTransfer: {
+        chainId: chainConfig.id,
+        contractAddress: digitalId.contractAddress,
+        method: call.method,
+        params: call.params.map(param =>
+          typeof param === 'bigint' ? param.toString() : param
+        ),
+      },
+    };
+  }
+
+  return { transfer: await advanceCustodialTransfer(accepted, digitalId) };
+}
+
+/**
+ * Complete an ACCEPTED user-signed transfer from the owner's transaction,
+ * once its receipt shows the token moving to the recipient's wallet.
+ */
+export async function confirmUserSignedTransfer({
+  transferId,
+  transactionHash,
+}: {
+  transferId: string;
+  transactionHash: string;
+}) {
+  // @ts-ignore
+  const transfer = await prisma.ownershipTransfer.findUnique({
+    where: { id: transferId },
+  });
+  if (
+    !transfer ||
+    transfer.status !== 'ACCEPTED' ||
+    transfer.mode !== 'USER_SIGNED'
+  ) {
+    throw new OwnershipTransferError('No accepted transfer to confirm');
+  }
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: transfer.digitalIdId },
+  });
+  if (!digitalId?.tokenId || !digitalId.contractAddress) {
+    throw new OwnershipTransferError('Digital ID has no token');
+  }
+
+  const rpc = getRpcClient({
+    client: thirdwebClient(),
+    chain: chainConfigForBlockchain(digitalId.blockchain).chain,
+  });
+  const receipt = await eth_getTransactionReceipt(rpc, {
+    hash: transactionHash as `0x${string}`,
+  }).catch(() => null);
+  if (!receipt) {
+    throw new OwnershipTransferError('Transfer transaction is not mined yet');
+  }
+  if (receipt.status !== 'success') {
+    throw new OwnershipTransferError('Transfer transaction reverted');
+  }
+
+  if (!movesToken(receipt.logs ?? [], transfer, digitalId)) {
+    throw new OwnershipTransferError(
+      "Transaction does not move this token to the recipient's wallet"
+    );
+  }
+  return settleTransfer(transfer, digitalId, transactionHash);
+}
+
+/** Unminted statuses a claim can take over; a mint in flight cannot be */
+const CLAIMABLE_UNMINTED_STATUSES = ['CREATED', 'MINT_FAILED', 'CLAIMABLE'];
+
+/**
+ * Give the digital ID of a passport claim link to the customer claiming it,
+ * using up the link's claim token. A minted token in the owner's custodial
+ * wallet moves through an ACCEPTED custodial transfer, resumed like any
+ * other, also by claiming again; an unminted digital ID changes owner and
+ * is minted to the claimer's wallet. The brand's transfer rules do not apply: the brand
+ * issued the claim. Throws `PassportLinkError` for an invalid or used link.
+ */
+export async function claimDigitalIdWithPassport({
+  token,
+  user3faId,
+}: {
+  token: string;
+  user3faId: string;
+}): Promise<{ digitalIdId: string; transfer: any | null }> {
+  const link = verifyPassportToken(token);
+  if (link.subject.type !== 'digitalId') {
+    throw new OwnershipTransferError('Only a digital ID passport is claimable');
+  }
+  // @ts-ignore
+  const claimer = await prisma.user3fa.findUnique({
+    where: { id: user3faId },
+    select: { privyWalletAddress: true, privyDid: true },
+  });
+  if (!claimer?.privyWalletAddress) {
+    throw new OwnershipTransferError('The claimer has no wallet yet');
+  }
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: link.subject.id },
+    include: { owner: { select: { privyWalletAddress: true } } },
+  });
+  if (!digitalId) {
+    throw new OwnershipTransferError('Digital ID not found');
+  }
+
+  // Claiming again resumes the claim's transfer while the token has not moved
+  // @ts-ignore
+  const claimed = await prisma.ownershipTransfer.findFirst({
+    where: {
+      digitalIdId: digitalId.id,
+      toUser3faId: user3faId,
+      toChannel: 'PASSPORT_CLAIM',
+      status: 'ACCEPTED',
+    },
+    select: { id: true },
+  });
+  if (claimed) {
+    return {
+      digitalIdId: digitalId.id,
+      transfer: await resumeCustodialTransfer({
+        transferId: claimed.id,
+        user3faId,
+      }),
+    };
+  }
+
+  if (digitalId.owner3faId === user3faId) {
+    await redeemPassportClaim(token, user3faId);
+    return { digitalIdId: digitalId.id, transfer: null };
+  }
+
+  if (CLAIMABLE_UNMINTED_STATUSES.includes(digitalId.status)) {
+    await redeemPassportClaim(token, user3faId);
+    // The wallet is attached and the mint queued by the reconciliation
+    // @ts-ignore
+    const { count } = await prisma.uniqueDigitalId.updateMany({
+      where: {
+        id: digitalId.id,
+        owner3faId: digitalId.owner3faId,
+        status: { in: CLAIMABLE_UNMINTED_STATUSES },
+      },
+      data: {
+        owner3faId: user3faId,
+        privyWalletAddress: null,
+        privyDid: null,
+      },
+    });
+    if (count === 0) {
+      throw new OwnershipTransferError(
+        'Digital ID changed owner or status during the claim'
+      );
+    }
+    // The previous owner's voucher must not be handed out or relayed any more
+    await voidMintVouchers(digitalId.id, `passport claim by ${user3faId}`);
+    await recordDigitalIdEvent({
+      digitalIdId: digitalId.id,
+      type: 'OWNERSHIP_TRANSFERRED',
+      actor: `customer:${claimer.privyWalletAddress.toLowerCase()}`,
+      reason: `Passport claim by ${user3faId} before the mint`,
+    });
+    await reconcileDeferredMints(
+      user3faId,
+      `customer:${claimer.privyWalletAddress.toLowerCase()}`
+    );
+    console.log(
+      `[Transfer] Digital ID ${digitalId.id} claimed by ${user3faId} before the mint`
+    );
+    return { digitalIdId: digitalId.id, transfer: null };
+  }
+
+  const holder: string | null = digitalId.privyWalletAddress ?? null;
+  if (
+    !OWNED_DIGITAL_ID_STATUSES.includes(digitalId.status) ||
+    !digitalId.tokenId ||
+    !digitalId.contractAddress
+  ) {
+    throw new OwnershipTransferError(
+      `Digital ID is ${digitalId.status} and cannot be claimed now`
+    );
+  }
+  const ownerWallet = digitalId.owner?.privyWalletAddress?.toLowerCase();
+  if (!holder || holder.toLowerCase() !== ownerWallet) {
+    throw new OwnershipTransferError(
+      "The token is in the owner's own wallet and cannot be claimed"
+    );
+  }
+  // @ts-ignore
+  await prisma.ownershipTransfer.updateMany({
+    where: {
+      digitalIdId: digitalId.id,
+      status: 'PENDING',
+      expiresAt: { lte: new Date() },
+    },
+    data: { status: 'EXPIRED' },
+  });
+  // @ts-ignore
+  const open = await prisma.ownershipTransfer.findFirst({
+    where: {
+      digitalIdId: digitalId.id,
+      status: { in: ['PENDING', 'ACCEPTED'] },
+    },
+    select: { id: true },
+  });
+  if (open) {
+    throw new OwnershipTransferError(
+      'A transfer of this digital ID is already in progress'
+    );
+  }
+
+  await redeemPassportClaim(token, user3faId);
+  const now = new Date();
+  // @ts-ignore
+  const transfer = await prisma.ownershipTransfer.create({
+    data: {
+      digitalIdId: digitalId.id,
+      fromUser3faId: digitalId.owner3faId,
+      fromWalletAddress: holder,
+      toChannel: 'PASSPORT_CLAIM',
+      toContact: user3faId,
+      // Nothing to accept; the claim token was the credential
+      acceptTokenHash: hashToken(randomBytes(24).toString('base64url')),
+      status: 'ACCEPTED',
+      mode: 'CUSTODIAL',
+      toUser3faId: user3faId,
+      toWalletAddress: claimer.privyWalletAddress,
+      toPrivyDid: claimer.privyDid ?? null,
+      expiresAt: now,
+      acceptedAt: now,
+    },
+  });
+  console.log(
+    `[Transfer] ${transfer.id}: digital ID ${digitalId.id} claimed by ${user3faId} with its passport`
+  );
+  return {
+    digitalIdId: digitalId.id,
+    transfer: await advanceCustodialTransfer(transfer, digitalId),
+  };
+}
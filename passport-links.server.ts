@@ -0,0 +1,349 @@
+import {
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+  timingSafeEqual,
+  verify,
+  type KeyObject,
+} from 'node:crypto';
+// @ts-ignore
+import prisma from '../../db.server.js';
+
+/**
+ * @file passport-links.server.ts
+ * @description Signed passport links for SMS and printed QR codes.
+ *
+ * A link is `<PASSPORT_BASE_URL>/p/<token>`, with the token
+ *   `<kid>.<o|d><id>.<issued>.<expires>.<claim>.<signature>`
+ * for an order (`o`) or a digital ID (`d`); times are unix seconds in base
+ * 36, `expires` and `claim` may be empty. The signature covers everything
+ * before it, so a link cannot be forged or pointed at another id, and ids
+ * cannot be enumerated.
+ *
+ * Keys come from `PASSPORT_SIGNING_KEYS`, comma separated `kid:alg:key`
+ * entries with base64 keys:
+ * - `hmac`: a secret of at least 32 bytes (HMAC-SHA256);
+ * - `ed25519`: a DER PKCS#8 private key;
+ * - `ed25519-public`: a DER SPKI public key, to verify only.
+ * New links are signed with `PASSPORT_SIGNING_KEY_ID` (default: the first
+ * key that can sign). To rotate, add the new key, switch the key id, and
+ * drop the old key once its links may stop working.
+ *
+ * A link may carry a one-time claim token, e.g. for a passport printed on
+ * packaging that the first customer to scan it takes ownership of. Only its
+ * hash is stored (`PassportClaim`); `redeemPassportClaim` uses it up.
+ */
+
+export type PassportSubject = { type: 'order' | 'digitalId'; id: string };
+
+export type PassportLinkRejection =
+  | 'MALFORMED'
+  | 'UNKNOWN_KEY'
+  | 'BAD_SIGNATURE'
+  | 'NOT_YET_VALID'
+  | 'EXPIRED'
+  | 'NO_CLAIM'
+  | 'CLAIM_USED';
+
+export class PassportLinkError extends Error {
+  constructor(
+    public readonly reason: PassportLinkRejection,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PassportLinkError';
+  }
+}
+
+export interface VerifiedPassportLink {
+  subject: PassportSubject;
+  keyId: string;
+  issuedAt: Date;
+  expiresAt: Date | null;
+  claimToken: string | null;
+}
+
+interface PassportKey {
+  kid: string;
+  alg: 'hmac' | 'ed25519';
+  secret?: Buffer;
+  privateKey?: KeyObject;
+  publicKey?: KeyObject;
+}
+
+const SUBJECT_PREFIXES = { order: 'o', digitalId: 'd' } as const;
+const TOKEN_PART = /^[A-Za-z0-9_-]{1,64}$/;
+/** Issue times this far ahead are accepted, for clock skew between hosts */
+const CLOCK_SKEW_SECONDS = 300;
+const DEFAULT_TTL_DAYS = parseInt(
+  process.env.PASSPORT_LINK_TTL_DAYS || '0',
+  10
+);
+
+let cachedKeys: { config: string; keys: Map<string, PassportKey> } | null =
+  null;
+
+function passportKeys(): Map<string, PassportKey> {
+  const config = process.env.PASSPORT_SIGNING_KEYS ?? '';
+  if (cachedKeys?.config === config) {
+    return cachedKeys.keys;
+  }
+
+  const keys = new Map<string, PassportKey>();
+  for (const entry of config.split(',').map(value => value.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const [kid, alg, encoded] = entry.split(':');
+    if (!kid || !TOKEN_PART.test(kid) || !encoded) {
+      throw new Error(`Invalid PASSPORT_SIGNING_KEYS entry for "${kid}"`);
+    }
+    const der = Buffer.from(encoded, 'base64');
+    if (alg === 'hmac') {
+      if (der.length < 32) {
+        throw new Error(`Passport key ${kid}: HMAC secret under 32 bytes`);
+      }
+      keys.set(kid, { kid, alg, secret: der });
+    } else if (alg === 'ed25519') {
+      const privateKey = createPrivateKey({
+        key: der,
+        format: 'der',
+        type: 'pkcs8',
+      });
+      keys.set(kid, {
+        kid,
+        alg,
+        privateKey,
+        publicKey: createPublicKey(privateKey),
+      });
+    } else if (alg === 'ed25519-public') {
+      keys.set(kid, {
+        kid,
+        alg: 'ed25519',
+        publicKey: createPublicKey({ key: der, format: 'der', type: 'spki' }),
+      });
+    } else {
+      throw new Error(`Passport key ${kid}: unknown algorithm ${alg}`);
+    }
+  }
+  cachedKeys = { config, keys };
+  return keys;
+}
+
+export function isPassportSigningEnabled(): boolean {
+  return Boolean(process.env.PASSPORT_SIGNING_KEYS?.trim());
+}
+
+function signingKey(): PassportKey {
+  const keys = [...passportKeys().values()];
+  const kid = process.env.PASSPORT_SIGNING_KEY_ID?.trim();
+  const key = kid
+    ? keys.find(candidate => candidate.kid === kid)
+    : keys.find(candidate => candidate.secret || candidate.privateKey);
+  if (!key || (!key.secret && !key.privateKey)) {
+    throw new Error(
+      kid
+        ? `Passport key ${kid} is not configured or cannot sign`
+        : 'PASSPORT_SIGNING_KEYS has no key that can sign'
+    );
+  }
+  return key;
+}
+
+function signedData(unsigned: string): Buffer {
+  return Buffer.from(`passport-v1.${unsigned}`);
+}
+
+function signWith(key: PassportKey, unsigned: string): string {
+  const data = signedData(unsigned);
+  const signature =
+    key.alg === 'hmac'
+      ? createHmac('sha256', key.secret!).update(data).digest()
+      : sign(null, data, key.privateKey!);
+  return signature.toString('base64url');
+}
+
+function hasValidSignature(
+  key: PassportKey,
+  unsigned: string,
+  signature: string
+): boolean {
+  const presented = Buffer.from(signature, 'base64url');
+  const data = signedData(unsigned);
+  if (key.alg === 'hmac') {
+    const expected = createHmac('sha256', key.secret!).update(data).digest();
+    return (
+      presented.length === expected.length &&
+      timingSafeEqual(presented, expected)
+    );
+  }
+  try {
+    return verify(null, data, key.publicKey!, presented);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A signed passport token. Pass `expiresInSeconds: 0` for a link that does
+ * not expire, e.g. one printed on packaging, and a fixed `issuedAt` for a
+ * link that must come out the same every time it is signed.
+ */
+export function signPassportToken({
+  subject,
+  expiresInSeconds = DEFAULT_TTL_DAYS * 24 * 60 * 60,
+  claimToken,
+  issuedAt,
+}: {
+  subject: PassportSubject;
+  expiresInSeconds?: number;
+  claimToken?: string;
+  issuedAt?: Date;
+}): string {
+  if (!TOKEN_PART.test(subject.id)) {
+    throw new Error(`Cannot sign a passport link for id "${subject.id}"`);
+  }
+  const key = signingKey();
+  const issued = Math.floor((issuedAt?.getTime() ?? Date.now()) / 1000);
+  const unsigned = [
+    key.kid,
+    `${SUBJECT_PREFIXES[subject.type]}${subject.id}`,
+    issued.toString(36),
+    expiresInSeconds > 0 ? (issued + expiresInSeconds).toString(36) : '',
+    claimToken ?? '',
+  ].join('.');
+  return `${unsigned}.${signWith(key, unsigned)}`;
+}
+
+export function passportBaseUrl(): string {
+  return (process.env.PASSPORT_BASE_URL || 'mvp.3fa.co').replace(/\/$/, '');
+}
+
+export function passportLinkUrl(token: string): string {
+  return `${passportBaseUrl()}/p/${token}`;
+}
+
+/**
+ * Check a passport token. Throws `PassportLinkError` for a forged, altered,
+ * expired or unreadable link.
+ */
+export function verifyPassportToken(
+  token: string,
+  now: number = Date.now()
+): VerifiedPassportLink {
+  const parts = token.length <= 512 ? token.split('.') : [];
+  if (parts.length !== 6) {
+    throw new PassportLinkError('MALFORMED', 'Malformed passport link');
+  }
+  const [kid, subject, issued, expires, claimToken, signature] = parts;
+
+  const key = passportKeys().get(kid);
+  if (!key) {
+    throw new PassportLinkError('UNKNOWN_KEY', `Unknown passport key ${kid}`);
+  }
+  if (!hasValidSignature(key, parts.slice(0, 5).join('.'), signature)) {
+    throw new PassportLinkError('BAD_SIGNATURE', 'Invalid passport signature');
+  }
+
+  const types = Object.keys(SUBJECT_PREFIXES) as PassportSubject['type'][];
+  const type = types.find(
+    candidate => SUBJECT_PREFIXES[candidate] === subject[0]
+  );
+  const id = subject.slice(1);
+  const issuedAt = parseInt(issued, 36);
+  const expiresAt = expires ? parseInt(expires, 36) : null;
+  if (
+    !type ||
+    !TOKEN_PART.test(id) ||
+    !Number.isFinite(issuedAt) ||
+    Number.isNaN(expiresAt)
+  ) {
+    throw new PassportLinkError('MALFORMED', 'Malformed passport link');
+  }
+  const nowSeconds = Math.floor(now / 1000);
+  if (issuedAt > nowSeconds + CLOCK_SKEW_SECONDS) {
+    throw new PassportLinkError('NOT_YET_VALID', 'Passport link not yet valid');
+  }
+  if (expiresAt !== null && expiresAt <= nowSeconds) {
+    throw new PassportLinkError('EXPIRED', 'Passport link has expired');
+  }
+
+  return {
+    subject: { type, id },
+    keyId: kid,
+    issuedAt: new Date(issuedAt * 1000),
+    expiresAt: expiresAt === null ? null : new Date(expiresAt * 1000),
+    claimToken: claimToken || null,
+  };
+}
+
+function claimId(claimToken: string): string {
+  return createHash('sha256').update(claimToken).digest('hex');
+}
+
+/**
+ * A signed passport link with a fresh one-time claim token.
+ */
+export async function issuePassportClaimLink({
+  subject,
+  expiresInSeconds,
+}: {
+  subject: PassportSubject;
+  expiresInSeconds?: number;
+}) {
+  const claimToken = randomBytes(16).toString('base64url');
+  const token = signPassportToken({ subject, expiresInSeconds, claimToken });
+  // @ts-ignore
+  await prisma.passportClaim.create({
+    data: {
+      id: claimId(claimToken),
+      subjectType: subject.type,
+      subjectId: subject.id,
+    },
+  });
+  return { token, url: passportLinkUrl(token) };
+}
+
+/** Whether the link's claim token can still be used, or null without one. */
+export async function passportClaimStatus(
+  link: VerifiedPassportLink
+): Promise<'AVAILABLE' | 'CLAIMED' | null> {
+  if (!link.claimToken) {
+    return null;
+  }
+  // @ts-ignore
+  const claim = await prisma.passportClaim.findUnique({
+    where: { id: claimId(link.claimToken) },
+    select: { claimedAt: true },
+  });
+  return claim && !claim.claimedAt ? 'AVAILABLE' : 'CLAIMED';
+}
+
+/**
+ * Use up the claim token of a passport link for a user. Throws
+ * `PassportLinkError` when the link is invalid, has no claim token or it was
+ * already used. What the claim grants is up to the caller.
+ */
+export async function redeemPassportClaim(token: string, user3faId: string) {
+  const link = verifyPassportToken(token);
+  if (!link.claimToken) {
+    throw new PassportLinkError('NO_CLAIM', 'Passport link has no claim');
+  }
+  // @ts-ignore
+  const { count } = await prisma.passportClaim.updateMany({
+    where: {
+      id: claimId(link.claimToken),
+      subjectType: link.subject.type,
+      subjectId: link.subject.id,
+      claimedAt: null,
+    },
+    data: { claimedAt: new Date(), claimedBy: user3faId },
+  });
+  if (count === 0) {
+    throw new PassportLinkError('CLAIM_USED', 'Passport claim already used');
+  }
+  return link;
+}
@@ -0,0 +1,170 @@
+import {
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type NumberType,
+} from 'libphonenumber-js/max';
+import type { PayloadOrder } from '../../types/shopify.payload.types.js';
+
+/**
+ * @file phone-normalization.server.ts
+ * @description E.164 normalization of the phone numbers found on an order.
+ *
+ * Shopify hands us numbers as the customer typed them ("(415) 555-0100",
+ * "07700 900123"). Numbers without a country prefix are parsed in the order's
+ * shipping (else billing) country. Invalid numbers are rejected with a
+ * structured reason instead of reaching Twilio, and the same person always
+ * ends up with the same E.164 string for User3fa matching and Privy.
+ * Fixed-line, VoIP and other numbers that cannot get SMS are still valid
+ * identities; they are flagged (`smsCapable`) so only SMS sends skip them.
+ */
+
+export type PhoneSource =
+  | 'order'
+  | 'shipping_address'
+  | 'billing_address'
+  | 'customer';
+
+export type PhoneRejectionReason =
+  /** Nothing usable after trimming. */
+  | 'EMPTY'
+  /** Not a phone number, or no country prefix and no default region. */
+  | 'UNPARSEABLE'
+  /** Parsed, but not a valid number for its region. */
+  | 'INVALID';
+
+export type AcceptedPhone = {
+  ok: true;
+  source: PhoneSource;
+  raw: string;
+  e164: string;
+  country?: CountryCode;
+  /** False when the region does not distinguish mobile from fixed lines. */
+  confirmedMobile: boolean;
+  /** From the numbering plan; unset when the region does not tell. */
+  lineType?: NumberType;
+  /** False for a fixed line, VoIP or service number: do not send it SMS. */
+  smsCapable: boolean;
+};
+
+export type RejectedPhone = {
+  ok: false;
+  source: PhoneSource;
+  raw: string;
+  reason: PhoneRejectionReason;
+  detail: string;
+};
+
+export type PhoneCandidate = AcceptedPhone | RejectedPhone;
+
+const SMS_CAPABLE_TYPES = new Set(['MOBILE', 'FIXED_LINE_OR_MOBILE']);
+
+/**
+ * Normalize one raw number to E.164, parsing national formats in
+ * `defaultRegion`.
+ */
+export function normalizePhone(
+  raw: string | null | undefined,
+  source: PhoneSource,
+  defaultRegion?: CountryCode
+): PhoneCandidate {
+  const trimmed = raw?.trim() ?? '';
+  if (!trimmed) {
+    return {
+      ok: false,
+      source,
+      raw: trimmed,
+      reason: 'EMPTY',
+      detail: 'No phone number',
+    };
+  }
+
+  const parsed = parsePhoneNumberFromString(trimmed, defaultRegion);
+  if (!parsed) {
+    return {
+      ok: false,
+      source,
+      raw: trimmed,
+      reason: 'UNPARSEABLE',
+      detail: defaultRegion
+        ? `Could not parse as a phone number in ${defaultRegion}`
+        : 'Could not parse without a country prefix or order country',
+    };
+  }
+  if (!parsed.isValid()) {
+    return {
+      ok: false,
+      source,
+      raw: trimmed,
+      reason: 'INVALID',
+      detail: `Not a valid number for ${
+        parsed.country ?? `+${parsed.countryCallingCode}`
+      }`,
+    };
+  }
+
+  const type = parsed.getType();
+  return {
+    ok: true,
+    source,
+    raw: trimmed,
+    e164: parsed.number,
+    country: parsed.country,
+    confirmedMobile: type === 'MOBILE',
+    lineType: type,
+    smsCapable: !type || SMS_CAPABLE_TYPES.has(type),
+  };
+}
+
+function toRegion(countryCode?: string | null): CountryCode | undefined {
+  const code = countryCode?.trim().toUpperCase();
+  return code && /^[A-Z]{2}$/.test(code) ? (code as CountryCode) : undefined;
+}
+
+/**
+ * Normalize every phone number on the order and pick the best one:
+ * a confirmed mobile number beats one whose type is ambiguous, which beats
+ * one that cannot get SMS, and ties go to the earlier source (order,
+ * shipping, billing, customer). Address phones are parsed in their own
+ * address's country.
+ */
+export function selectBestPhone(order: PayloadOrder): {
+  best?: AcceptedPhone;
+  rejected: RejectedPhone[];
+} {
+  const shippingRegion = toRegion(order.shipping_address?.country_code);
+  const billingRegion = toRegion(order.billing_address?.country_code);
+  const orderRegion = shippingRegion ?? billingRegion;
+
+  const candidates: PhoneCandidate[] = (
+    [
+      ['order', order.phone, orderRegion],
+      [
+        'shipping_address',
+        order.shipping_address?.phone,
+        shippingRegion ?? orderRegion,
+      ],
+      [
+        'billing_address',
+        order.billing_address?.phone,
+        billingRegion ?? orderRegion,
+      ],
+      ['customer', order.customer?.phone, orderRegion],
+    ] as Array<
+      [PhoneSource, string | null | undefined, CountryCode | undefined]
+    >
+  )
+    .filter(([, raw]) => raw?.trim())
+    .map(([source, raw, region]) => normalizePhone(raw, source, region));
+
+  const accepted = candidates.filter(
+    (candidate): candidate is AcceptedPhone => candidate.ok
+  );
+  const rejected = candidates.filter(
+    (candidate): candidate is RejectedPhone => !candidate.ok
+  );
+  const best =
+    accepted.find(c => c.confirmedMobile) ??
+    accepted.find(c => c.smsCapable) ??
+    accepted[0];
+  return { best, rejected };
+}
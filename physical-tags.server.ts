@@ -0,0 +1,545 @@
+import { createHash } from 'node:crypto';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  INACTIVE_DIGITAL_ID_STATUSES,
+  recordDigitalIdEvent,
+  type DigitalIdActor,
+} from '../digital-id/digital-id-status.server.js';
+import {
+  decryptPiccData,
+  openTagKey,
+  sealTagKey,
+  verifySunMac,
+} from './tag-sdm.server.js';
+
+/**
+ * @file physical-tags.server.ts
+ * @description The registry of physical product tags.
+ *
+ * A `PhysicalTag` is an NFC chip (by its UID) or a printed QR code (by its
+ * serial). Brands import them in batches (`PhysicalTagBatch`), and a tag is
+ * bound to one UniqueDigitalId when the unit is fulfilled. NFC tags with
+ * SUN/SDM (`tag-sdm.server.ts`) authenticate every tap; their read counter
+ * must increase, so a replayed URL or a chip clone is caught. Static NFC
+ * tags and QR codes can be copied freely; for those, a tag scanned by many
+ * different clients in a short window is flagged as a suspected clone.
+ *
+ * Every scan is kept in `PhysicalTagScan`, with a hash of the client
+ * (IP and user agent) rather than the client itself.
+ */
+
+export const TAG_KINDS = ['NFC', 'QR'] as const;
+export type TagKind = (typeof TAG_KINDS)[number];
+
+export type ScanVerdict =
+  /** SUN MAC valid and the counter moved forward */
+  | 'AUTHENTIC'
+  /** Static NFC UID or QR serial: known, but cannot be authenticated */
+  | 'UNVERIFIED'
+  /** Valid SUN MAC with a counter already seen: a copied URL */
+  | 'REPLAYED'
+  /** SUN MAC does not match the tag key: forged or cloned */
+  | 'INVALID_SIGNATURE'
+  /** Scan pattern of a copied tag */
+  | 'SUSPECTED_CLONE'
+  | 'REVOKED'
+  | 'UNKNOWN_TAG';
+
+export class PhysicalTagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhysicalTagError';
+  }
+}
+
+const TAG_IMPORT_MAX_SIZE = parseInt(
+  process.env.TAG_IMPORT_MAX_SIZE || '10000',
+  10
+);
+const TAG_CLONE_WINDOW_MS = parseInt(
+  process.env.TAG_CLONE_WINDOW_MS || String(24 * 60 * 60 * 1000),
+  10
+);
+const TAG_CLONE_MAX_CLIENTS = parseInt(
+  process.env.TAG_CLONE_MAX_CLIENTS || '5',
+  10
+);
+
+const AES_KEY = /^[0-9a-fA-F]{32}$/;
+
+/** NFC UIDs are 4 or 7 bytes; stored as upper-case hex. */
+function normalizeUid(uid: string): string {
+  const hex = uid.replace(/[\s:-]/g, '').toUpperCase();
+  if (!/^([0-9A-F]{8}|[0-9A-F]{14})$/.test(hex)) {
+    throw new PhysicalTagError(`Invalid NFC UID "${uid}"`);
+  }
+  return hex;
+}
+
+function normalizeSerial(serial: string): string {
+  const trimmed = serial.trim();
+  if (!trimmed || trimmed.length > 128) {
+    throw new PhysicalTagError(`Invalid QR serial "${serial}"`);
+  }
+  return trimmed;
+}
+
+function checkKey(name: string, key: string | undefined) {
+  if (key !== undefined && !AES_KEY.test(key)) {
+    throw new PhysicalTagError(`${name} must be a 16-byte hex AES key`);
+  }
+}
+
+export interface TagImportInput {
+  kind: TagKind;
+  uid?: string;
+  serial?: string;
+  /** Per-tag SDM file read key; defaults to the batch's */
+  sdmFileReadKey?: string;
+}
+
+/**
+ * Import a batch of tags for a brand. Tags whose UID or serial is already
+ * registered are skipped and reported; the others are imported together.
+ */
+export async function importTagBatch({
+  brandId,
+  name,
+  tags,
+  sdmMetaReadKey,
+  sdmFileReadKey,
+}: {
+  brandId: string;
+  name: string;
+  tags: TagImportInput[];
+  /** Decrypts `picc_data` of the batch's NFC tags */
+  sdmMetaReadKey?: string;
+  /** SDM file read key shared by the batch's NFC tags */
+  sdmFileReadKey?: string;
+}) {
+  if (tags.length === 0 || tags.length > TAG_IMPORT_MAX_SIZE) {
+    throw new PhysicalTagError(
+      `A batch holds 1 to ${TAG_IMPORT_MAX_SIZE} tags, got ${tags.length}`
+    );
+  }
+  checkKey('sdmMetaReadKey', sdmMetaReadKey);
+  checkKey('sdmFileReadKey', sdmFileReadKey);
+
+  const seen = new Set<string>();
+  const rows = tags.map((tag, index) => {
+    if (!TAG_KINDS.includes(tag.kind)) {
+      throw new PhysicalTagError(`Tag #${index + 1}: unknown kind ${tag.kind}`);
+    }
+    checkKey(`Tag #${index + 1} sdmFileReadKey`, tag.sdmFileReadKey);
+    const uid = tag.kind === 'NFC' ? normalizeUid(tag.uid ?? '') : null;
+    const serial =
+      tag.kind === 'QR' || tag.serial
+        ? normalizeSerial(tag.serial ?? '')
+        : null;
+    const key = uid ?? serial!;
+    if (seen.has(key)) {
+      throw new PhysicalTagError(`Tag #${index + 1}: ${key} is listed twice`);
+    }
+    seen.add(key);
+
+    const fileReadKey =
+      tag.kind === 'NFC' ? (tag.sdmFileReadKey ?? sdmFileReadKey) : undefined;
+    return {
+      brand_3fa_id: brandId,
+      kind: tag.kind,
+      uid,
+      serial,
+      sdmEnabled: Boolean(fileReadKey),
+      sdmFileReadKeyEnc: fileReadKey ? sealTagKey(fileReadKey) : null,
+      lastCounter: -1,
+      status: 'ACTIVE',
+    };
+  });
+
+  const uids = rows.flatMap(row => (row.uid ? [row.uid] : []));
+  const serials = rows.flatMap(row => (row.serial ? [row.serial] : []));
+  // @ts-ignore
+  const existing = await prisma.physicalTag.findMany({
+    where: { OR: [{ uid: { in: uids } }, { serial: { in: serials } }] },
+    select: { uid: true, serial: true },
+  });
+  const taken = new Set<string>(
+    existing.flatMap((tag: any) => [tag.uid, tag.serial].filter(Boolean))
+  );
+  const fresh = rows.filter(
+    row => !taken.has(row.uid ?? '') && !taken.has(row.serial ?? '')
+  );
+
+  // @ts-ignore
+  const batch = await prisma.$transaction(async tx => {
+    const created = await tx.physicalTagBatch.create({
+      data: {
+        brand_3fa_id: brandId,
+        name,
+        sdmMetaReadKeyEnc: sdmMetaReadKey ? sealTagKey(sdmMetaReadKey) : null,
+      },
+    });
+    await tx.physicalTag.createMany({
+      data: fresh.map(row => ({ ...row, batchId: created.id })),
+    });
+    return created;
+  });
+
+  console.log(
+    `[Tags] Imported batch ${batch.id} for brand ${brandId}: ${fresh.length} tags, ${taken.size} already registered`
+  );
+  return {
+    batchId: batch.id,
+    imported: fresh.length,
+    alreadyRegistered: [...taken],
+  };
+}
+
+/** A brand's tag batches, newest first, with their tag counts. */
+export async function listTagBatches(brandId: string) {
+  // @ts-ignore
+  return prisma.physicalTagBatch.findMany({
+    where: { brand_3fa_id: brandId },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      _count: { select: { tags: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+async function findBrandTag(
+  brandId: string,
+  { uid, serial }: { uid?: string; serial?: string }
+) {
+  if (!uid && !serial) {
+    throw new PhysicalTagError('uid or serial is required');
+  }
+  // @ts-ignore
+  const tag = await prisma.physicalTag.findFirst({
+    where: {
+      brand_3fa_id: brandId,
+      ...(uid
+        ? { uid: normalizeUid(uid) }
+        : { serial: normalizeSerial(serial!) }),
+    },
+  });
+  if (!tag) {
+    throw new PhysicalTagError(`Tag ${uid ?? serial} is not registered`);
+  }
+  return tag;
+}
+
+function describeTag(tag: {
+  kind: string;
+  uid: string | null;
+  serial: string | null;
+}) {
+  return tag.kind === 'NFC' ? `NFC tag ${tag.uid}` : `QR code ${tag.serial}`;
+}
+
+/**
+ * Bind a brand's tag to one of its digital IDs, typically when the unit is
+ * fulfilled. A tag is bound once and a digital ID has at most one tag.
+ */
+export async function bindTag({
+  brandId,
+  digitalIdId,
+  uid,
+  serial,
+  actor,
+}: {
+  brandId: string;
+  digitalIdId: string;
+  uid?: string;
+  serial?: string;
+  actor: DigitalIdActor;
+}) {
+  const tag = await findBrandTag(brandId, { uid, serial });
+  if (tag.status !== 'ACTIVE') {
+    throw new PhysicalTagError(`${describeTag(tag)} is ${tag.status}`);
+  }
+  if (tag.digitalIdId === digitalIdId) {
+    return tag;
+  }
+  if (tag.digitalIdId) {
+    throw new PhysicalTagError(`${describeTag(tag)} is already bound`);
+  }
+
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findFirst({
+    where: { id: digitalIdId, brand_3fa_id: brandId },
+    select: { id: true, status: true },
+  });
+  if (!digitalId) {
+    throw new PhysicalTagError(`Digital ID ${digitalIdId} not found`);
+  }
+  if (INACTIVE_DIGITAL_ID_STATUSES.includes(digitalId.status)) {
+    throw new PhysicalTagError(
+      `Digital ID ${digitalIdId} is ${digitalId.status}`
+    );
+  }
+  // @ts-ignore
+  const other = await prisma.physicalTag.findFirst({
+    where: { digitalIdId },
+    select: { id: true },
+  });
+  if (other) {
+    throw new PhysicalTagError(
+      `Digital ID ${digitalIdId} already has a tag bound`
+    );
+  }
+
+  // @ts-ignore
+  const { count } = await prisma.physicalTag.updateMany({
+    where: { id: tag.id, digitalIdId: null },
+    data: { digitalIdId, boundAt: new Date(), boundBy: actor },
+  });
+  if (count === 0) {
+    throw new PhysicalTagError(`${describeTag(tag)} is already bound`);
+  }
+  await recordDigitalIdEvent({
+    digitalIdId,
+    type: 'TAG_BOUND',
+    actor,
+    reason: describeTag(tag),
+  });
+  return { ...tag, digitalIdId };
+}
+
+/** Release a tag from its digital ID, e.g. when it was attached in error. */
+export async function unbindTag({
+  brandId,
+  uid,
+  serial,
+  actor,
+  reason,
+}: {
+  brandId: string;
+  uid?: string;
+  serial?: string;
+  actor: DigitalIdActor;
+  reason?: string;
+}) {
+  const tag = await findBrandTag(brandId, { uid, serial });
+  if (!tag.digitalIdId) {
+    return tag;
+  }
+  // @ts-ignore
+  await prisma.physicalTag.update({
+    where: { id: tag.id },
+    data: { digitalIdId: null, boundAt: null, boundBy: null },
+  });
+  await recordDigitalIdEvent({
+    digitalIdId: tag.digitalIdId,
+    type: 'TAG_UNBOUND',
+    actor,
+    reason: reason ? `${describeTag(tag)}: ${reason}` : describeTag(tag),
+  });
+  return { ...tag, digitalIdId: null };
+}
+
+export interface TagScanInput {
+  /** Static or plain SUN mirror */
+  uid?: string;
+  /** Plain SUN mirror, hex, most significant byte first */
+  counter?: string;
+  /** Encrypted SUN mirror; needs `batchId` for the meta read key */
+  piccData?: string;
+  batchId?: string;
+  cmac?: string;
+  /** QR code */
+  serial?: string;
+  client: { ip?: string | null; userAgent?: string | null };
+}
+
+export interface TagScanResult {
+  verdict: ScanVerdict;
+  tag: { kind: TagKind; uid: string | null; serial: string | null } | null;
+  digitalId: {
+    id: string;
+    status: string;
+    tokenId: string | null;
+    contractAddress: string | null;
+    blockchain: string | null;
+  } | null;
+  /** The current holder's wallet, while the digital ID is active */
+  owner: { walletAddress: string | null } | null;
+}
+
+async function findTagForScan(
+  input: TagScanInput
+): Promise<{ tag: any; counter: number | null } | null> {
+  if (input.piccData && input.batchId) {
+    // @ts-ignore
+    const batch = await prisma.physicalTagBatch.findUnique({
+      where: { id: input.batchId },
+      select: { sdmMetaReadKeyEnc: true },
+    });
+    if (
+      !batch?.sdmMetaReadKeyEnc ||
+      !/^[0-9a-fA-F]{32}$/.test(input.piccData)
+    ) {
+      return null;
+    }
+    const picc = decryptPiccData(
+      openTagKey(batch.sdmMetaReadKeyEnc),
+      input.piccData
+    );
+    if (!picc) {
+      return null;
+    }
+    // @ts-ignore
+    const tag = await prisma.physicalTag.findFirst({
+      where: {
+        batchId: input.batchId,
+        uid: picc.uid.toString('hex').toUpperCase(),
+      },
+    });
+    return tag ? { tag, counter: picc.counter } : null;
+  }
+
+  let where: Record<string, string>;
+  try {
+    where = input.uid
+      ? { uid: normalizeUid(input.uid) }
+      : { serial: normalizeSerial(input.serial ?? '') };
+  } catch {
+    return null;
+  }
+  // @ts-ignore
+  const tag = await prisma.physicalTag.findFirst({ where });
+  if (!tag) {
+    return null;
+  }
+  const counter =
+    input.counter && /^[0-9a-fA-F]{6}$/.test(input.counter)
+      ? parseInt(input.counter, 16)
+      : null;
+  return { tag, counter };
+}
+
+async function sdmVerdict(
+  tag: any,
+  counter: number | null,
+  cmac: string | undefined
+): Promise<ScanVerdict> {
+  // Genuine SUN chips always mirror their MAC; a bare UID is a copy
+  if (counter === null || !cmac || !/^[0-9a-fA-F]{16}$/.test(cmac)) {
+    return 'SUSPECTED_CLONE';
+  }
+  const valid = verifySunMac(
+    openTagKey(tag.sdmFileReadKeyEnc),
+    Buffer.from(tag.uid, 'hex'),
+    counter,
+    cmac
+  );
+  if (!valid) {
+    return 'INVALID_SIGNATURE';
+  }
+  // @ts-ignore
+  const { count } = await prisma.physicalTag.updateMany({
+    where: { id: tag.id, lastCounter: { lt: counter } },
+    data: { lastCounter: counter },
+  });
+  return count > 0 ? 'AUTHENTIC' : 'REPLAYED';
+}
+
+async function staticVerdict(
+  tag: any,
+  clientHash: string
+): Promise<ScanVerdict> {
+  // @ts-ignore
+  const clients = await prisma.physicalTagScan.findMany({
+    where: {
+      tagId: tag.id,
+      createdAt: { gte: new Date(Date.now() - TAG_CLONE_WINDOW_MS) },
+    },
+    distinct: ['clientHash'],
+    select: { clientHash: true },
+  });
+  const distinct = new Set<string>(clients.map((scan: any) => scan.clientHash));
+  distinct.add(clientHash);
+  return distinct.size > TAG_CLONE_MAX_CLIENTS
+    ? 'SUSPECTED_CLONE'
+    : 'UNVERIFIED';
+}
+
+/**
+ * Resolve a scan to its tag, digital ID and current holder, with a verdict
+ * on the tag's authenticity. Every scan is recorded, unknown tags included.
+ */
+export async function verifyTagScan(
+  input: TagScanInput
+): Promise<TagScanResult> {
+  const clientHash = createHash('sha256')
+    .update(`${input.client.ip ?? ''}|${input.client.userAgent ?? ''}`)
+    .digest('hex');
+  const found = await findTagForScan(input);
+  const tag = found?.tag ?? null;
+
+  let verdict: ScanVerdict;
+  if (!tag) {
+    verdict = 'UNKNOWN_TAG';
+  } else if (tag.status !== 'ACTIVE') {
+    verdict = 'REVOKED';
+  } else if (tag.sdmEnabled) {
+    verdict = await sdmVerdict(tag, found!.counter, input.cmac);
+  } else {
+    verdict = await staticVerdict(tag, clientHash);
+  }
+
+  // @ts-ignore
+  await prisma.physicalTagScan.create({
+    data: {
+      tagId: tag?.id ?? null,
+      verdict,
+      counter: found?.counter ?? null,
+      clientHash,
+    },
+  });
+  if (verdict !== 'AUTHENTIC' && verdict !== 'UNVERIFIED') {
+    console.warn(
+      `[Tags] Scan verdict ${verdict} for ${tag ? describeTag(tag) : 'unknown tag'}`
+    );
+  }
+
+  let digitalId: TagScanResult['digitalId'] = null;
+  let owner: TagScanResult['owner'] = null;
+  if (tag?.digitalIdId) {
+    // @ts-ignore
+    const bound = await prisma.uniqueDigitalId.findUnique({
+      where: { id: tag.digitalIdId },
+      select: {
+        id: true,
+        status: true,
+        tokenId: true,
+        contractAddress: true,
+        blockchain: true,
+        privyWalletAddress: true,
+      },
+    });
+    if (bound) {
+      digitalId = {
+        id: bound.id,
+        status: bound.status,
+        tokenId: bound.tokenId ?? null,
+        contractAddress: bound.contractAddress ?? null,
+        blockchain: bound.blockchain ?? null,
+      };
+      if (!INACTIVE_DIGITAL_ID_STATUSES.includes(bound.status)) {
+        owner = { walletAddress: bound.privyWalletAddress ?? null };
+      }
+    }
+  }
+
+  return {
+    verdict,
+    tag: tag ? { kind: tag.kind, uid: tag.uid, serial: tag.serial } : null,
+    digitalId,
+    owner,
+  };
+}
@@ -0,0 +1,201 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db.server.js';
+import { log } from '../utils/logger.server.js';
+
+/**
+ * @file pipeline.server.ts
+ * @description Checkpointed step runner for BullMQ jobs.
+ *
+ * A job is described as an ordered list of named steps. Each completed step
+ * is recorded in `WebhookEvent.stepCheckpoints` together with the values it
+ * produced, so a BullMQ retry skips straight to the first unfinished step and
+ * rebuilds its state from the recorded outputs instead of repeating side
+ * effects (records created, messages sent).
+ */
+
+export interface StepRetryPolicy {
+  /** Attempts within a single job run before the step is reported as failed. */
+  attempts: number;
+  /** Delay before the second attempt; doubled on every further attempt. */
+  backoffMs: number;
+}
+
+export interface PipelineStep<TState> {
+  name: string;
+  retry?: StepRetryPolicy;
+  /**
+   * Optional steps record their failure and let the pipeline continue.
+   * Required steps fail the job so BullMQ can retry it.
+   */
+  optional?: boolean;
+  /**
+   * Returns the values this step adds to the pipeline state. They must be
+   * JSON-serializable because they are stored in the checkpoint.
+   */
+  run: (state: TState) => Promise<Partial<TState> | void>;
+  /** Called once the retry policy is exhausted, before the failure is reported. */
+  onFailure?: (state: TState, error: unknown) => Promise<void>;
+}
+
+export type StepCheckpoint = {
+  status: 'COMPLETED' | 'FAILED';
+  attempts: number;
+  at: string;
+  output?: Record<string, unknown>;
+  error?: string;
+};
+
+export type StepCheckpoints = Record<string, StepCheckpoint>;
+
+const DEFAULT_RETRY: StepRetryPolicy = { attempts: 1, backoffMs: 0 };
+
+/**
+ * Raised when a required step exhausts its retry policy.
+ * Carries the step name so job-level handlers can report where it stopped.
+ */
+export class PipelineStepError extends Error {
+  readonly step: string;
+
+  constructor(step: string, cause: unknown) {
+    super(`[${step}] ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PipelineStepError';
+    this.step = step;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function loadStepCheckpoints(
+  webhookEventId: string
+): Promise<StepCheckpoints> {
+  // @ts-ignore - stepCheckpoints is a Json column
+  const event = await prisma.webhookEvent.findUnique({
+    where: { id: webhookEventId },
+    select: { stepCheckpoints: true },
+  });
+  const checkpoints = event?.stepCheckpoints;
+  return checkpoints && typeof checkpoints === 'object'
+    ? (checkpoints as StepCheckpoints)
+    : {};
+}
+
+async function saveStepCheckpoint(
+  webhookEventId: string,
+  checkpoints: StepCheckpoints,
+  step: string,
+  checkpoint: StepCheckpoint
+) {
+  checkpoints[step] = checkpoint;
+  await prisma.webhookEvent.update({
+    where: { id: webhookEventId },
+    data: {
+      // @ts-ignore - stepCheckpoints is a Json column
+      stepCheckpoints: checkpoints as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Run `steps` in order against `state`, resuming after the last completed
+ * checkpoint of `webhookEventId`. Returns the final state.
+ */
+export async function runPipeline<TState extends object>({
+  webhookEventId,
+  steps,
+  state,
+  ctx,
+}: {
+  webhookEventId: string;
+  steps: PipelineStep<TState>[];
+  state: TState;
+  ctx: Record<string, unknown>;
+}): Promise<TState> {
+  const checkpoints = await loadStepCheckpoints(webhookEventId);
+
+  for (const step of steps) {
+    const stepCtx = { ...ctx, step: step.name };
+    const previous = checkpoints[step.name];
+
+    if (previous?.status === 'COMPLETED') {
+      Object.assign(state, previous.output ?? {});
+      log.info(stepCtx, `Step already completed at ${previous.at}, skipping.`);
+      continue;
+    }
+
+    const { attempts, backoffMs } = step.retry ?? DEFAULT_RETRY;
+    const stepStartTime = Date.now();
+    let lastError: unknown;
+    let completed = false;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        log.info(stepCtx, `Step started (attempt ${attempt}/${attempts})`);
+        const output = (await step.run(state)) ?? {};
+        Object.assign(state, output);
+        await saveStepCheckpoint(webhookEventId, checkpoints, step.name, {
+          status: 'COMPLETED',
+          attempts: attempt,
+          at: new Date().toISOString(),
+          output: output as Record<string, unknown>,
+        });
+        log.info(
+          { ...stepCtx, durationMs: Date.now() - stepStartTime },
+          'Step completed'
+        );
+        completed = true;
+        break;
+      } catch (error) {
+        lastError = error;
+        log.warn(
+          { ...stepCtx, attempt },
+          `Step attempt failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        if (attempt < attempts) {
+          await sleep(backoffMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    if (completed) {
+      continue;
+    }
+
+    const message =
+      lastError instanceof Error ? lastError.message : String(lastError);
+    log.error(
+      stepCtx,
+      `Step failed after ${attempts} attempt(s)${step.optional ? ', continuing' : ''}`,
+      lastError
+    );
+
+    if (step.onFailure) {
+      try {
+        await step.onFailure(state, lastError);
+      } catch (hookError) {
+        log.error(stepCtx, 'Step failure handler threw', hookError);
+      }
+    }
+
+    await saveStepCheckpoint(webhookEventId, checkpoints, step.name, {
+      status: 'FAILED',
+      attempts,
+      at: new Date().toISOString(),
+      error: message.substring(0, 900),
+    });
+    await prisma.webhookEvent.update({
+      where: { id: webhookEventId },
+      data: {
+        lastError: `[${step.name}] ${message.substring(0, 900)}`,
+        errorCount: { increment: 1 },
+      },
+    });
+
+    if (!step.optional) {
+      throw new PipelineStepError(step.name, lastError);
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,165 @@
+import { PrivyClient } from '@privy-io/server-auth';
+// @ts-ignore
+import prisma from '../../db.server.js';
+
+/**
+ * @file privy-client.server.ts
+ * @description The app's Privy server client, and what the consumer app's
+ * routes and the transfer flow do with it:
+ * - `authenticatePrivyUser` resolves the Privy access token a signed-in
+ *   customer sends as `Authorization: Bearer <token>` to their User3fa;
+ * - `syncPrivyWallet` records the embedded wallet the customer created in
+ *   the consumer app;
+ * - `sendPrivyWalletTransaction` sends a transaction from a customer's
+ *   embedded wallet. The wallet must have granted the app delegated actions
+ *   (a server session), and `PRIVY_AUTHORIZATION_PRIVATE_KEY` must hold the
+ *   app's authorization key.
+ */
+
+let privyClient: PrivyClient | null = null;
+
+export function getPrivyClient(): PrivyClient {
+  if (!privyClient) {
+    const appId = process.env.PRIVY_API_ID;
+    const appSecret = process.env.PRIVY_APP_SECRET;
+    if (!appId || !appSecret) {
+      throw new Error('PRIVY_API_ID and PRIVY_APP_SECRET are required');
+    }
+    const authorizationPrivateKey =
+      process.env.PRIVY_AUTHORIZATION_PRIVATE_KEY;
+    privyClient = new PrivyClient(
+      appId,
+      appSecret,
+      authorizationPrivateKey
+        ? { walletApi: { authorizationPrivateKey } }
+        : undefined
+    );
+  }
+  return privyClient;
+}
+
+export class PrivyAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivyAuthError';
+  }
+}
+
+export interface PrivyAuthenticatedUser {
+  user3faId: string;
+  privyDid: string;
+}
+
+/**
+ * The User3fa of the customer whose Privy access token the request carries.
+ * A User3fa not linked to the Privy user yet is found by the phone number or
+ * email on the Privy account and linked. Throws `PrivyAuthError` when the
+ * token is missing or invalid or no User3fa matches.
+ */
+export async function authenticatePrivyUser(
+  request: Request
+): Promise<PrivyAuthenticatedUser> {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    throw new PrivyAuthError('Missing Privy access token');
+  }
+
+  const privy = getPrivyClient();
+  let privyDid: string;
+  try {
+    ({ userId: privyDid } = await privy.verifyAuthToken(match[1].trim()));
+  } catch {
+    throw new PrivyAuthError('Invalid or expired Privy access token');
+  }
+
+  // @ts-ignore
+  const linked = await prisma.user3fa.findFirst({
+    where: { privyDid },
+    select: { id: true },
+  });
+  if (linked) {
+    return { user3faId: linked.id, privyDid };
+  }
+
+  const privyUser = await privy.getUser(privyDid);
+  const phone = privyUser.phone?.number;
+  const email = privyUser.email?.address?.toLowerCase();
+  if (!phone && !email) {
+    throw new PrivyAuthError('No customer account for this Privy user');
+  }
+  // @ts-ignore
+  const user3fa = await prisma.user3fa.findFirst({
+    where: {
+      privyDid: null,
+      OR: [
+        ...(phone ? [{ phone }] : []),
+        ...(email ? [{ email: { equals: email, mode: 'insensitive' } }] : []),
+      ],
+    },
+    select: { id: true },
+  });
+  if (!user3fa) {
+    throw new PrivyAuthError('No customer account for this Privy user');
+  }
+  // @ts-ignore
+  await prisma.user3fa.update({
+    where: { id: user3fa.id },
+    data: { privyDid },
+  });
+  return { user3faId: user3fa.id, privyDid };
+}
+
+/**
+ * The wallet address of a User3fa, copied from its Privy account when the
+ * customer created the wallet after we last looked (e.g. on their first
+ * sign-in to the consumer app). Null while they have none.
+ */
+export async function syncPrivyWallet({
+  user3faId,
+  privyDid,
+}: PrivyAuthenticatedUser): Promise<string | null> {
+  // @ts-ignore
+  const user3fa = await prisma.user3fa.findUnique({
+    where: { id: user3faId },
+    select: { privyWalletAddress: true },
+  });
+  if (user3fa?.privyWalletAddress) {
+    return user3fa.privyWalletAddress;
+  }
+
+  const privyUser = await getPrivyClient().getUser(privyDid);
+  const privyWalletAddress = privyUser.wallet?.address ?? null;
+  if (privyWalletAddress) {
+    // @ts-ignore
+    await prisma.user3fa.update({
+      where: { id: user3faId },
+      data: { privyWalletAddress },
+    });
+  }
+  return privyWalletAddress;
+}
+
+/**
+ * Send a contract call from a customer's Privy embedded wallet. Privy signs
+ * and broadcasts it; the transaction hash is returned.
+ */
+export async function sendPrivyWalletTransaction({
+  walletAddress,
+  chainId,
+  to,
+  data,
+}: {
+  walletAddress: string;
+  chainId: number;
+  to: string;
+  data: `0x${string}`;
+}): Promise<string> {
+  const { hash } = await getPrivyClient().walletApi.ethereum.sendTransaction({
+    address: walletAddress,
+    chainType: 'ethereum',
+    caip2: `eip155:${chainId}`,
+    transaction: { to, data, chainId },
+  });
+  return hash;
+}
@@ -0,0 +1,78 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { getPrivyClient } from './privy-client.server.js';
+
+/**
+ * @file privy-email-wallet.server.ts
+ * @description Provision a Privy embedded wallet for a User3fa that we can
+ * only reach by email. Mirrors `User3faService.ensurePrivyWalletForUser`,
+ * which does the same keyed on a phone number, and returns the same result
+ * shape.
+ */
+
+export async function ensurePrivyWalletForEmail(
+  user3faId: string,
+  email: string
+): Promise<{
+  success: boolean;
+  privyWalletAddress?: string | null;
+  privyDid?: string | null;
+  error?: string;
+}> {
+  try {
+    // @ts-ignore
+    const user3fa = await prisma.user3fa.findUnique({
+      where: { id: user3faId },
+      select: { privyDid: true, privyWalletAddress: true },
+    });
+    if (!user3fa) {
+      throw new Error(`User3fa not found: ${user3faId}`);
+    }
+    if (user3fa.privyDid && user3fa.privyWalletAddress) {
+      return {
+        success: true,
+        privyDid: user3fa.privyDid,
+        privyWalletAddress: user3fa.privyWalletAddress,
+      };
+    }
+
+    const privy = getPrivyClient();
+    let privyUser = await privy.getUserByEmail(email);
+    if (!privyUser) {
+      console.log(`[Privy] Creating email user with wallet for ${user3faId}`);
+      privyUser = await privy.importUser({
+        linkedAccounts: [{ type: 'email', address: email }],
+        createEthereumWallet: true,
+      });
+    }
+
+    if (!privyUser.wallet?.address) {
+      // The email already belongs to a Privy user without an embedded wallet
+      console.log(
+        `[Privy] Creating embedded wallet for existing user ${privyUser.id}`
+      );
+      privyUser = await privy.createWallets({
+        userId: privyUser.id,
+        createEthereumWallet: true,
+      });
+    }
+
+    const privyWalletAddress = privyUser.wallet?.address ?? null;
+    if (!privyWalletAddress) {
+      throw new Error(`Privy user ${privyUser.id} has no embedded wallet`);
+    }
+
+    // @ts-ignore
+    await prisma.user3fa.update({
+      where: { id: user3faId },
+      data: { privyDid: privyUser.id, privyWalletAddress },
+    });
+
+    return { success: true, privyDid: privyUser.id, privyWalletAddress };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  timingSafeEqual,
+} from 'node:crypto';
+
+/**
+ * @file tag-sdm.server.ts
+ * @description Secure Dynamic Messaging (SUN) of NXP NTAG 424 DNA chips.
+ *
+ * On every tap the chip increments its read counter and mirrors a message
+ * into the URL it serves, authenticated with an AES-CMAC under the tag's
+ * SDM file read key. Two layouts are supported:
+ * - plain: `uid=<hex>&ctr=<hex, MSB first>&cmac=<hex>`;
+ * - encrypted: `picc_data=<hex>&cmac=<hex>`, where the UID and counter are
+ *   AES-128-CBC encrypted under the batch's SDM meta read key.
+ * The CMAC must be configured over an empty input (SDMMACInputOffset equal
+ * to SDMMACOffset), which is how tag vendors usually ship them.
+ *
+ * Tag keys are stored encrypted with `TAG_KEY_ENCRYPTION_KEY` (32 bytes,
+ * hex), AES-256-GCM.
+ */
+
+const AES_BLOCK = 16;
+
+function aesEcbBlock(key: Buffer, block: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+function xorBlock(a: Buffer, b: Buffer): Buffer {
+  const out = Buffer.alloc(AES_BLOCK);
+  for (let i = 0; i < AES_BLOCK; i++) {
+    out[i] = a[i] ^ b[i];
+  }
+  return out;
+}
+
+function cmacSubkey(input: Buffer): Buffer {
+  const out = Buffer.alloc(AES_BLOCK);
+  for (let i = 0; i < AES_BLOCK; i++) {
+    const carry = i < AES_BLOCK - 1 ? input[i + 1] >> 7 : 0;
+    out[i] = ((input[i] << 1) | carry) & 0xff;
+  }
+  if (input[0] & 0x80) {
+    out[AES_BLOCK - 1] ^= 0x87;
+  }
+  return out;
+}
+
+/** AES-128-CMAC (RFC 4493). */
+export function aesCmac(key: Buffer, message: Buffer): Buffer {
+  const k1 = cmacSubkey(aesEcbBlock(key, Buffer.alloc(AES_BLOCK)));
+  const k2 = cmacSubkey(k1);
+
+  const blocks = Math.max(1, Math.ceil(message.length / AES_BLOCK));
+  const lastStart = (blocks - 1) * AES_BLOCK;
+  const complete = message.length > 0 && message.length % AES_BLOCK === 0;
+  let last: Buffer;
+  if (complete) {
+    last = xorBlock(message.subarray(lastStart), k1);
+  } else {
+    const padded = Buffer.alloc(AES_BLOCK);
+    message.subarray(lastStart).copy(padded);
+    padded[message.length - lastStart] = 0x80;
+    last = xorBlock(padded, k2);
+  }
+
+  let state = Buffer.alloc(AES_BLOCK);
+  for (let i = 0; i < blocks - 1; i++) {
+    state = aesEcbBlock(
+      key,
+      xorBlock(state, message.subarray(i * AES_BLOCK, (i + 1) * AES_BLOCK))
+    );
+  }
+  return aesEcbBlock(key, xorBlock(state, last));
+}
+
+/** 3-byte counter, least significant byte first, as the chip uses it. */
+function counterBytes(counter: number): Buffer {
+  return Buffer.from([
+    counter & 0xff,
+    (counter >> 8) & 0xff,
+    (counter >> 16) & 0xff,
+  ]);
+}
+
+/**
+ * The 8-byte SUN MAC for a UID and read counter: a session key is derived
+ * from the SDM file read key, and the odd bytes of its CMAC over the (empty)
+ * MAC input are kept.
+ */
+export function sunMac(fileReadKey: Buffer, uid: Buffer, counter: number) {
+  const sv2 = Buffer.concat([
+    Buffer.from([0x3c, 0xc3, 0x00, 0x01, 0x00, 0x80]),
+    uid,
+    counterBytes(counter),
+  ]);
+  const sessionKey = aesCmac(fileReadKey, sv2);
+  const full = aesCmac(sessionKey, Buffer.alloc(0));
+  return Buffer.from(full.filter((_byte, index) => index % 2 === 1));
+}
+
+export function verifySunMac(
+  fileReadKey: Buffer,
+  uid: Buffer,
+  counter: number,
+  cmacHex: string
+): boolean {
+  const presented = Buffer.from(cmacHex, 'hex');
+  const expected = sunMac(fileReadKey, uid, counter);
+  return (
+    presented.length === expected.length &&
+    timingSafeEqual(presented, expected)
+  );
+}
+
+/**
+ * Decrypt `picc_data` with the SDM meta read key. Returns null when it does
+ * not decrypt to a PICC data block mirroring both a UID and the counter.
+ */
+export function decryptPiccData(
+  metaReadKey: Buffer,
+  piccDataHex: string
+): { uid: Buffer; counter: number } | null {
+  const encrypted = Buffer.from(piccDataHex, 'hex');
+  if (encrypted.length !== AES_BLOCK) {
+    return null;
+  }
+  const decipher = createDecipheriv(
+    'aes-128-cbc',
+    metaReadKey,
+    Buffer.alloc(AES_BLOCK)
+  );
+  decipher.setAutoPadding(false);
+  const plain = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+
+  // PICCDataTag: bit 7 UID mirrored, bit 6 counter mirrored, low nibble
+  // the UID length
+  const tag = plain[0];
+  const uidLength = tag & 0x0f;
+  if ((tag & 0xc0) !== 0xc0 || uidLength !== 7) {
+    return null;
+  }
+  const uid = plain.subarray(1, 1 + uidLength);
+  const ctr = plain.subarray(1 + uidLength, 4 + uidLength);
+  return { uid, counter: ctr[0] | (ctr[1] << 8) | (ctr[2] << 16) };
+}
+
+function keyEncryptionKey(): Buffer {
+  const hex = process.env.TAG_KEY_ENCRYPTION_KEY ?? '';
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(
+      'TAG_KEY_ENCRYPTION_KEY (32 bytes, hex) is required for SDM tag keys'
+    );
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/** Encrypt a 16-byte tag key for storage: `iv:tag:ciphertext`, hex. */
+export function sealTagKey(keyHex: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', keyEncryptionKey(), iv);
+  const sealed = Buffer.concat([
+    cipher.update(Buffer.from(keyHex, 'hex')),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), sealed]
+    .map(part => part.toString('hex'))
+    .join(':');
+}
+
+export function openTagKey(sealed: string): Buffer {
+  const [iv, authTag, data] = sealed
+    .split(':')
+    .map(part => Buffer.from(part, 'hex'));
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    keyEncryptionKey(),
+    iv
+  );
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
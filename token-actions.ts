@@ -0,0 +1,112 @@
+import type { ThirdwebClient } from 'thirdweb';
+import { toFunctionSelector } from 'thirdweb/utils';
+import type { ChainConfig } from './chain-registry.js';
+import { getContractCapabilities } from './contract-capabilities.js';
+import type { TokenStandard } from './mint-adapters.js';
+
+/**
+ * @file token-actions.ts
+ * @description The calls that burn or move an already minted token.
+ *
+ * ERC-721 and ERC-1155 contracts name these differently: an ERC-721 token is
+ * burnt with `burn(tokenId)` and moved with `transferFrom`, while an
+ * ERC-1155 token is burnt with `burn(account, id, value)` (OpenZeppelin's
+ * and thirdweb's ERC1155Burnable) and moved with `safeTransferFrom` of one
+ * unit. The standard comes from the contract's probed capabilities.
+ */
+
+export const TOKEN_ACTION_METHODS: Record<
+  TokenStandard,
+  { burn: string; transfer: string }
+> = {
+  ERC721: {
+    burn: 'function burn(uint256 tokenId)',
+    transfer: 'function transferFrom(address from, address to, uint256 tokenId)',
+  },
+  ERC1155: {
+    burn: 'function burn(address account, uint256 id, uint256 value)',
+    transfer:
+      'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+  },
+};
+
+export interface TokenActionCall {
+  standard: TokenStandard;
+  method: string;
+  params: unknown[];
+}
+
+const ERC1155_TRANSFER_SELECTOR = toFunctionSelector(
+  TOKEN_ACTION_METHODS.ERC1155.transfer
+).toLowerCase();
+const ERC721_TRANSFER_SELECTOR = toFunctionSelector(
+  TOKEN_ACTION_METHODS.ERC721.transfer
+).toLowerCase();
+
+/**
+ * The token standard of a contract. Contracts without ERC-165 are told
+ * apart by their transfer functions, and count as ERC-721 when that does
+ * not settle it.
+ */
+export async function tokenStandardOf(
+  client: ThirdwebClient,
+  chainConfig: ChainConfig,
+  contractAddress: string
+): Promise<TokenStandard> {
+  const { standards, selectors } = await getContractCapabilities(
+    client,
+    chainConfig,
+    contractAddress
+  );
+  if (standards.includes('ERC721')) {
+    return 'ERC721';
+  }
+  if (standards.includes('ERC1155')) {
+    return 'ERC1155';
+  }
+  return selectors.includes(ERC1155_TRANSFER_SELECTOR) &&
+    !selectors.includes(ERC721_TRANSFER_SELECTOR)
+    ? 'ERC1155'
+    : 'ERC721';
+}
+
+/** Burn a token held by `holder`. */
+export function burnCall(
+  standard: TokenStandard,
+  { holder, tokenId }: { holder?: string | null; tokenId: bigint }
+): TokenActionCall {
+  if (standard === 'ERC1155') {
+    if (!holder) {
+      throw new Error('The holder is required to burn an ERC-1155 token');
+    }
+    return {
+      standard,
+      method: TOKEN_ACTION_METHODS.ERC1155.burn,
+      params: [holder, tokenId, 1n],
+    };
+  }
+  return {
+    standard,
+    method: TOKEN_ACTION_METHODS.ERC721.burn,
+    params: [tokenId],
+  };
+}
+
+/** Move a token from `from` to `to`. */
+export function transferCall(
+  standard: TokenStandard,
+  { from, to, tokenId }: { from: string; to: string; tokenId: bigint }
+): TokenActionCall {
+  if (standard === 'ERC1155') {
+    return {
+      standard,
+      method: TOKEN_ACTION_METHODS.ERC1155.transfer,
+      params: [from, to, tokenId, 1n, '0x'],
+    };
+  }
+  return {
+    standard,
+    method: TOKEN_ACTION_METHODS.ERC721.transfer,
+    params: [from, to, tokenId],
+  };
+}
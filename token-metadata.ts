@@ -0,0 +1,225 @@
+import { createHash } from 'node:crypto';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import {
+  isPassportSigningEnabled,
+  passportBaseUrl,
+  passportLinkUrl,
+  signPassportToken,
+} from '../passport/passport-links.server.js';
+
+/**
+ * @file token-metadata.ts
+ * @description The JSON behind a token's tokenURI and a brand's contractURI.
+ *
+ * Documents follow the OpenSea metadata standard: `name`, `description`,
+ * `image`, `external_url` and `attributes` for a token, and `name`,
+ * `description`, `image`, `external_link` and the royalty for a collection.
+ * They are built from the database on every request; `metadataETag` lets
+ * the routes answer marketplaces that poll them with a 304.
+ */
+
+export interface TokenMetadataAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'date' | 'number';
+}
+
+export interface TokenMetadata {
+  name: string;
+  description: string;
+  image?: string;
+  external_url: string;
+  attributes: TokenMetadataAttribute[];
+}
+
+export interface ContractMetadata {
+  name: string;
+  description: string;
+  image?: string;
+  external_link?: string;
+  seller_fee_basis_points?: number;
+  fee_recipient?: string;
+}
+
+/** Shopify's title for a variant of a product without options */
+const DEFAULT_VARIANT_TITLE = 'Default Title';
+
+/** The contractURI of a brand's collection. */
+export function contractMetadataUrl(
+  appBaseUrl: string,
+  brandId: string
+): string {
+  return `${appBaseUrl.replace(/\/$/, '')}/api/contract-metadata/${brandId}`;
+}
+
+/** Short serial printed in the token name, from the digital ID's id */
+export function digitalIdSerial(digitalIdId: string): string {
+  return digitalIdId.slice(-8).toUpperCase();
+}
+
+function absoluteUrl(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+/**
+ * The passport page of the digital ID. A signed link is issued as of the
+ * digital ID's creation and does not expire, so it is the same on every
+ * request and does not change the ETag.
+ */
+function passportUrl(digitalId: {
+  id: string;
+  orders3faId?: string | null;
+  createdAt: Date;
+}): string {
+  if (isPassportSigningEnabled()) {
+    return absoluteUrl(
+      passportLinkUrl(
+        signPassportToken({
+          subject: { type: 'digitalId', id: digitalId.id },
+          expiresInSeconds: 0,
+          issuedAt: digitalId.createdAt,
+        })
+      )
+    );
+  }
+  return absoluteUrl(
+    digitalId.orders3faId
+      ? `${passportBaseUrl()}/order/${digitalId.orders3faId}`
+      : passportBaseUrl()
+  );
+}
+
+/**
+ * Variant options as attributes: Shopify's `selectedOptions` when the
+ * variant has them, otherwise the option values of its `A / B` title.
+ */
+function variantOptionAttributes(variant: any): TokenMetadataAttribute[] {
+  if (Array.isArray(variant?.selectedOptions)) {
+    return variant.selectedOptions
+      .filter((option: any) => option?.name && option?.value)
+      .map((option: any) => ({
+        trait_type: String(option.name),
+        value: String(option.value),
+      }));
+  }
+  const title: string | undefined = variant?.title;
+  if (!title || title === DEFAULT_VARIANT_TITLE) {
+    return [];
+  }
+  return title.split(' / ').map((value, index) => ({
+    trait_type: `Option ${index + 1}`,
+    value,
+  }));
+}
+
+/**
+ * The token metadata of a digital ID, or null when it does not exist.
+ * `frozen` leaves out what changes over the token's life (its status), for
+ * metadata pinned at mint time.
+ */
+export async function buildTokenMetadata(
+  digitalIdId: string,
+  { frozen = false }: { frozen?: boolean } = {}
+): Promise<TokenMetadata | null> {
+  // @ts-ignore
+  const digitalId = await prisma.uniqueDigitalId.findUnique({
+    where: { id: digitalIdId },
+    include: { coreProductVariant: true },
+  });
+  if (!digitalId) {
+    return null;
+  }
+
+  const variant = digitalId.coreProductVariant;
+  // @ts-ignore
+  const brand = await prisma.brands3fa.findUnique({
+    where: { id: digitalId.brand_3fa_id },
+  });
+  const order = digitalId.orders3faId
+    ? await prisma.orders3fa.findUnique({
+        where: { id: digitalId.orders3faId },
+        select: { createdAt: true },
+      })
+    : null;
+
+  const brandName: string = brand?.name || digitalId.myshopify_domain;
+  const productName: string =
+    variant?.productTitle || variant?.title || 'Product';
+  const serial = digitalIdSerial(digitalId.id);
+  const purchasedAt: Date = order?.createdAt ?? digitalId.createdAt;
+
+  const attributes: TokenMetadataAttribute[] = [
+    { trait_type: 'Serial', value: serial },
+    { trait_type: 'Brand', value: brandName },
+    ...variantOptionAttributes(variant),
+    {
+      trait_type: 'Purchase Date',
+      value: Math.floor(purchasedAt.getTime() / 1000),
+      display_type: 'date',
+    },
+  ];
+  if (!frozen) {
+    attributes.push({ trait_type: 'Status', value: digitalId.status });
+  }
+
+  return {
+    name: `${brandName} ${productName} #${serial}`,
+    description:
+      `Digital ID of an authentic ${productName} by ${brandName}. ` +
+      'It proves ownership of this unit and moves with it when the product ' +
+      'is resold or gifted.',
+    image: variant?.imageUrl || brand?.logoUrl || undefined,
+    external_url: passportUrl(digitalId),
+    attributes,
+  };
+}
+
+/**
+ * The contractURI document of a brand's collection, or null for an unknown
+ * brand. The royalty is the brand's resale royalty (`transferRules`), paid
+ * to its `brandWalletAddress`.
+ */
+export async function buildContractMetadata(
+  brandId: string
+): Promise<ContractMetadata | null> {
+  // @ts-ignore
+  const brand = await prisma.brands3fa.findUnique({ where: { id: brandId } });
+  if (!brand) {
+    return null;
+  }
+
+  const metadata: ContractMetadata = {
+    name: `${brand.name} Digital IDs`,
+    description:
+      brand.description ||
+      `Digital IDs of authentic ${brand.name} products, one per unit sold.`,
+    image: brand.logoUrl || undefined,
+    external_link: brand.websiteUrl || `https://${brand.myshopifyDomain}`,
+  };
+  const royaltyBps = Number(brand.transferRules?.royaltyBps ?? 0);
+  if (royaltyBps > 0 && brand.brandWalletAddress) {
+    metadata.seller_fee_basis_points = royaltyBps;
+    metadata.fee_recipient = brand.brandWalletAddress;
+  }
+  return metadata;
+}
+
+/** Strong ETag of a metadata document. */
+export function metadataETag(document: unknown): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(document))
+    .digest('base64url');
+  return `"${hash.slice(0, 27)}"`;
+}
+
+/** Whether an `If-None-Match` header matches the ETag. */
+export function matchesETag(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map(value => value.trim().replace(/^W\//, ''))
+    .some(value => value === '*' || value === etag);
+}
@@ -1,61 +1,82 @@
-import { createThirdwebClient, getContract, prepareContractCall, sendTransaction } from "thirdweb";
-import { privateKeyToAccount } from "thirdweb/wallets";
-import { base, baseSepolia } from "thirdweb/chains";
+import { createThirdwebClient } from "thirdweb";
 // @ts-ignore
 import prisma from "../../db.server.js";
+import { transitionDigitalIdStatus } from "../digital-id/digital-id-status.server.js";
+import { extractMintedTokenId } from "./mint-receipt.js";
+import { markMintSubmitted } from "./mint-confirmation.js";
+import {
+  resolveMintAdapter,
+  UnsupportedMintContractError,
+} from "./contract-capabilities.js";
+import { buildMintParams, type MintAdapter, type TokenStandard } from "./mint-adapters.js";
+import { buildBatchMintCall, mapBatchTokenIds } from "./batch-minting.js";
+import { enqueueMint } from "../../queues/mintQueue.server.js";
+import { minterSignerForBrand } from "./minter-signers.js";
+import { MintVoucherError, isClaimModeEnabled, issueMintVoucher } from "./mint-vouchers.js";
+import { MintSpendingCapError, assertWithinSpendingCap } from "./mint-billing.js";
+import { MintError, isRetryableMintError } from "./mint-errors.js";
+import { resolveTokenUri } from "./metadata-pinning.js";
+import { burnCall, tokenStandardOf, transferCall, type TokenActionCall } from "./token-actions.js";
+import {
+  chainConfigForBlockchain,
+  resolveMintChain,
+  type ChainConfig,
+} from "./chain-registry.js";
+import {
+  minterTransactions,
+  type MinterPurpose,
+  type MinterResult,
+} from "./minter-transactions.js";
 
-function getChain() {
-  const chainId = process.env.BASE_CHAIN_ID?.trim();
-  return chainId === "8453" ? base : baseSepolia;
-}
-
-function getBlockchainName(): string {
-  const chainId = process.env.BASE_CHAIN_ID?.trim();
-  return chainId === "8453" ? "base" : "base-sepolia";
-}
+export { MintError, isRetryableMintError };
 
-function ensureEnv(): { clientId: string; privateKey: string; appBaseUrl: string } {
+function ensureEnv(): { clientId: string; appBaseUrl: string } {
   const clientId = process.env.THIRDWEB_CLIENT_ID;
-  const privateKey = process.env.BASE_MINTER_PRIVATE_KEY;
   const appBaseUrl = process.env.APP_BASE_URL;
 
   if (!clientId) throw new Error("THIRDWEB_CLIENT_ID is required for minting");
-  if (!privateKey) throw new Error("BASE_MINTER_PRIVATE_KEY is required for minting");
   if (!appBaseUrl) throw new Error("APP_BASE_URL is required to build token metadata URLs");
 
-  // Validate and normalize the private key
-  let pk = privateKey.trim();
-  if (pk.startsWith('0x')) {
-    pk = pk.substring(2);
-  }
-
-  if (!/^[0-9a-fA-F]{64}$/.test(pk)) {
-    throw new Error(
-      `Invalid private key format. Expected a 64-character hex string, but got a key with length ${pk.length} after trimming.`
-    );
-  }
-
-  const normalizedPrivateKey = `0x${pk}`;
-
-  return { clientId, privateKey: normalizedPrivateKey, appBaseUrl };
+  return { clientId, appBaseUrl };
 }
 
-async function tryMintWithSignature(contract: any, account: any, method: string, params: any[]) {
-  const tx = prepareContractCall({ contract, method, params });
-  const receipt = await sendTransaction({ transaction: tx, account });
-  return receipt;
+/** The metadata endpoint of a digital ID's token; see `resolveTokenUri`. */
+export function tokenMetadataUrl(appBaseUrl: string, digitalIdId: string): string {
+  return `${appBaseUrl.replace(/\/$/, "")}/api/token-metadata/${digitalIdId}`;
 }
 
-export async function mintDigitalIdOnBase(digitalIdId: string): Promise<{
+/**
+ * Mint the token of a digital ID. Failures are returned, not thrown, with
+ * `retryable` set from `isRetryableMintError`. By default a failure marks the
+ * digital ID MINT_FAILED; the mint worker passes `markFailedOnError: false`
+ * and decides itself once its attempts run out. A mint paused by the
+ * brand's spending cap stays MINT_PENDING either way.
+ */
+export async function mintDigitalIdOnBase(
+  digitalIdId: string,
+  { markFailedOnError = true }: { markFailedOnError?: boolean } = {}
+): Promise<{
   success: boolean;
   transactionHash?: string;
   tokenId?: string;
   error?: string;
+  retryable?: boolean;
+  /** The brand's spending cap paused minting; try again later */
+  paused?: boolean;
+  /** No wallet: the digital ID became CLAIMABLE with this voucher */
+  claimable?: boolean;
+  voucherId?: string;
 }> {
   console.log(`[Mint] Starting mint process for digital ID: ${digitalIdId}`);
   
   try {
-    const { clientId, privateKey, appBaseUrl } = ensureEnv();
+    let env: ReturnType<typeof ensureEnv>;
+    try {
+      env = ensureEnv();
+    } catch (envError: any) {
+      throw new MintError(envError.message, false);
+    }
+    const { clientId, appBaseUrl } = env;
 
     // Load the Digital ID and related data
     // @ts-ignore
@@ -66,19 +87,62 @@ export async function mintDigitalIdOnBase(digitalIdId: string): Promise<{
           select: {
             id: true,
             defaultSmartContractAddress: true,
+            defaultChainId: true,
           },
         },
       },
     });
 
     if (!digitalId) {
-      throw new Error(`UniqueDigitalId not found: ${digitalIdId}`);
+      throw new MintError(`UniqueDigitalId not found: ${digitalIdId}`, false);
+    }
+    if (digitalId.status !== "MINT_PENDING") {
+      // Direct callers may mint a CREATED or MINT_FAILED digital ID; a submitted mint is left to its confirmation job
+      if (digitalId.status !== "CREATED" && digitalId.status !== "MINT_FAILED") {
+        throw new MintError(`Digital ID ${digitalIdId} is ${digitalId.status}, not mintable`, false);
+      }
+      try {
+        await transitionDigitalIdStatus({
+          digitalIdId,
+          to: "MINT_PENDING",
+          actor: "system:token-minting",
+          reason: "Mint started",
+        });
+      } catch (transitionError: any) {
+        throw new MintError(transitionError.message, false);
+      }
+    }
+
+    let metadataUrl: string;
+    try {
+      metadataUrl = await resolveTokenUri(digitalIdId, tokenMetadataUrl(appBaseUrl, digitalIdId));
+    } catch (pinError: any) {
+      throw new MintError(`Could not pin token metadata: ${pinError.message}`, true);
     }
 
     console.log(`[Mint] Found digital ID, checking recipient wallet...`);
     const recipient: string | undefined = digitalId.privyWalletAddress || undefined;
     if (!recipient) {
-      throw new Error("Recipient wallet address (privyWalletAddress) is missing");
+      if (!isClaimModeEnabled()) {
+        throw new MintError("Recipient wallet address (privyWalletAddress) is missing", false);
+      }
+      // No wallet to mint to: let the customer claim the token with a voucher
+      try {
+        const voucher = await issueMintVoucher({
+          client: createThirdwebClient({ clientId }),
+          digitalIdId,
+          metadataUrl,
+          actor: "system:token-minting",
+        });
+        return { success: true, claimable: true, voucherId: voucher.id };
+      } catch (voucherError: any) {
+        throw new MintError(
+          `No recipient wallet and no voucher: ${voucherError.message}`,
+          !(voucherError instanceof MintVoucherError) &&
+            !(voucherError instanceof UnsupportedMintContractError) &&
+            isRetryableMintError(voucherError)
+        );
+      }
     }
     
     console.log(`[Mint] Recipient: ${recipient}`);
@@ -90,83 +154,503 @@ export async function mintDigitalIdOnBase(digitalIdId: string): Promise<{
       undefined;
 
     if (!contractAddress) {
-      throw new Error("No contract address found for minting (set default or per-variant)");
+      throw new MintError("No contract address found for minting (set default or per-variant)", false);
     }
 
     console.log(`[Mint] Using contract: ${contractAddress}`);
-    const metadataUrl = `${appBaseUrl.replace(/\/$/, "")}/api/token-metadata/${digitalIdId}`;
     console.log(`[Mint] Metadata URL: ${metadataUrl}`);
 
-    // Initialize thirdweb client and account
+    // Initialize thirdweb client
     console.log(`[Mint] Initializing thirdweb client...`);
     const client = createThirdwebClient({ clientId });
-    const account = privateKeyToAccount({ client, privateKey });
-    const chain = getChain();
-    console.log(`[Mint] Using blockchain: ${getBlockchainName()} (${chain.id})`);
-    const contract = getContract({ client, chain, address: contractAddress });
-
-    // Try common mint method names in order
-    console.log(`[Mint] Attempting to mint token...`);
-    let receipt: any | undefined;
-    let lastError: any | undefined;
-
-    const mintMethods = [
-      "function mintTo(address to, string uri) returns (uint256 tokenId)",
-      "function safeMint(address to, string uri)",
-    ];
-
-    for (const method of mintMethods) {
+    let chainConfig: ChainConfig;
+    try {
+      chainConfig = await resolveMintChain(digitalId);
+    } catch (chainError: any) {
+      throw new MintError(chainError.message, false);
+    }
+    console.log(`[Mint] Using blockchain: ${chainConfig.name} (${chainConfig.id})`);
+
+    // A previous attempt may have left its transaction in flight
+    let result: MinterResult | null = await minterTransactions.resumeInFlight(
+      client,
+      chainConfig,
+      digitalIdId,
+      "MINT"
+    );
+
+    if (!result) {
+      let adapter: MintAdapter;
       try {
-        console.log(`[Mint] Trying method: ${method.split('function ')[1]}`);
-        receipt = await tryMintWithSignature(contract, account, method, [recipient, metadataUrl]);
-        lastError = undefined;
-        console.log(`[Mint] Method succeeded!`);
-        break;
-      } catch (err) {
-        console.log(`[Mint] Method failed: ${err instanceof Error ? err.message : String(err)}`);
-        lastError = err;
+        ({ adapter } = await resolveMintAdapter({
+          client,
+          chainConfig,
+          contractAddress,
+          brandId: digitalId.brand_3fa_id,
+        }));
+      } catch (resolveError: any) {
+        throw new MintError(
+          resolveError.message,
+          !(resolveError instanceof UnsupportedMintContractError) && isRetryableMintError(resolveError)
+        );
+      }
+
+      console.log(`[Mint] Minting with ${adapter.id}: ${adapter.method.split("function ")[1]}`);
+      try {
+        const signer = await minterSignerForBrand(digitalId.brand_3fa_id);
+        result = await minterTransactions.send({
+          client,
+          chainConfig,
+          contractAddress,
+          method: adapter.method,
+          params: buildMintParams(adapter, { recipient, metadataUrl, digitalIdId }),
+          purpose: "MINT",
+          digitalIdId,
+          signer,
+          brandId: digitalId.brand_3fa_id,
+          approveCost: (estimate, tx) =>
+            assertWithinSpendingCap({ brandId: digitalId.brand_3fa_id, chainConfig, estimate }, tx),
+        });
+      } catch (sendError) {
+        if (sendError instanceof MintError) {
+          throw sendError;
+        }
+        throw new MintError(
+          `Mint transaction failed: ${sendError instanceof Error ? sendError.message : String(sendError)}`,
+          isRetryableMintError(sendError)
+        );
       }
     }
 
-    if (!receipt) {
-      throw new Error(
-        `Mint transaction failed: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    const { transactionHash, receipt } = result;
+    console.log(`[Mint] Transaction hash: ${transactionHash}`);
+
+    if (result.digitalIdIds?.length) {
+      // Resumed a batch mint this digital ID was part of; the other units
+      // are settled by the batch or their own jobs
+      const { tokenIds, unsettled } = await settleMintBatch(
+        result,
+        chainConfig,
+        contractAddress,
+        recipient,
+        [digitalIdId]
       );
+      if (unsettled.length > 0) {
+        throw new MintError(`Could not record the batch mint ${transactionHash}`, true);
+      }
+      return { success: true, transactionHash, tokenId: tokenIds.get(digitalIdId) };
     }
 
-    const transactionHash: string | undefined = receipt?.transactionHash;
-    console.log(`[Mint] Transaction hash: ${transactionHash}`);
+    const decoded = extractMintedTokenId({
+      logs: receipt.logs ?? [],
+      contractAddress,
+      recipient,
+      returnValue: result.returnValue,
+    });
+    if (decoded.tokenId) {
+      console.log(`[Mint] Token ID: ${decoded.tokenId} (from ${decoded.source})`);
+    } else {
+      console.warn(`[Mint] Could not determine token ID: ${decoded.reason}`);
+    }
 
-    // Update the record as minted. tokenId parsing is contract-specific; omit if not easily derivable.
-    // @ts-ignore
-    await prisma.uniqueDigitalId.update({
-      where: { id: digitalIdId },
-      data: {
-        status: "MINTED",
-        blockchain: getBlockchainName(),
-        transactionHash: transactionHash,
-        contractAddress: contractAddress,
-        mintedAt: new Date(),
-      },
+    // MINT_CONFIRMED and mintedAt follow once the block is deep enough
+    await markMintSubmitted({
+      digitalIdId,
+      chainConfig,
+      transactionHash,
+      contractAddress,
+      tokenId: decoded.tokenId,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      actor: "system:token-minting",
     });
+    await minterTransactions.settle(result.trackedId, [digitalIdId]);
 
-    console.log(`[Mint] Successfully minted and updated database for digital ID: ${digitalIdId}`);
-    return { success: true, transactionHash };
+    console.log(`[Mint] Mint mined for digital ID ${digitalIdId}, waiting for ${chainConfig.confirmations} confirmations`);
+    return { success: true, transactionHash, tokenId: decoded.tokenId };
   } catch (error: any) {
     console.error(`[Mint] Error during minting for digital ID ${digitalIdId}:`, error);
-    
+    const retryable = isRetryableMintError(error);
+    const paused = error instanceof MintSpendingCapError;
+
+    if (!markFailedOnError || paused) {
+      return { success: false, error: error?.message || String(error), retryable, paused };
+    }
+
     // Mark as failed to allow retries/visibility
     try {
-      // @ts-ignore
-      await prisma.uniqueDigitalId.update({
-        where: { id: digitalIdId },
-        data: { status: "MINT_FAILED" },
+      await transitionDigitalIdStatus({
+        digitalIdId,
+        to: "MINT_FAILED",
+        actor: "system:token-minting",
+        reason: error?.message || String(error),
       });
       console.log(`[Mint] Marked digital ID ${digitalIdId} as MINT_FAILED`);
     } catch (dbError) {
       console.error(`[Mint] Failed to update database status for ${digitalIdId}:`, dbError);
     }
 
-    return { success: false, error: error?.message || String(error) };
+    return { success: false, error: error?.message || String(error), retryable };
+  }
+}
+
+/**
+ * Record the outcome of a mined batch mint for each of its digital IDs, or
+ * only for `onlyIds`, and settle each one on the batch's MinterTransaction.
+ * A digital ID that left MINT_PENDING meanwhile (e.g. revoked) is settled
+ * without a change. The ones whose outcome could not be recorded are
+ * returned as `unsettled` for their own mint job, which resumes the batch
+ * transaction or, once MINT_SUBMITTED, adds the confirmation job.
+ */
+async function settleMintBatch(
+  result: MinterResult,
+  chainConfig: ChainConfig,
+  contractAddress: string,
+  recipient: string,
+  onlyIds?: string[]
+): Promise<{ tokenIds: Map<string, string | undefined>; unsettled: string[] }> {
+  const tokenIds = mapBatchTokenIds(
+    result.receipt.logs ?? [],
+    contractAddress,
+    recipient,
+    result.digitalIdIds ?? []
+  );
+  const unsettled: string[] = [];
+  for (const [digitalIdId, tokenId] of tokenIds) {
+    if (onlyIds && !onlyIds.includes(digitalIdId)) {
+      continue;
+    }
+    try {
+      await markMintSubmitted({
+        digitalIdId,
+        chainConfig,
+        transactionHash: result.transactionHash,
+        contractAddress,
+        tokenId,
+        blockNumber: result.receipt.blockNumber,
+        blockHash: result.receipt.blockHash,
+        actor: "system:token-minting",
+      });
+    } catch (error: any) {
+      // @ts-ignore
+      const current = await prisma.uniqueDigitalId
+        .findUnique({ where: { id: digitalIdId }, select: { status: true } })
+        .catch(() => null);
+      if (!current || ["MINT_PENDING", "MINT_SUBMITTED"].includes(current.status)) {
+        // Not recorded, or recorded without its confirmation job; the mint
+        // job of the digital ID finishes either
+        console.warn(`[Mint] Could not mark ${digitalIdId} submitted, leaving it to its mint job: ${error.message}`);
+        unsettled.push(digitalIdId);
+        continue;
+      }
+      console.warn(`[Mint] Not marking ${digitalIdId} submitted, it is ${current.status}`);
+    }
+    await minterTransactions.settle(result.trackedId, [digitalIdId]).catch((error) => {
+      // Only matters if the digital ID goes back to MINT_PENDING
+      console.warn(`[Mint] Could not settle ${digitalIdId} on the batch: ${error.message}`);
+    });
   }
-}
\ No newline at end of file
+  return { tokenIds, unsettled };
+}
+
+/**
+ * Mint several MINT_PENDING digital IDs of one order in a single transaction
+ * (see `batch-minting.ts`). Digital IDs that cannot join the batch, all
+ * of them when the batch fails before it is mined, and those whose part of
+ * a mined batch could not be recorded are handed to the mint queue one by
+ * one, so every digital ID ends up either MINT_SUBMITTED or in its own mint
+ * job. A mint job that finds its digital ID in a mined batch records it
+ * from that batch instead of minting again.
+ */
+export async function mintDigitalIdBatch(
+  digitalIdIds: string[]
+): Promise<{ submitted: string[]; queuedSingly: string[]; transactionHash?: string }> {
+  console.log(`[Mint] Starting batch mint of ${digitalIdIds.length} digital IDs`);
+  const queuedSingly: string[] = [];
+  // Units whose part of a mined batch is recorded
+  const submitted = new Set<string>();
+  const queueSingly = async (ids: string[], reason: string) => {
+    if (ids.length === 0) return;
+    console.log(`[Mint] Minting ${ids.length} digital IDs one by one: ${reason}`);
+    for (const id of ids) {
+      await enqueueMint(id);
+      queuedSingly.push(id);
+    }
+  };
+
+  let batchIds: string[] = [];
+  try {
+    const { clientId, appBaseUrl } = ensureEnv();
+
+    // @ts-ignore
+    const digitalIds = await prisma.uniqueDigitalId.findMany({
+      where: { id: { in: digitalIdIds } },
+      include: {
+        coreProductVariant: {
+          select: { id: true, defaultSmartContractAddress: true, defaultChainId: true },
+        },
+      },
+    });
+    // Keep the requested order; it is the order of the mints in the batch
+    digitalIds.sort(
+      (a: any, b: any) => digitalIdIds.indexOf(a.id) - digitalIdIds.indexOf(b.id)
+    );
+
+    // Units with a mint in flight, or mined but not settled for them, resume
+    // it in their own job (see `minterTransactions.resumeInFlight`)
+    // @ts-ignore
+    const inFlight = await prisma.minterTransaction.findMany({
+      where: {
+        purpose: "MINT",
+        status: { in: ["PENDING", "MINED", "UNKNOWN_OUTCOME"] },
+        OR: [
+          { digitalIdId: { in: digitalIdIds } },
+          { digitalIdIds: { hasSome: digitalIdIds } },
+        ],
+      },
+      select: { status: true, digitalIdId: true, digitalIdIds: true, settledDigitalIdIds: true },
+    });
+    const busy = new Set<string>(
+      inFlight.flatMap((row: any) =>
+        [row.digitalIdId, ...(row.digitalIdIds ?? [])].filter(
+          (id) => row.status !== "MINED" || !row.settledDigitalIdIds?.includes(id)
+        )
+      )
+    );
+
+    const first = digitalIds.find((digitalId: any) => digitalId.status === "MINT_PENDING");
+    const contractOf = (digitalId: any): string | undefined =>
+      digitalId.contractAddress ||
+      digitalId.coreProductVariant?.defaultSmartContractAddress ||
+      process.env.DEFAULT_CONTRACT_ADDRESS ||
+      undefined;
+    const contractAddress = first ? contractOf(first) : undefined;
+    const recipient: string | undefined = first?.privyWalletAddress || undefined;
+
+    const batch = digitalIds.filter(
+      (digitalId: any) =>
+        digitalId.status === "MINT_PENDING" &&
+        !busy.has(digitalId.id) &&
+        recipient &&
+        digitalId.privyWalletAddress === recipient &&
+        contractAddress &&
+        contractOf(digitalId)?.toLowerCase() === contractAddress.toLowerCase()
+    );
+    batchIds = batch.map((digitalId: any) => digitalId.id);
+    // Anything else is not MINT_PENDING (skipped by its job) or needs a mint of its own
+    await queueSingly(
+      digitalIdIds.filter((id) => !batchIds.includes(id)),
+      "not batchable"
+    );
+    if (batch.length < 2 || !contractAddress || !recipient) {
+      await queueSingly(batchIds, "fewer than two batchable digital IDs");
+      return { submitted: [], queuedSingly };
+    }
+
+    const client = createThirdwebClient({ clientId });
+    const chainConfig = await resolveMintChain(batch[0]);
+    const { adapter, capabilities } = await resolveMintAdapter({
+      client,
+      chainConfig,
+      contractAddress,
+      brandId: batch[0].brand_3fa_id,
+    });
+    const units: Array<{ digitalIdId: string; metadataUrl: string }> = [];
+    for (const id of batchIds) {
+      units.push({
+        digitalIdId: id,
+        metadataUrl: await resolveTokenUri(id, tokenMetadataUrl(appBaseUrl, id)),
+      });
+    }
+    const call = await buildBatchMintCall({
+      client,
+      chainConfig,
+      contractAddress,
+      capabilities,
+      adapter,
+      recipient,
+      units,
+    });
+    if (!call) {
+      await queueSingly(batchIds, `${contractAddress} has no batch mint function`);
+      return { submitted: [], queuedSingly };
+    }
+
+    // @ts-ignore
+    await prisma.uniqueDigitalId.updateMany({
+      where: { id: { in: batchIds } },
+      data: { mintAttempts: { increment: 1 } },
+    });
+    console.log(`[Mint] Batch minting ${batchIds.length} digital IDs with ${call.method.split("function ")[1]}`);
+    const result = await minterTransactions.send({
+      client,
+      chainConfig,
+      contractAddress,
+      method: call.method,
+      params: call.params,
+      purpose: "MINT",
+      digitalIdIds: batchIds,
+      signer: await minterSignerForBrand(batch[0].brand_3fa_id),
+      brandId: batch[0].brand_3fa_id,
+      approveCost: (estimate, tx) =>
+        assertWithinSpendingCap({ brandId: batch[0].brand_3fa_id, chainConfig, estimate }, tx),
+    });
+
+    const { unsettled } = await settleMintBatch(result, chainConfig, contractAddress, recipient);
+    for (const id of batchIds) {
+      if (!unsettled.includes(id)) submitted.add(id);
+    }
+    console.log(`[Mint] Batch mint mined: ${result.transactionHash}`);
+    await queueSingly(unsettled, "could not record their part of the batch");
+    return { submitted: [...submitted], queuedSingly, transactionHash: result.transactionHash };
+  } catch (error: any) {
+    console.error(`[Mint] Batch mint failed:`, error);
+    if (batchIds.length > 0) {
+      // @ts-ignore
+      await prisma.uniqueDigitalId.updateMany({
+        where: { id: { in: batchIds }, status: "MINT_PENDING" },
+        data: { mintLastError: `Batch mint failed: ${error?.message || String(error)}`.substring(0, 900) },
+      });
+    }
+    // A batch still in flight, or mined but not recorded for a unit, is
+    // resumed by each unit's own job
+    await queueSingly(
+      digitalIdIds.filter((id) => !queuedSingly.includes(id) && !submitted.has(id)),
+      "batch mint failed"
+    );
+    return { submitted: [...submitted], queuedSingly };
+  }
+}
+
+type TokenActionResult = {
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  /** Whether trying again can help, when it failed */
+  retryable?: boolean;
+};
+
+type TokenActionOptions = {
+  /**
+   * Record the mined transaction. A retry after a crash before it finished
+   * gets the same transaction again instead of sending another one.
+   */
+  onMined?: (transactionHash: string) => Promise<void>;
+};
+
+/**
+ * Send a follow-up transaction for an already minted digital ID from the
+ * minter account. The caller owns the database status change, which it
+ * makes in `onMined`.
+ */
+async function sendTokenAction(
+  digitalIdId: string,
+  purpose: Exclude<MinterPurpose, "MINT">,
+  buildCall: (digitalId: any, standard: TokenStandard) => TokenActionCall,
+  { onMined }: TokenActionOptions = {}
+): Promise<TokenActionResult> {
+  const action = purpose.toLowerCase();
+  console.log(`[Mint] Starting ${action} for digital ID: ${digitalIdId}`);
+
+  try {
+    const { clientId } = ensureEnv();
+
+    // @ts-ignore
+    const digitalId = await prisma.uniqueDigitalId.findUnique({
+      where: { id: digitalIdId },
+      select: {
+        id: true,
+        tokenId: true,
+        contractAddress: true,
+        privyWalletAddress: true,
+        blockchain: true,
+        brand_3fa_id: true,
+      },
+    });
+
+    if (!digitalId) {
+      throw new MintError(`UniqueDigitalId not found: ${digitalIdId}`, false);
+    }
+    if (!digitalId.tokenId || !digitalId.contractAddress) {
+      throw new MintError(`Digital ID ${digitalIdId} has no minted token to ${action}`, false);
+    }
+
+    const client = createThirdwebClient({ clientId });
+    // The chain the token was minted on
+    const chainConfig = chainConfigForBlockchain(digitalId.blockchain);
+
+    let result = await minterTransactions.resumeInFlight(client, chainConfig, digitalIdId, purpose);
+    if (!result) {
+      const standard = await tokenStandardOf(client, chainConfig, digitalId.contractAddress);
+      const { method, params } = buildCall(digitalId, standard);
+      result = await minterTransactions.send({
+        client,
+        chainConfig,
+        contractAddress: digitalId.contractAddress,
+        method,
+        params,
+        purpose,
+        digitalIdId,
+        signer: await minterSignerForBrand(digitalId.brand_3fa_id),
+      });
+    }
+    const { trackedId, transactionHash } = result;
+    console.log(`[Mint] ${action} transaction hash: ${transactionHash}`);
+    await onMined?.(transactionHash);
+    await minterTransactions.settle(trackedId, [digitalIdId]);
+
+    return { success: true, transactionHash };
+  } catch (error: any) {
+    console.error(`[Mint] Error during ${action} for digital ID ${digitalIdId}:`, error);
+    return {
+      success: false,
+      error: error?.message || String(error),
+      retryable: isRetryableMintError(error),
+    };
+  }
+}
+
+/**
+ * Burn the token of a revoked digital ID, with the burn function of the
+ * contract's token standard (see `token-actions.ts`).
+ * The minter account must be allowed to burn, e.g. through an admin burn role
+ * or an operator approval from the custodial wallet.
+ */
+export async function burnDigitalIdToken(
+  digitalIdId: string,
+  options?: TokenActionOptions
+): Promise<TokenActionResult> {
+  return sendTokenAction(
+    digitalIdId,
+    "BURN",
+    (digitalId, standard) =>
+      burnCall(standard, { holder: digitalId.privyWalletAddress, tokenId: BigInt(digitalId.tokenId) }),
+    options
+  );
+}
+
+/**
+ * Move the token of a returned digital ID from the customer's wallet to
+ * `toAddress`. Requires the minter account to be an approved operator.
+ */
+export async function transferDigitalIdToken(
+  digitalIdId: string,
+  toAddress: string,
+  options?: TokenActionOptions
+): Promise<TokenActionResult> {
+  return sendTokenAction(
+    digitalIdId,
+    "TRANSFER",
+    (digitalId, standard) => {
+      if (!digitalId.privyWalletAddress) {
+        throw new MintError("Current holder wallet address (privyWalletAddress) is missing", false);
+      }
+      return transferCall(standard, {
+        from: digitalId.privyWalletAddress,
+        to: toAddress,
+        tokenId: BigInt(digitalId.tokenId),
+      });
+    },
+    options
+  );
+}
@@ -0,0 +1,214 @@
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { enqueueMint } from '../../queues/mintQueue.server.js';
+import { hasMinterSigner } from '../token-minting/minter-signers.js';
+import {
+  transitionDigitalIdStatus,
+  type DigitalIdActor,
+} from './digital-id-status.server.js';
+
+/**
+ * @file wallet-reconciliation.server.ts
+ * @description Deferred mints for customers who get their wallet late.
+ *
+ * When the order pipeline cannot provision a Privy wallet, the order's
+ * digital IDs are created without `privyWalletAddress`, their mints fail
+ * for lack of a recipient, and the order keeps FAILED_WALLET_PROVISIONING
+ * (or FAILED_NO_PHONE_FOR_WALLET). Once the User3fa has a wallet, for
+ * example after signing in through the consumer app, `reconcileDeferredMints`
+ * attaches it to those digital IDs, queues their mints and settles the
+ * orders as the pipeline would have.
+ */
+
+/** Orders3fa statuses left by the pipeline's wallet step */
+const WALLET_FAILURE_STATUSES = [
+  'FAILED_WALLET_PROVISIONING',
+  'FAILED_NO_PHONE_FOR_WALLET',
+];
+
+const UNMINTED_STATUSES = [
+  'CREATED',
+  'MINT_PENDING',
+  'MINT_FAILED',
+  'CLAIMABLE',
+];
+
+export interface DeferredMintReconciliation {
+  /** Digital IDs that got the wallet */
+  attached: string[];
+  /** Of those, the ones whose mint job was added */
+  queued: string[];
+  /** CLAIMABLE digital IDs left to their still valid voucher */
+  claimable: string[];
+  orders: Array<{ orders3faId: string; status: string }>;
+}
+
+/**
+ * The status the pipeline's `digital-ids` step would have given the order:
+ * every unit with a variant has a digital ID, some have, or none.
+ */
+async function completedOrderStatus(order: {
+  id: string;
+  shopifyOrderId: string;
+  totalItems: number;
+}): Promise<string> {
+  // @ts-ignore
+  const digitalIds = await prisma.uniqueDigitalId.findMany({
+    where: { orders3faId: order.id },
+    select: { myshopify_domain: true },
+  });
+  if (digitalIds.length === 0) {
+    return 'FAILED_UDI_CREATION';
+  }
+
+  let expected = order.totalItems;
+  const shopifyOrder = await prisma.shopifyOrder.findUnique({
+    where: {
+      shopId_shopifyId: {
+        shopId: digitalIds[0].myshopify_domain,
+        shopifyId: BigInt(order.shopifyOrderId),
+      },
+    },
+    select: { id: true },
+  });
+  if (shopifyOrder) {
+    // Line items without a variant never get a digital ID
+    const units = await prisma.shopifyLineItem.aggregate({
+      where: { orderId: shopifyOrder.id, variantId: { not: null } },
+      _sum: { quantity: true },
+    });
+    expected = units._sum.quantity ?? 0;
+  }
+  return digitalIds.length >= expected ? 'COMPLETED' : 'PARTIALLY_COMPLETED';
+}
+
+/**
+ * Attach a User3fa's wallet to its digital IDs that were created without
+ * one, queue their mints, and complete its orders that failed on the
+ * wallet. Does nothing while the user has no wallet; safe to call again.
+ */
+export async function reconcileDeferredMints(
+  user3faId: string,
+  actor: DigitalIdActor = 'system:wallet-reconciliation'
+): Promise<DeferredMintReconciliation> {
+  const result: DeferredMintReconciliation = {
+    attached: [],
+    queued: [],
+    claimable: [],
+    orders: [],
+  };
+
+  // @ts-ignore
+  const user3fa = await prisma.user3fa.findUnique({
+    where: { id: user3faId },
+    select: { privyWalletAddress: true, privyDid: true },
+  });
+  if (!user3fa?.privyWalletAddress) {
+    return result;
+  }
+
+  // @ts-ignore
+  const digitalIds = await prisma.uniqueDigitalId.findMany({
+    where: {
+      owner3faId: user3faId,
+      privyWalletAddress: null,
+      status: { in: UNMINTED_STATUSES },
+    },
+    select: { id: true, status: true },
+  });
+
+  const now = new Date();
+  for (const digitalId of digitalIds) {
+    if (digitalId.status === 'CLAIMABLE') {
+      // A signed voucher cannot be withdrawn on-chain; minting while it is
+      // valid could mint the unit twice
+      // @ts-ignore
+      const validVoucher = await prisma.mintVoucher.findFirst({
+        where: {
+          digitalIdId: digitalId.id,
+          status: 'ISSUED',
+          validUntil: { gt: now },
+        },
+        select: { id: true },
+      });
+      if (validVoucher) {
+        result.claimable.push(digitalId.id);
+        continue;
+      }
+      // @ts-ignore
+      await prisma.mintVoucher.updateMany({
+        where: { digitalIdId: digitalId.id, status: 'ISSUED' },
+        data: { status: 'VOID' },
+      });
+    }
+
+    const data = {
+      privyWalletAddress: user3fa.privyWalletAddress,
+      privyDid: user3fa.privyDid,
+    };
+    try {
+      if (digitalId.status === 'MINT_PENDING') {
+        // @ts-ignore
+        await prisma.uniqueDigitalId.update({
+          where: { id: digitalId.id },
+          data,
+        });
+      } else {
+        await transitionDigitalIdStatus({
+          digitalIdId: digitalId.id,
+          to: 'MINT_PENDING',
+          actor,
+          reason: 'Wallet provisioned, deferred mint',
+          data: { ...data, mintAttempts: 0, mintLastError: null },
+        });
+      }
+    } catch (err) {
+      console.error(
+        `[Mint] Could not attach wallet to digital ID ${digitalId.id}:`,
+        err
+      );
+      continue;
+    }
+    result.attached.push(digitalId.id);
+  }
+
+  if (
+    hasMinterSigner() &&
+    process.env.THIRDWEB_CLIENT_ID &&
+    process.env.APP_BASE_URL
+  ) {
+    for (const digitalIdId of result.attached) {
+      try {
+        if (await enqueueMint(digitalIdId)) {
+          result.queued.push(digitalIdId);
+        }
+      } catch (err) {
+        // Stays MINT_PENDING and is picked up by requeueMints once stuck
+        console.error('[Mint] Error queueing deferred mint:', err);
+      }
+    }
+  } else {
+    console.warn('[Mint] Missing env for on-chain mint. Skipping actual mint.');
+  }
+
+  const orders = await prisma.orders3fa.findMany({
+    where: { user3faId, status: { in: WALLET_FAILURE_STATUSES } },
+    select: { id: true, shopifyOrderId: true, totalItems: true },
+  });
+  for (const order of orders) {
+    const status = await completedOrderStatus(order);
+    // Only orders still waiting on the wallet; a reversal may have moved on
+    const { count } = await prisma.orders3fa.updateMany({
+      where: { id: order.id, status: { in: WALLET_FAILURE_STATUSES } },
+      data: { status },
+    });
+    if (count > 0) {
+      result.orders.push({ orders3faId: order.id, status });
+    }
+  }
+
+  console.log(
+    `[Mint] Reconciled wallet for user ${user3faId}: ${result.attached.length} digital IDs attached, ${result.queued.length} mints queued, ${result.orders.length} orders settled`
+  );
+  return result;
+}
@@ -0,0 +1,259 @@
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+// @ts-ignore
+import prisma from '../../db.server.js';
+import { authenticate } from '../../shopify.server';
+import {
+  orderProcessingQueue,
+  type OrderJobData,
+} from '../../queues/orderProcessingQueue.server.js';
+import { log } from '../../utils/logger.server';
+
+/**
+ * Shared ingestion helpers for Shopify webhooks.
+ *
+ * Every topic we subscribe to stores its delivery through
+ * `recordWebhookDelivery`, so a redelivered event lands on the WebhookEvent
+ * row of the first delivery instead of creating a duplicate. Routes without
+ * topic-specific checks can use `ingestQueuedWebhook` end to end.
+ */
+
+export type RecordedWebhookEvent = {
+  id: string;
+  eventId: string;
+  topic: string;
+  shopId: string;
+  processed: boolean;
+  deliveryCount: number;
+};
+
+/**
+ * Shopify sends topics as either `orders/create` or `ORDERS_CREATE`
+ * depending on the API surface; store them in the slash form.
+ */
+export function normalizeWebhookTopic(topic: string): string {
+  return topic.toLowerCase().replace(/_/g, '/');
+}
+
+/**
+ * Build a stable identity for a webhook delivery.
+ * Shopify repeats the same X-Shopify-Webhook-Id on every retry of an event.
+ * When the header is missing we hash shop, topic and resource id instead, and
+ * include `updated_at` so successive `.../update` events for one resource stay
+ * distinct.
+ */
+export function resolveWebhookEventId({
+  eventIdHeader,
+  shop,
+  topic,
+  payload,
+}: {
+  eventIdHeader: string | null;
+  shop: string;
+  topic: string;
+  payload: Record<string, unknown>;
+}): string {
+  const headerId = eventIdHeader?.trim();
+  if (headerId) {
+    return headerId;
+  }
+
+  const digest = createHash('sha256')
+    .update(
+      [
+        shop,
+        normalizeWebhookTopic(topic),
+        String(payload.id ?? ''),
+        String(payload.updated_at ?? ''),
+      ].join(':')
+    )
+    .digest('hex');
+  return `derived_${digest.slice(0, 32)}`;
+}
+
+/**
+ * Store a webhook delivery, deduplicating on `eventId`.
+ * Returns `duplicate: true` (and bumps `deliveryCount` on the existing row)
+ * when the event has been seen before. Relies on the unique index on
+ * `WebhookEvent.eventId` to settle concurrent deliveries of the same event.
+ */
+export async function recordWebhookDelivery({
+  shop,
+  topic,
+  eventId,
+  payload,
+}: {
+  shop: string;
+  topic: string;
+  eventId: string;
+  payload: Record<string, unknown>;
+}): Promise<{ webhookEvent: RecordedWebhookEvent; duplicate: boolean }> {
+  // @ts-ignore
+  const existing = await prisma.webhookEvent.findUnique({
+    where: { eventId },
+    select: { id: true },
+  });
+  if (existing) {
+    return { webhookEvent: await markRedelivered(eventId), duplicate: true };
+  }
+
+  try {
+    // @ts-ignore
+    const webhookEvent = await prisma.webhookEvent.create({
+      data: {
+        shopId: shop,
+        topic: normalizeWebhookTopic(topic),
+        payload: payload as Prisma.InputJsonValue,
+        processed: false,
+        eventId,
+        deliveryCount: 1,
+        lastDeliveredAt: new Date(),
+      },
+    });
+    return { webhookEvent, duplicate: false };
+  } catch (error) {
+    // A concurrent delivery of the same event won the insert
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return { webhookEvent: await markRedelivered(eventId), duplicate: true };
+    }
+    throw error;
+  }
+}
+
+async function markRedelivered(eventId: string): Promise<RecordedWebhookEvent> {
+  // @ts-ignore
+  return prisma.webhookEvent.update({
+    where: { eventId },
+    data: {
+      deliveryCount: { increment: 1 },
+      lastDeliveredAt: new Date(),
+    },
+  });
+}
+
+// Define a type for the expected structure returned by authenticate.webhook
+interface AuthenticatedWebhookContext {
+  shop: string;
+  topic: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Generic handler for webhook topics that need no validation beyond a
+ * resource id: authenticates the request, records the delivery and enqueues
+ * the event on the order processing queue, where the worker dispatches on
+ * `WebhookEvent.topic`. Redeliveries of a processed event are answered with
+ * "already seen"; unprocessed ones are enqueued again, and the jobId derived
+ * from the WebhookEvent row keeps a waiting job from being added twice.
+ * Always answers 200 so Shopify does not retry on our internal errors.
+ */
+export async function ingestQueuedWebhook(
+  request: Request,
+  expectedTopic: string
+): Promise<Response> {
+  const webhookReceivedTime = Date.now();
+  const eventIdHeader = request.headers.get('X-Shopify-Webhook-Id');
+  let shop: string | undefined;
+  let topic: string | undefined;
+
+  try {
+    const webhookContext = (await authenticate.webhook(
+      request
+    )) as unknown as AuthenticatedWebhookContext;
+    shop = webhookContext.shop;
+    topic = webhookContext.topic;
+    const { payload } = webhookContext;
+
+    if (!shop || !topic || !payload || typeof payload !== 'object') {
+      log.error(
+        { shop, topic },
+        '[Webhook Handler] Invalid webhook context or missing payload.'
+      );
+      return new Response('Invalid payload', { status: 200 });
+    }
+    if (typeof payload.id !== 'number') {
+      log.error(
+        { shop, topic },
+        '[Webhook Handler] Missing resource ID in payload.'
+      );
+      return new Response('Invalid payload - Missing ID', { status: 200 });
+    }
+
+    const normalizedTopic = normalizeWebhookTopic(topic);
+    if (normalizedTopic !== expectedTopic) {
+      log.warn(
+        { shop, topic, expectedTopic },
+        '[Webhook Handler] Unexpected topic, skipping.'
+      );
+      return new Response(null, { status: 200 });
+    }
+
+    const eventId = resolveWebhookEventId({
+      eventIdHeader,
+      shop,
+      topic: normalizedTopic,
+      payload,
+    });
+    const { webhookEvent, duplicate } = await recordWebhookDelivery({
+      shop,
+      topic: normalizedTopic,
+      eventId,
+      payload,
+    });
+    if (duplicate && webhookEvent.processed) {
+      log.info(
+        {
+          shop,
+          topic,
+          eventId,
+          webhookEventId: webhookEvent.id,
+          deliveryCount: webhookEvent.deliveryCount,
+        },
+        '[Webhook Handler] Duplicate delivery, already seen'
+      );
+      return new Response('Acknowledged, already seen.', { status: 200 });
+    }
+    if (duplicate) {
+      log.info(
+        {
+          shop,
+          topic,
+          eventId,
+          webhookEventId: webhookEvent.id,
+          deliveryCount: webhookEvent.deliveryCount,
+        },
+        '[Webhook Handler] Duplicate delivery not processed yet, re-queuing'
+      );
+    }
+
+    const jobData: OrderJobData = { webhookEventId: webhookEvent.id };
+    const jobSlug = normalizedTopic.replace(/\//g, '-');
+    const job = await orderProcessingQueue.add(
+      `${jobSlug}-${payload.id}`,
+      jobData,
+      {
+        jobId: `${jobSlug}-${shop}-${webhookEvent.id}`,
+        timestamp: webhookReceivedTime,
+      }
+    );
+    log.info(
+      {
+        shop,
+        topic: normalizedTopic,
+        webhookEventId: webhookEvent.id,
+        jobId: job.id,
+        totalWebhookMs: Date.now() - webhookReceivedTime,
+      },
+      '[Webhook Handler] Job added to queue'
+    );
+    return new Response(null, { status: 200 });
+  } catch (error: unknown) {
+    log.error({ shop, topic }, '[Webhook Handler] CRITICAL ERROR', error);
+    return new Response('Error processing webhook internally, acknowledged.', {
+      status: 200,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { ActionFunctionArgs } from '@remix-run/node';
+import { ingestQueuedWebhook } from '../services/webhooks/webhook-ingestion.server.js';
+
+/**
+ * Webhook handler for the 'fulfillments/create' topic.
+ * Stores the event and queues it; the order processing worker mirrors the
+ * tracking details and may notify the customer that the order shipped.
+ */
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<Response> => {
+  return ingestQueuedWebhook(request, 'fulfillments/create');
+};
@@ -0,0 +1,13 @@
+import { ActionFunctionArgs } from '@remix-run/node';
+import { ingestQueuedWebhook } from '../services/webhooks/webhook-ingestion.server.js';
+
+/**
+ * Webhook handler for the 'fulfillments/update' topic.
+ * Stores the event and queues it; the order processing worker updates the
+ * shipment status and may notify the customer once the order is delivered.
+ */
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<Response> => {
+  return ingestQueuedWebhook(request, 'fulfillments/update');
+};
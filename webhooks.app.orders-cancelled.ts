@@ -0,0 +1,13 @@
+import { ActionFunctionArgs } from '@remix-run/node';
+import { ingestQueuedWebhook } from '../services/webhooks/webhook-ingestion.server.js';
+
+/**
+ * Webhook handler for the 'orders/cancelled' topic.
+ * Stores the event and queues it; the order processing worker revokes the
+ * order's digital IDs.
+ */
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<Response> => {
+  return ingestQueuedWebhook(request, 'orders/cancelled');
+};
@@ -1,7 +1,6 @@
 import { ActionFunctionArgs } from '@remix-run/node';
 import { authenticate } from '../shopify.server';
 import prisma from '../db.server';
-import { Prisma } from '@prisma/client'; // Removed PrismaClient unless needed elsewhere
 // Import shared payload types
 import type { PayloadOrder } from '../types/shopify.payload.types.js';
 // Import simplified job data type
@@ -10,6 +9,12 @@ import {
   type OrderJobData,
 } from '../queues/orderProcessingQueue.server.js';
 import { log } from '../utils/logger.server';
+import {
+  normalizeWebhookTopic,
+  recordWebhookDelivery,
+  resolveWebhookEventId,
+} from '../services/webhooks/webhook-ingestion.server.js';
+import { resolveContactChannel } from '../services/contact/contact-channel.server.js';
 
 // --- Removed Local Payload Type Definitions ---
 
@@ -23,8 +28,10 @@ interface AuthenticatedWebhookContext {
 
 /**
  * Webhook handler for the 'orders/create' topic.
- * Authenticates the request, stores the raw event, validates essential data,
- * and adds a job to the BullMQ queue for background processing.
+ * Authenticates the request, stores the raw event (deduplicated on the
+ * webhook id), validates essential data, and adds a job to the BullMQ queue
+ * for background processing. Redeliveries of an event that was never
+ * processed are queued again.
  */
 export const action = async ({
   request,
@@ -76,7 +83,7 @@ export const action = async ({
       '[Webhook Handler] 2. Webhook authenticated'
     );
 
-    const normalizedTopic = topic.toLowerCase().replace(/_/g, '/');
+    const normalizedTopic = normalizeWebhookTopic(topic);
     if (normalizedTopic !== 'orders/create') {
       log.warn(
         { shop, topic, shopifyOrderIdNum },
@@ -85,57 +92,90 @@ export const action = async ({
       return new Response(null, { status: 200 });
     }
 
-    const eventId =
-      eventIdHeader ?? `generated_${Date.now()}_${shopifyOrderIdNum}`;
+    const eventId = resolveWebhookEventId({
+      eventIdHeader,
+      shop,
+      topic: normalizedTopic,
+      payload,
+    });
     log.info(
       { shop, topic, eventId },
       '[Webhook Handler] 3. Storing webhook event'
     );
 
-    const webhookEvent = await prisma.webhookEvent.create({
-      data: {
-        shopId: shop,
-        topic: normalizedTopic,
-        payload: payload as Prisma.InputJsonValue,
-        processed: false,
-        eventId: eventId,
-      },
+    const { webhookEvent, duplicate } = await recordWebhookDelivery({
+      shop,
+      topic: normalizedTopic,
+      eventId,
+      payload,
     });
-    log.info(
-      { shop, topic, eventId, webhookEventId: webhookEvent.id },
-      '[Webhook Handler] 4. Webhook event stored in DB'
-    );
+    if (duplicate && webhookEvent.processed) {
+      log.info(
+        {
+          shop,
+          topic,
+          eventId,
+          webhookEventId: webhookEvent.id,
+          deliveryCount: webhookEvent.deliveryCount,
+        },
+        '[Webhook Handler] 3a. Duplicate delivery, already seen'
+      );
+      return new Response('Acknowledged, already seen.', { status: 200 });
+    }
+    if (duplicate) {
+      // The first delivery was stored but never processed (e.g. the queue
+      // add failed); enqueue again, the jobId keeps a live job from doubling
+      log.info(
+        {
+          shop,
+          topic,
+          eventId,
+          webhookEventId: webhookEvent.id,
+          deliveryCount: webhookEvent.deliveryCount,
+        },
+        '[Webhook Handler] 3b. Duplicate delivery not processed yet, re-queuing'
+      );
+    } else {
+      log.info(
+        { shop, topic, eventId, webhookEventId: webhookEvent.id },
+        '[Webhook Handler] 4. Webhook event stored in DB'
+      );
+    }
 
     // Cast payload to specific type *after* saving raw event
     const orderPayload = payload as unknown as PayloadOrder;
 
-    // Validate Phone Number before queuing
-    const customerPhone =
-      orderPayload.phone ??
-      orderPayload.shipping_address?.phone ??
-      orderPayload.billing_address?.phone ??
-      orderPayload.customer?.phone;
+    // Resolve a contact channel (phone or email) before queuing
+    const contact = resolveContactChannel(orderPayload);
 
-    if (!customerPhone) {
+    if (!contact.channel) {
       log.warn(
-        { shop, shopifyOrderIdNum },
-        '[Webhook Handler] 5a. No phone number, skipping queue add'
+        { shop, shopifyOrderIdNum, reason: contact.reason },
+        '[Webhook Handler] 5a. No contact channel, skipping queue add'
       );
       await prisma.webhookEvent.update({
         where: { id: webhookEvent.id },
         data: {
           processed: true, // Mark as processed (skipped)
           processedAt: new Date(),
-          lastError: 'Skipped: No customer phone number found in payload.',
+          lastError: `Skipped: ${contact.reason}.`,
         },
       });
-      return new Response('Acknowledged, no phone number.', { status: 200 });
+      return new Response('Acknowledged, no contact channel.', {
+        status: 200,
+      });
     }
 
     log.info(
-      { shop, shopifyOrderIdNum, customerPhone },
-      '[Webhook Handler] 5. Phone number found'
+      { shop, shopifyOrderIdNum, contactChannel: contact.channel },
+      '[Webhook Handler] 5. Contact channel resolved'
     );
+    if (contact.phoneRejections.length > 0) {
+      log.warn(
+        { shop, shopifyOrderIdNum, rejections: contact.phoneRejections },
+        '[Webhook Handler] 5b. Some order phone numbers were rejected'
+      );
+    }
 
     // --- Use Simplified Job Data ---
     const jobData: OrderJobData = {
@@ -0,0 +1,13 @@
+import { ActionFunctionArgs } from '@remix-run/node';
+import { ingestQueuedWebhook } from '../services/webhooks/webhook-ingestion.server.js';
+
+/**
+ * Webhook handler for the 'refunds/create' topic.
+ * Stores the event and queues it; the order processing worker revokes or
+ * returns the digital IDs of the refunded line items.
+ */
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<Response> => {
+  return ingestQueuedWebhook(request, 'refunds/create');
+};
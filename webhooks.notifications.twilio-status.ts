@@ -0,0 +1,72 @@
+import { ActionFunctionArgs } from '@remix-run/node';
+import pkg from 'twilio';
+import { notificationService } from '../services/notifications/notification.service.server.js';
+import { fromTwilioStatus } from '../services/notifications/notification-providers.server.js';
+import { log } from '../utils/logger.server';
+
+const { validateRequest } = pkg;
+
+/**
+ * Twilio message status callback (SMS and WhatsApp).
+ * Verifies the X-Twilio-Signature header, then moves the matching
+ * Notification record to QUEUED, SENT, DELIVERED, FAILED or UNDELIVERED.
+ */
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<Response> => {
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    params[key] = String(value);
+  });
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const signature = request.headers.get('X-Twilio-Signature') ?? '';
+  // Twilio signs the public URL it was configured with
+  const appBaseUrl = process.env.APP_BASE_URL?.replace(/\/$/, '');
+  const url = appBaseUrl
+    ? `${appBaseUrl}${new URL(request.url).pathname}`
+    : request.url;
+  if (!authToken || !validateRequest(authToken, signature, url, params)) {
+    log.warn(
+      { messageSid: params.MessageSid },
+      '[Twilio Status] Invalid signature, rejecting.'
+    );
+    return new Response('Invalid signature', { status: 403 });
+  }
+
+  const { MessageSid, MessageStatus, ErrorCode } = params;
+  if (!MessageSid || !MessageStatus) {
+    return new Response('Missing MessageSid or MessageStatus', {
+      status: 400,
+    });
+  }
+
+  try {
+    const notification = await notificationService.applyStatusUpdate({
+      provider: 'twilio',
+      providerMessageId: MessageSid,
+      status: fromTwilioStatus(MessageStatus),
+      errorCode: ErrorCode || null,
+    });
+    log.info(
+      {
+        messageSid: MessageSid,
+        twilioStatus: MessageStatus,
+        notificationId: notification?.id,
+        status: notification?.status,
+      },
+      '[Twilio Status] Callback applied'
+    );
+  } catch (error) {
+    log.error(
+      { messageSid: MessageSid },
+      '[Twilio Status] Error applying callback',
+      error
+    );
+    // Let Twilio retry
+    return new Response('Error applying status', { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+};